@@ -0,0 +1,76 @@
+import { expect, test, type Page } from "@playwright/test";
+import { mockComparison } from "@/lib/mockBackend";
+
+const CV_NAMES = ["jane_doe_cv.pdf", "john_smith.pdf"];
+
+const cvFile = (name: string) => ({
+  name,
+  mimeType: "application/pdf",
+  buffer: Buffer.from(`%PDF-1.4\n% ${name}\n`),
+});
+
+/** Answers the app's `/api/compare` route the way the backend streams a comparison. */
+const stubBackend = async (page: Page, result = mockComparison(CV_NAMES)) => {
+  await page.route("**/api/compare", (route) => {
+    const events: [string, unknown][] = [
+      ...result.candidates.map((candidate): [string, unknown] => ["candidate", candidate]),
+      ["result", result],
+    ];
+    return route.fulfill({
+      status: 200,
+      contentType: "text/event-stream",
+      body: events.map(([event, data]) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`).join(""),
+    });
+  });
+  return result;
+};
+
+const submit = async (page: Page) => {
+  await page.goto("/");
+  const next = page.getByRole("button", { name: "Next" });
+  await page.getByLabel("Terms of Reference input").fill("Water supply engineer for a donor-funded project.");
+  await next.click();
+  await next.click();
+  await page.getByLabel("Upload CVs").setInputFiles(CV_NAMES.map(cvFile));
+  await expect(page.getByText(new RegExp(`^${CV_NAMES.length}/\\d+ files uploaded`))).toBeVisible();
+  await next.click();
+  await page.getByRole("button", { name: "Analyze CVs" }).click();
+};
+
+test("compares uploaded CVs and shows the ranking and recommendation", async ({ page }) => {
+  const result = await stubBackend(page);
+  await submit(page);
+
+  const best = result.comparison_matrix[0];
+  const ranking = page
+    .locator("section")
+    .filter({ has: page.getByRole("heading", { name: /Ranking$/ }) })
+    .locator("tbody tr");
+  await expect(ranking).toHaveCount(CV_NAMES.length);
+  await expect(ranking.first()).toContainText(best.candidate_name);
+  await expect(ranking.first()).toContainText(best.total_score.toFixed(2));
+
+  await expect(page.getByText(`Best Candidate: ${result.final_recommendation.best_candidate}`)).toBeVisible();
+  for (const candidate of result.candidates) {
+    await expect(page.getByRole("heading", { name: candidate.candidate_name })).toBeVisible();
+  }
+});
+
+test("downloads the Word report", async ({ page }) => {
+  await stubBackend(page);
+  await submit(page);
+
+  const download = page.waitForEvent("download");
+  await page.getByRole("button", { name: "Download report as DOCX" }).click();
+  expect((await download).suggestedFilename()).toMatch(/^cv_comparison_report_\d{4}-\d{2}-\d{2}\.docx$/);
+});
+
+test("shows the error when the upload is rejected", async ({ page }) => {
+  await page.route("**/api/compare", (route) =>
+    route.fulfill({ status: 413, json: { error: "At most 10 CVs can be sent in one request." } })
+  );
+  await submit(page);
+
+  await expect(page.getByRole("alert")).toContainText("At most 10 CVs can be sent in one request.");
+  await expect(page.getByText("Best Candidate:")).toHaveCount(0);
+});
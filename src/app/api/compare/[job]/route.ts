@@ -0,0 +1,17 @@
+// Job status and cancellation for backends that answer with `202 Accepted`.
+
+import { proxyJob } from "@/lib/backendProxy";
+
+export const runtime = "nodejs";
+
+interface JobRouteContext {
+  params: Promise<{ job: string }>;
+}
+
+export async function GET(request: Request, { params }: JobRouteContext) {
+  return proxyJob(request, (await params).job);
+}
+
+export async function DELETE(request: Request, { params }: JobRouteContext) {
+  return proxyJob(request, (await params).job);
+}
@@ -0,0 +1,9 @@
+// Proxies CV submissions to the compare-cvs backend (see `lib/backendProxy`).
+
+import { proxySubmission } from "@/lib/backendProxy";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  return proxySubmission(request);
+}
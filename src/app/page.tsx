@@ -1,92 +1,110 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { Upload, FileText, AlertCircle, ChevronRight, X, Download, Image } from "lucide-react";
-import { saveAs } from "file-saver";
+import { useState, useEffect, useRef } from "react";
+import { AlertCircle, History, FileJson, FilePlus, X } from "lucide-react";
 import { ArrowUp } from "lucide-react";
-import { createWorker } from 'tesseract.js';
-
-interface Scores {
-  general_qualifications: {
-    education: number;
-    years_of_experience: number;
-    total: number;
-  };
-  adequacy_for_assignment: {
-    relevant_project_experience: number;
-    donor_experience: number;
-    regional_experience: number;
-    total: number;
-  };
-  specific_skills_competencies: {
-    technical_skills: number;
-    language_proficiency: number;
-    certifications: number;
-    total: number;
-  };
-  total_score: number;
-}
-
-interface DetailedEvaluation {
-  criterion: string;
-  weight: number;
-  score: number;
-  justification: string;
-}
-
-interface Candidate {
-  candidate_name: string;
-  recommendation: string;
-  scores: Scores;
-  summary_justification: {
-    key_strengths: string;
-    key_weaknesses: string;
-  };
-  detailed_evaluation: DetailedEvaluation[];
-}
-
-interface ComparisonMatrix {
-  candidate_name: string;
-  total_score: number;
-  rank: number;
-}
-
-interface WhyNotOther {
-  candidate_name: string;
-  reason: string;
-}
-
-interface FinalRecommendation {
-  best_candidate: string;
-  final_decision: string;
-  justification: string | {
-    detailed_explanation: string;
-    why_he: string;
-    why_not_others: WhyNotOther[];
-  };
-}
-
-interface JsonData {
-  tor_text: string;
-  criteria: { criterion: string; weight: number }[];
-  candidates: Candidate[];
-  comparison_matrix: ComparisonMatrix[];
-  final_recommendation: FinalRecommendation;
-}
+import type { JsonData, SchemaWarning } from "@/lib/schema";
+import {
+  DEFAULT_CRITERIA,
+  categoryWeight,
+  resolveCriteria,
+  type CriteriaGrid,
+} from "@/lib/criteria";
+import { criterionNames, getFulfillmentForCandidate } from "@/lib/results";
+import { generateDocxReport } from "@/lib/report";
+import { DEFAULT_REPORT_CONFIG, loadReportConfig, saveReportConfig, type ReportConfig } from "@/lib/reportConfig";
+import ReportExporter from "@/components/ReportExporter";
+import { exportEvaluationJson, readEvaluationFile } from "@/lib/evaluationFile";
+import {
+  deleteEvaluation,
+  getEvaluation,
+  listEvaluations,
+  renameEvaluation,
+  saveEvaluation,
+  updateEvaluation,
+  type EvaluationRecord,
+} from "@/lib/history";
+import CriteriaEditor from "@/components/CriteriaEditor";
+import TorInput from "@/components/TorInput";
+import HistoryPanel from "@/components/HistoryPanel";
+import ComparisonGrid from "@/components/ComparisonGrid";
+import ScoreChartsPanel from "@/components/ScoreChartsPanel";
+import WhatIfPanel from "@/components/WhatIfPanel";
+import CvDropzone from "@/components/CvDropzone";
+import { useCvPreviews } from "@/hooks/useCvPreviews";
+import { submissionFile } from "@/lib/cvText";
+import { validateCvFiles, type RejectedCv } from "@/lib/cvValidation";
+import AnalysisProgress from "@/components/AnalysisProgress";
+import BatchStatusPanel from "@/components/BatchStatusPanel";
+import { useBatchAnalysis, type AnalysisOutcome } from "@/hooks/useBatchAnalysis";
+import { createApiClient } from "@/lib/apiClient";
+import { baseWeights, isBaseline, type WeightMap } from "@/lib/scenario";
+import {
+  applyOverrides,
+  buildOverrideAudit,
+  setOverride,
+  type ScoreOverride,
+  type ScoreOverrides,
+} from "@/lib/overrides";
+import CandidateCard from "@/components/CandidateCard";
+import ScoreBreakdown from "@/components/ScoreBreakdown";
+import RankingTable from "@/components/RankingTable";
+import FinalRecommendationPanel from "@/components/FinalRecommendationPanel";
+import type { PanelScores } from "@/lib/panel";
+import PanelScoring from "@/components/PanelScoring";
+import ConsensusView from "@/components/ConsensusView";
+import CvEvidenceViewer from "@/components/CvEvidenceViewer";
+import WizardSteps from "@/components/WizardSteps";
+import SubmissionReview from "@/components/SubmissionReview";
+import { canReachStep, firstIncompleteStep, WIZARD_STEPS, stepIndex, type WizardStep } from "@/lib/wizard";
+import type { RestoredDraft } from "@/lib/draft";
+import { useDraftAutosave } from "@/hooks/useDraftAutosave";
+
+const apiClient = createApiClient();
 
 export default function Page() {
-  const API_URL =
-    process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000/api/compare-cvs/";
   const [tor, setTor] = useState("");
-  const [torImage, setTorImage] = useState<File | null>(null);
   const [ocrLoading, setOcrLoading] = useState(false);
   const [files, setFiles] = useState<File[]>([]);
-  const [loading, setLoading] = useState(false);
+  const { previews: cvPreviews, runOcr, cancelOcr } = useCvPreviews(files);
+  const [rejectedFiles, setRejectedFiles] = useState<RejectedCv[]>([]);
+  // Drops are validated one after another against the latest list, so two
+  // quick drops cannot both pass the duplicate and count checks.
+  const latestFiles = useRef(files);
+  latestFiles.current = files;
+  const cvValidation = useRef<Promise<void>>(Promise.resolve());
+  const queuedDrops = useRef(0);
+  const [criteria, setCriteria] = useState<CriteriaGrid>(DEFAULT_CRITERIA);
+  const [step, setStep] = useState<WizardStep>("tor");
+  const [resumed, setResumed] = useState<Pick<RestoredDraft, "updatedAt" | "missing"> | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [data, setData] = useState<JsonData | null>(null);
-  const [isDragging, setIsDragging] = useState(false);
-  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [warnings, setWarnings] = useState<SchemaWarning[]>([]);
   const [isVisible, setIsVisible] = useState(false);
+  const [history, setHistory] = useState<EvaluationRecord[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [activeRecordId, setActiveRecordId] = useState<string | null>(null);
+  const [scenarioWeights, setScenarioWeights] = useState<WeightMap | null>(null);
+  const [includeScenario, setIncludeScenario] = useState(false);
+  const [overrides, setOverrides] = useState<ScoreOverrides>({});
+  const [panel, setPanel] = useState<PanelScores>({});
+  const [evidenceFor, setEvidenceFor] = useState<string | null>(null);
+  const [reportConfig, setReportConfig] = useState<ReportConfig>(DEFAULT_REPORT_CONFIG);
+
+  const refreshHistory = () =>
+    listEvaluations()
+      .then(setHistory)
+      .catch((err) => console.error("History load error:", err));
+
+  useEffect(() => {
+    refreshHistory();
+    setReportConfig(loadReportConfig());
+  }, []);
+
+  const updateReportConfig = (config: ReportConfig) => {
+    setReportConfig(config);
+    saveReportConfig(config);
+  };
 
   useEffect(() => {
     const toggleVisibility = () => {
@@ -107,402 +125,266 @@ export default function Page() {
     });
   };
 
-  const handleTorImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    setError(null);
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      if (file.size > 5 * 1024 * 1024) {
-        setError("ToR image file too large (max 5MB).");
-        return;
-      }
-      if (!["image/jpeg", "image/png", "image/jpg"].includes(file.type)) {
-        setError("Only JPEG/PNG images allowed for ToR.");
-        return;
-      }
-      setTorImage(file);
-      setOcrLoading(true);
-      setTor(""); // Clear previous ToR text
-      try {
-        const worker = await createWorker('eng', 1, {
-          logger: (m) => console.log(m),
-        });
-        const { data: { text } } = await worker.recognize(file);
-        setTor(text.trim()); // Populate main ToR textarea
-        await worker.terminate();
-      } catch (err) {
-        setError("Failed to extract text from ToR image. Try a clearer image or type/paste the ToR manually.");
-        console.error("OCR error:", err);
-      } finally {
-        setOcrLoading(false);
-      }
-    }
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const incomplete = firstIncompleteStep(wizardState, "review");
+    if (incomplete) {
+      setStep(incomplete.step);
+      setError(incomplete.errors[0]);
+      return;
+    }
+
     setError(null);
     setData(null);
+    setWarnings([]);
+    setActiveRecordId(null);
+    setScenarioWeights(null);
+    setIncludeScenario(false);
+    setOverrides({});
+    setPanel({});
+    setStep("results");
+
+    const submitted = files.map((file) => submissionFile(file, cvPreviews.get(file)));
+    analysis.analyze(submitted, tor, criteria);
+  };
 
-    if (!tor) {
-      setError("Please enter ToR text or upload a ToR image to extract text.");
-      return;
-    }
-    if (files.length === 0) {
-      setError("Please upload at least one CV file.");
-      return;
+  const handleAnalysisSettled = ({
+    data: result,
+    warnings: resultWarnings,
+    batches,
+    cancelled,
+    partialCount,
+  }: AnalysisOutcome) => {
+    if (result) {
+      setData(result);
+      setWarnings(resultWarnings);
+      const saved = activeRecordId
+        ? updateEvaluation(activeRecordId, { data: result })
+        : saveEvaluation({ tor, fileNames: files.map((f) => f.name), criteria, data: result });
+      saved
+        .then((record) => {
+          setActiveRecordId(record.id);
+          refreshHistory();
+        })
+        .catch((err) => console.error("History save error:", err));
     }
-    if (files.length > 10) {
-      setError("Maximum 10 CVs allowed.");
-      return;
+
+    const failed = batches.filter((b) => b.status === "failed");
+    if (cancelled) {
+      setError(
+        result
+          ? `Analysis cancelled. Showing the ${result.candidates.length} candidate${result.candidates.length === 1 ? "" : "s"} evaluated before cancelling.`
+          : partialCount > 0
+            ? `Analysis cancelled. Partial results, not saved: ${partialCount} candidate${partialCount === 1 ? "" : "s"} evaluated before cancelling.`
+            : "Analysis cancelled."
+      );
+    } else if (failed.length > 0) {
+      setError(
+        batches.length === 1
+          ? failed[0].error ?? "Failed to process CVs."
+          : `${failed.length} of ${batches.length} batches failed. Retry them from the batch list.`
+      );
     }
+  };
 
-    const formData = new FormData();
-    formData.append("tor", tor); // Send typed or extracted ToR text
-    files.forEach((file) => formData.append("cvs", file));
+  const analysis = useBatchAnalysis(apiClient, {
+    onPartial: setData,
+    onSettled: handleAnalysisSettled,
+  });
+  const loading = analysis.loading;
+
+  const wizardState = {
+    tor,
+    torBusy: ocrLoading,
+    criteria,
+    files,
+    previews: cvPreviews,
+    hasResults: data !== null || loading,
+  };
 
-    setLoading(true);
-    try {
-      const res = await fetch(API_URL, {
-        method: "POST",
-        body: formData,
-      });
-      const json = await res.json();
-      if (!res.ok) {
-        throw new Error(json.error || "Failed to process CVs.");
+  // Moves to `target`, or to the first step still blocking it with its problem shown.
+  const goToStep = (target: WizardStep) => {
+    if (!canReachStep(target, step, wizardState)) {
+      const incomplete = firstIncompleteStep(wizardState, target);
+      if (incomplete) {
+        setStep(incomplete.step);
+        setError(incomplete.errors[0]);
       }
-      setData(json);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "An unexpected error occurred.");
-    } finally {
-      setLoading(false);
+      return;
     }
+    setError(null);
+    setStep(target);
   };
 
-  const handleFileChange = (newFiles: File[]) => {
-    setFiles((prev) => [...prev, ...newFiles].slice(0, 10));
+  const restoreDraft = async (draft: RestoredDraft) => {
+    setTor(draft.tor);
+    setCriteria(draft.criteria);
+    setFiles(draft.files);
+    setActiveRecordId(draft.evaluationId);
+    const record = draft.evaluationId ? await getEvaluation(draft.evaluationId) : undefined;
+    if (record) {
+      setData(record.data);
+      setOverrides(record.overrides ?? {});
+      setPanel(record.panel ?? {});
+    } else {
+      setActiveRecordId(null);
+    }
+    // An analysis cut short by the reload has nothing to show; resume from the review instead.
+    setStep(draft.step === "results" && !record ? "review" : draft.step);
+    if (draft.tor || draft.files.length > 0 || draft.missing.length > 0) {
+      setResumed({ updatedAt: draft.updatedAt, missing: draft.missing });
+    }
   };
 
-  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    setIsDragging(false);
-    if (e.dataTransfer.files) {
-      handleFileChange(Array.from(e.dataTransfer.files));
+  const draft = useDraftAutosave(step, tor, criteria, files, activeRecordId, restoreDraft);
+
+  const startNewEvaluation = () => {
+    if ((tor || files.length > 0) && !data && !window.confirm("Discard the current draft and start a new evaluation?")) {
+      return;
     }
+    analysis.reset();
+    draft.discard();
+    setTor("");
+    setCriteria(DEFAULT_CRITERIA);
+    setFiles([]);
+    setRejectedFiles([]);
+    setData(null);
+    setWarnings([]);
+    setActiveRecordId(null);
+    setScenarioWeights(null);
+    setIncludeScenario(false);
+    setOverrides({});
+    setPanel({});
+    setEvidenceFor(null);
+    setError(null);
+    setResumed(null);
+    setStep("tor");
   };
 
-  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    setIsDragging(true);
+  const retryBatches = (index?: number) => {
+    setError(null);
+    analysis.retry(index);
   };
 
-  const handleDragLeave = () => {
-    setIsDragging(false);
+  const handleFileChange = (newFiles: File[]) => {
+    // Rejections of drops made while an earlier one is still validating are
+    // listed together, so none of them goes unreported.
+    const first = queuedDrops.current++ === 0;
+    cvValidation.current = cvValidation.current
+      .then(async () => {
+        const { accepted, rejected } = await validateCvFiles(latestFiles.current, newFiles);
+        latestFiles.current = [...latestFiles.current, ...accepted];
+        setFiles((prev) => [...prev, ...accepted]);
+        setRejectedFiles((prev) => (first ? rejected : [...prev, ...rejected]));
+      })
+      .catch((err) => console.error("CV validation error:", err))
+      .finally(() => queuedDrops.current--);
   };
 
   const removeFile = (index: number) => {
     setFiles((prev) => prev.filter((_, i) => i !== index));
+    setRejectedFiles([]);
   };
 
-  const removeTorImage = () => {
-    setTorImage(null);
-    setTor(""); // Clear ToR text when image is removed
+  const openEvaluation = (record: EvaluationRecord) => {
+    setData(record.data);
+    setTor(record.tor);
+    setCriteria(record.criteria);
+    setOverrides(record.overrides ?? {});
+    setPanel(record.panel ?? {});
+    setWarnings([]);
+    setScenarioWeights(null);
+    setIncludeScenario(false);
+    setError(null);
+    setActiveRecordId(record.id);
+    setIsHistoryOpen(false);
+    setStep("results");
+    analysis.reset();
   };
 
-  const getBadgeColor = (recommendation: string) => {
-    if (recommendation === "Highly Suitable") return "bg-green-100 text-green-800 border-green-300";
-    if (recommendation === "Suitable") return "bg-yellow-100 text-yellow-800 border-yellow-300";
-    return "bg-red-100 text-red-800 border-red-300";
+  const handleImportJson = async (file: File) => {
+    setError(null);
+    try {
+      const { evaluation, warnings: importWarnings } = await readEvaluationFile(file);
+      analysis.reset();
+      setData(evaluation.data);
+      setTor(evaluation.tor);
+      setCriteria(evaluation.criteria);
+      setOverrides(evaluation.overrides ?? {});
+      setPanel(evaluation.panel ?? {});
+      setWarnings(importWarnings);
+      setScenarioWeights(null);
+      setIncludeScenario(false);
+      setActiveRecordId(null);
+      setStep("results");
+      const record = await saveEvaluation(evaluation);
+      setActiveRecordId(record.id);
+      refreshHistory();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import the evaluation.");
+    }
   };
 
-  const mapCriteria = () => {
-    if (!data?.criteria) return [];
-    return [
-      {
-        category: "General Qualifications",
-        weight: "20%",
-        subitems: [
-          { name: "Education", weight: data.criteria.find(c => c.criterion === "Education")?.weight || 10 },
-          { name: "Years of Experience", weight: data.criteria.find(c => c.criterion === "Years of Experience")?.weight || 10 },
-        ],
-      },
-      {
-        category: "Adequacy for the Assignment",
-        weight: "50%",
-        subitems: [
-          { name: "Relevant Project Experience", weight: data.criteria.find(c => c.criterion === "Relevant Project Experience")?.weight || 25 },
-          { name: "Donor Experience (WB, ADB, etc.)", weight: data.criteria.find(c => c.criterion === "Donor Experience (WB, ADB, etc.)")?.weight || 15 },
-          { name: "Regional Experience", weight: data.criteria.find(c => c.criterion === "Regional Experience")?.weight || 10 },
-        ],
-      },
-      {
-        category: "Specific Skills & Competencies",
-        weight: "30%",
-        subitems: [
-          { name: "Technical Skills", weight: data.criteria.find(c => c.criterion === "Technical Skills")?.weight || 15 },
-          { name: "Language Proficiency", weight: data.criteria.find(c => c.criterion === "Language Proficiency")?.weight || 10 },
-          { name: "Certifications", weight: data.criteria.find(c => c.criterion === "Certifications")?.weight || 5 },
-        ],
-      },
-    ];
+  const exportJson = (reportData: JsonData) => {
+    const record = history.find((r) => r.id === activeRecordId);
+    exportEvaluationJson(
+      record
+        ? { ...record, data: reportData, overrides, panel }
+        : { tor, fileNames: files.map((f) => f.name), criteria, data: reportData, overrides, panel }
+    );
   };
 
-  const sortedMatrix = data?.comparison_matrix ? [...data.comparison_matrix].sort((a, b) => a.rank - b.rank) : [];
+  const updateOverride = (candidate: string, criterion: string, override: ScoreOverride | null) => {
+    const next = setOverride(overrides, candidate, criterion, override);
+    setOverrides(next);
+    if (activeRecordId) {
+      updateEvaluation(activeRecordId, { overrides: next })
+        .then(refreshHistory)
+        .catch((err) => console.error("History save error:", err));
+    }
+  };
 
-  const allCriteria = data?.criteria.map(c => c.criterion) || [];
+  const updatePanel = (next: PanelScores) => {
+    setPanel(next);
+    if (activeRecordId) {
+      updateEvaluation(activeRecordId, { panel: next })
+        .then(refreshHistory)
+        .catch((err) => console.error("History save error:", err));
+    }
+  };
 
-  const getFulfillmentForCandidate = (candidate: Candidate) => {
-    const fulfillmentMap: { [key: string]: string } = {};
-    allCriteria.forEach(crit => {
-      const evalItem = candidate.detailed_evaluation.find(de => de.criterion === crit);
-      if (evalItem && evalItem.score > 0 && evalItem.justification && evalItem.justification !== "No evidence in CV.") {
-        fulfillmentMap[crit] = evalItem.justification;
-      } else {
-        fulfillmentMap[crit] = "No work here";
-      }
-    });
-    return fulfillmentMap;
+  const handleRenameEvaluation = (id: string, name: string) => {
+    renameEvaluation(id, name)
+      .then(refreshHistory)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to rename evaluation."));
   };
 
-  const generateDocxReport = async (reportData: JsonData) => {
-    const { Document, Packer, Paragraph, HeadingLevel, AlignmentType, Table, TableRow, TableCell, WidthType, BorderStyle } = await import('docx');
+  const handleDeleteEvaluation = (id: string) => {
+    deleteEvaluation(id)
+      .then(() => {
+        if (id === activeRecordId) setActiveRecordId(null);
+        refreshHistory();
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to delete evaluation."));
+  };
 
-    const doc = new Document({
-      sections: [
-        {
-          properties: {},
-          children: [
-            new Paragraph({
-              text: "CV Comparison Report",
-              heading: HeadingLevel.TITLE,
-              alignment: AlignmentType.CENTER,
-            }),
-            new Paragraph({
-              text: "Terms of Reference",
-              heading: HeadingLevel.HEADING_1,
-            }),
-            new Paragraph({
-              text: reportData.tor_text || "No ToR text provided.",
-            }),
-            new Paragraph({
-              text: "Evaluation Criteria",
-              heading: HeadingLevel.HEADING_1,
-            }),
-            ...mapCriteria().flatMap(category => [
-              new Paragraph({
-                text: `${category.category} - ${category.weight}`,
-                heading: HeadingLevel.HEADING_2,
-              }),
-              ...category.subitems.map(subitem => 
-                new Paragraph({
-                  text: `${subitem.name}: ${subitem.weight}%`,
-                  bullet: { level: 0 },
-                })
-              ),
-            ]),
-            new Paragraph({
-              text: "Candidates",
-              heading: HeadingLevel.HEADING_1,
-            }),
-            ...reportData.candidates.flatMap(candidate => [
-              new Paragraph({
-                text: candidate.candidate_name || "Unnamed Candidate",
-                heading: HeadingLevel.HEADING_2,
-              }),
-              new Paragraph({
-                text: `Recommendation: ${candidate.recommendation || "Not Evaluated"}`,
-              }),
-              new Paragraph({
-                text: `Total Score: ${candidate.scores?.total_score?.toFixed(2) || "N/A"}`,
-              }),
-              new Paragraph({
-                text: `Strengths: ${candidate.summary_justification?.key_strengths || "None provided."}`,
-              }),
-              new Paragraph({
-                text: `Weaknesses: ${candidate.summary_justification?.key_weaknesses || "None provided."}`,
-              }),
-              new Paragraph({
-                text: "Scores",
-                heading: HeadingLevel.HEADING_3,
-              }),
-              new Paragraph({
-                text: "General Qualifications",
-                bullet: { level: 0 },
-              }),
-              new Paragraph({
-                text: `Education: ${candidate.scores?.general_qualifications?.education?.toFixed(2) || "N/A"}`,
-                bullet: { level: 1 },
-              }),
-              new Paragraph({
-                text: `Years of Experience: ${candidate.scores?.general_qualifications?.years_of_experience?.toFixed(2) || "N/A"}`,
-                bullet: { level: 1 },
-              }),
-              new Paragraph({
-                text: "Adequacy for the Assignment",
-                bullet: { level: 0 },
-              }),
-              new Paragraph({
-                text: `Relevant Project Experience: ${candidate.scores?.adequacy_for_assignment?.relevant_project_experience?.toFixed(2) || "N/A"}`,
-                bullet: { level: 1 },
-              }),
-              new Paragraph({
-                text: `Donor Experience: ${candidate.scores?.adequacy_for_assignment?.donor_experience?.toFixed(2) || "N/A"}`,
-                bullet: { level: 1 },
-              }),
-              new Paragraph({
-                text: `Regional Experience: ${candidate.scores?.adequacy_for_assignment?.regional_experience?.toFixed(2) || "N/A"}`,
-                bullet: { level: 1 },
-              }),
-              new Paragraph({
-                text: "Specific Skills & Competencies",
-                bullet: { level: 0 },
-              }),
-              new Paragraph({
-                text: `Technical Skills: ${candidate.scores?.specific_skills_competencies?.technical_skills?.toFixed(2) || "N/A"}`,
-                bullet: { level: 1 },
-              }),
-              new Paragraph({
-                text: `Language Proficiency: ${candidate.scores?.specific_skills_competencies?.language_proficiency?.toFixed(2) || "N/A"}`,
-                bullet: { level: 1 },
-              }),
-              new Paragraph({
-                text: `Certifications: ${candidate.scores?.specific_skills_competencies?.certifications?.toFixed(2) || "N/A"}`,
-                bullet: { level: 1 },
-              }),
-              new Paragraph({
-                text: "Detailed Evaluation",
-                heading: HeadingLevel.HEADING_3,
-              }),
-              ...candidate.detailed_evaluation.map(evalItem => 
-                new Paragraph({
-                  text: `${evalItem.criterion}: Score ${evalItem.score?.toFixed(2) || "N/A"} (Weight: ${evalItem.weight}%) - Justification: ${evalItem.justification || "None provided."}`,
-                  bullet: { level: 0 },
-                })
-              ),
-            ]),
-            new Paragraph({
-              text: "Comparison Ranking",
-              heading: HeadingLevel.HEADING_1,
-            }),
-            new Table({
-              width: { size: 100, type: WidthType.PERCENTAGE },
-              borders: {
-                top: { style: BorderStyle.SINGLE, size: 1 },
-                bottom: { style: BorderStyle.SINGLE, size: 1 },
-                left: { style: BorderStyle.SINGLE, size: 1 },
-                right: { style: BorderStyle.SINGLE, size: 1 },
-                insideHorizontal: { style: BorderStyle.SINGLE, size: 1 },
-                insideVertical: { style: BorderStyle.SINGLE, size: 1 },
-              },
-              rows: [
-                new TableRow({
-                  children: [
-                    new TableCell({ children: [new Paragraph("Candidate Name")] }),
-                    new TableCell({ children: [new Paragraph("Total Score")] }),
-                    new TableCell({ children: [new Paragraph("Rank")] }),
-                  ],
-                }),
-                ...sortedMatrix.map(m => 
-                  new TableRow({
-                    children: [
-                      new TableCell({ children: [new Paragraph(m.candidate_name || "Unnamed Candidate")] }),
-                      new TableCell({ children: [new Paragraph(m.total_score?.toFixed(2) || "N/A")] }),
-                      new TableCell({ children: [new Paragraph(m.rank?.toString() || "N/A")] }),
-                    ],
-                  })
-                ),
-              ],
-            }),
-            new Paragraph({
-              text: "Final Recommendation",
-              heading: HeadingLevel.HEADING_1,
-            }),
-            new Paragraph({
-              text: `Best Candidate: ${reportData.final_recommendation?.best_candidate || "None"}`,
-            }),
-            new Paragraph({
-              text: `Decision: ${reportData.final_recommendation?.final_decision || "Not Evaluated"}`,
-            }),
-            ...(typeof reportData.final_recommendation?.justification === "string"
-              ? [
-                  new Paragraph({
-                    text: "Justification",
-                    heading: HeadingLevel.HEADING_2,
-                  }),
-                  new Paragraph({
-                    text: reportData.final_recommendation.justification || "No justification provided.",
-                  }),
-                ]
-              : [
-                  new Paragraph({
-                    text: "Detailed Explanation",
-                    heading: HeadingLevel.HEADING_2,
-                  }),
-                  new Paragraph({
-                    text: reportData.final_recommendation?.justification?.detailed_explanation || "No detailed explanation provided.",
-                  }),
-                  new Paragraph({
-                    text: "Why Recommended Candidate",
-                    heading: HeadingLevel.HEADING_2,
-                  }),
-                  new Paragraph({
-                    text: reportData.final_recommendation?.justification?.why_he || "No reason provided for recommended candidate.",
-                  }),
-                  new Paragraph({
-                    text: "Why Not Other Candidates",
-                    heading: HeadingLevel.HEADING_2,
-                  }),
-                  ...(reportData.final_recommendation?.justification?.why_not_others || []).map(other => [
-                    new Paragraph({
-                      text: `Candidate: ${other.candidate_name || "Unnamed Candidate"}`,
-                      bullet: { level: 0 },
-                    }),
-                    new Paragraph({
-                      text: `Reason: ${other.reason || "No reason provided."}`,
-                      bullet: { level: 1 },
-                    }),
-                  ]).flat(),
-                ]
-            ),
-            new Paragraph({
-              text: "CV Comparison Table",
-              heading: HeadingLevel.HEADING_1,
-            }),
-            new Table({
-              width: { size: 100, type: WidthType.PERCENTAGE },
-              borders: {
-                top: { style: BorderStyle.SINGLE, size: 1 },
-                bottom: { style: BorderStyle.SINGLE, size: 1 },
-                left: { style: BorderStyle.SINGLE, size: 1 },
-                right: { style: BorderStyle.SINGLE, size: 1 },
-                insideHorizontal: { style: BorderStyle.SINGLE, size: 1 },
-                insideVertical: { style: BorderStyle.SINGLE, size: 1 },
-              },
-              rows: [
-                new TableRow({
-                  children: [
-                    new TableCell({ children: [new Paragraph("Candidate Name")] }),
-                    ...allCriteria.map(crit => new TableCell({ children: [new Paragraph(crit)] })),
-                  ],
-                }),
-                ...reportData.candidates.map(candidate => {
-                  const fulfillment = getFulfillmentForCandidate(candidate);
-                  return new TableRow({
-                    children: [
-                      new TableCell({ children: [new Paragraph(candidate.candidate_name || "Unnamed Candidate")] }),
-                      ...allCriteria.map(crit => new TableCell({ children: [new Paragraph(fulfillment[crit] || "N/A")] })),
-                    ],
-                  });
-                }),
-              ],
-            }),
-          ],
-        },
-      ],
-    });
+  const mapCriteria = (): CriteriaGrid => (data ? resolveCriteria(data) : []);
 
-    const blob = await Packer.toBlob(doc);
-    saveAs(blob, "cv_comparison_report.docx");
-  };
+  // The AI result with the evaluator overrides applied; `data` keeps the AI scores.
+  const results = data ? applyOverrides(data, overrides) : null;
+
+  const overrideAudit = data ? buildOverrideAudit(data, overrides) : null;
+
+  const evidenceCandidate = data?.candidates.find((c) => c.candidate_name === evidenceFor);
+
+  const allCriteria = data ? criterionNames(data) : [];
+
+  const whatIfWeights = scenarioWeights ?? baseWeights(mapCriteria());
+
+  const reportOptions = () => ({
+    scenario: includeScenario && !isBaseline(mapCriteria(), whatIfWeights) ? whatIfWeights : undefined,
+    overrides: overrideAudit ?? undefined,
+  });
 
   return (
     <div className="bg-gray-50 min-h-screen">
@@ -523,195 +405,158 @@ export default function Page() {
                 <span className="text-red-700 dark:text-red-800"> Tool</span>
               </h1>
             </div>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setIsHistoryOpen(true)}
+                className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-blue-900 border border-gray-300 rounded-md hover:bg-gray-100 transition"
+              >
+                <History size={16} />
+                History{history.length > 0 ? ` (${history.length})` : ""}
+              </button>
+              <label className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-blue-900 border border-gray-300 rounded-md hover:bg-gray-100 transition cursor-pointer">
+                <FileJson size={16} />
+                Import JSON
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImportJson(file);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </div>
           </div>
         </div>
       </nav>
+      {isHistoryOpen && (
+        <HistoryPanel
+          records={history}
+          activeId={activeRecordId}
+          onClose={() => setIsHistoryOpen(false)}
+          onOpen={openEvaluation}
+          onRename={handleRenameEvaluation}
+          onDelete={handleDeleteEvaluation}
+          onExport={(record) =>
+            generateDocxReport(applyOverrides(record.data, record.overrides ?? {}), {
+              config: reportConfig,
+              overrides: buildOverrideAudit(record.data, record.overrides ?? {}) ?? undefined,
+            }).catch((err) => {
+              console.error("DOCX report error:", err);
+              setError("Failed to create the Word report.");
+            })
+          }
+          onExportJson={exportEvaluationJson}
+        />
+      )}
       {/* Main Content */}
       <div className="container mx-auto pt-20 pb-8 px-4 sm:px-6 lg:px-8">
-        {/* Job Description Section */}
-        <div className="job-description-card">
-          <div className="card-header">
-            <h2>Job Description (ToR)</h2>
-            
-            <button
-              className="view-full-btn"
-              type="button"
-              onClick={() => {
-                if (!tor.trim() && !isModalOpen) {
-                  alert("Please paste, type, or upload a ToR image to populate the Terms of Reference.");
-                  return;
-                }
-                setIsModalOpen(!isModalOpen);
-              }}
-            >
-              {isModalOpen ? "- View Full ToR" : "+ View Full ToR"}
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+          <WizardSteps
+            current={step}
+            isReachable={(target) => canReachStep(target, step, wizardState)}
+            onSelect={goToStep}
+          />
+          <button
+            type="button"
+            onClick={startNewEvaluation}
+            disabled={loading}
+            className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-blue-900 border border-gray-300 rounded-md hover:bg-gray-100 transition disabled:opacity-50"
+          >
+            <FilePlus size={16} />
+            New evaluation
+          </button>
+        </div>
+
+        {/* Restored Draft */}
+        {resumed && (
+          <div className="flex items-start gap-2 mb-6 p-4 bg-blue-50 border border-blue-200 rounded-md text-blue-900 text-sm" role="status">
+            <div className="flex-1">
+              Resumed your draft from {new Date(resumed.updatedAt).toLocaleString()}.
+              {resumed.missing.length > 0 && (
+                <p className="mt-1 text-yellow-800">
+                  {resumed.missing.length} CV{resumed.missing.length === 1 ? " could" : "s could"} not be restored and
+                  need to be added again: {resumed.missing.join(", ")}.
+                </p>
+              )}
+            </div>
+            <button type="button" onClick={() => setResumed(null)} aria-label="Dismiss" className="text-blue-700 hover:text-blue-900">
+              <X size={16} />
             </button>
-            
           </div>
-          <p className="mt-1 text-sm text-gray-500">
-              Paste or type the job requirements, or upload an image below to extract text automatically.
-            </p>
+        )}
 
-          {/* Textarea for Typing/Pasting or Extracted ToR */}
-          <div className="mt-4">
-            <textarea
-              value={tor}
-              onChange={(e) => setTor(e.target.value)}
-              rows={6}
-              className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition"
-              placeholder="Paste, type, or upload a ToR image to populate the Terms of Reference here..."
-              aria-label="Terms of Reference input"
-            />
-            
-          </div>
+        {/* Steps stay mounted while hidden so an OCR run or upload in progress is not lost. */}
+        {/* Job Description Section */}
+        <div hidden={step !== "tor"}>
+          <TorInput value={tor} onChange={setTor} onBusyChange={setOcrLoading} onError={setError} />
+        </div>
 
-          {/* Modal for Full ToR */}
-          {isModalOpen && (
-            <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-              <div className="bg-white rounded-lg p-6 w-full max-w-md mx-auto shadow-lg">
-                <div className="flex justify-between items-center mb-4">
-                  <h2 className="text-xl font-semibold">Full Terms of Reference</h2>
-                  <button
-                    className="text-gray-500 hover:text-gray-700"
-                    onClick={() => setIsModalOpen(false)}
-                  >
-                    <svg
-                      className="w-6 h-6"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M6 18L18 6M6 6l12 12"
-                      />
-                    </svg>
-                  </button>
-                </div>
-                <div className="max-h-96 overflow-y-auto">
-                  <p className="text-gray-700 whitespace-pre-wrap">{tor || "No ToR entered yet."}</p>
-                </div>
-                <button
-                  className="mt-4 bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition"
-                  onClick={() => setIsModalOpen(false)}
-                >
-                  Close
-                </button>
-              </div>
-            </div>
-          )}
-          <br />
-          <h2 className="OR">OR</h2>
-          <div className="">
+        {/* Evaluation Criteria Section */}
+        <div hidden={step !== "criteria"} className="job-description-card">
           <div className="card-header">
-           <h2>Upload Job Description (ToR) Image</h2>
+            <h2>Evaluation Criteria</h2>
           </div>
+          <p className="mt-1 text-sm text-gray-500">
+            {criteria.map((c) => `${c.name || "Untitled"} ${+categoryWeight(c).toFixed(2)}%`).join(" · ") ||
+              "No criteria defined."}
+          </p>
           <div className="mt-4">
-            <label
-              htmlFor="tor-image"
-              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md cursor-pointer hover:bg-blue-700 transition mb-2"
-            >
-              <Upload size={16} className="mr-2" />
-              Choose ToR Image
-            </label>
-            <input
-              id="tor-image"
-              type="file"
-              accept="image/jpeg,image/png,image/jpg"
-              onChange={handleTorImageChange}
-              className="hidden"
-              aria-label="Upload ToR image"
-            />
-            {torImage && (
-              <div className="flex items-center space-x-2 mt-2">
-                <Image size={16} className="text-blue-500" />
-                <span>{torImage.name}</span>
-                <button onClick={removeTorImage} className="remove-btn">
-                  <X size={16} />
-                </button>
-              </div>
-            )}
-            {ocrLoading && (
-              <div className="mt-2 flex items-center space-x-2">
-                <div className="w-5 h-5 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
-                <p className="text-sm text-blue-600">Extracting text to populate ToR input...</p>
-              </div>
-            )}
-            <p className="mt-1 text-sm text-gray-500">
-              Upload a clear image of the ToR (JPEG/PNG, max 5MB). The extracted text will automatically populate the ToR input above.
-            </p>
+            <CriteriaEditor value={criteria} onChange={setCriteria} />
           </div>
         </div>
 
-        </div>
-
-        {/* ToR Image Upload Section */}
-        
         {/* File Upload Section */}
-        <div className="file-upload-card">
-          <h2>Upload CVs</h2>
-          
-          <div
-            className={`dropzone-area ${isDragging ? "dragging" : ""}`}
-            onDrop={handleDrop}
-            onDragOver={handleDragOver}
-            onDragLeave={handleDragLeave}
-          >
-            <div className="dropzone-icon">
-              <Upload size={24} />
-            </div>
-            <div className="dropzone-text">
-              <p>Drag & Drop up to 10 CVs here or click to browse</p>
-            </div>
-            
-            <input
-              type="file"
-              multiple
-              accept=".pdf,.doc,.docx,.txt"
-              onChange={(e) => {
-                if (e.target.files) {
-                  handleFileChange(Array.from(e.target.files));
-                }
-              }}
-              className="file-input-hidden"
-            />
-          </div>
-
-          {/* Show uploaded files */}
-          {files.length > 0 && (
-            <div className="uploaded-files">
-              {files.map((file, index) => (
-                <div key={index} className="file-item">
-                  <div className="file-icon">
-                    <div className="file-avatar"></div>
-                  </div>
-                  <span className="file-name">{file.name}</span>
-                  <button 
-                    onClick={() => removeFile(index)}
-                    className="remove-btn"
-                  >
-                    <X size={16} />
-                  </button>
-                </div>
-              ))}
-            </div>
-          )}
+        <div hidden={step !== "cvs"}>
+          <CvDropzone
+            files={files}
+            previews={cvPreviews}
+            rejected={rejectedFiles}
+            onAdd={handleFileChange}
+            onRemove={removeFile}
+            onDismissRejected={() => setRejectedFiles([])}
+            onRunOcr={(file) => runOcr(file)}
+            onCancelOcr={cancelOcr}
+          />
+        </div>
 
-          <p className="file-info">
-            {files.length}/10 files uploaded. Supported formats: PDF, DOC, DOCX
-          </p>
+        {/* Review & Submit */}
+        {step === "review" && (
+          <SubmissionReview tor={tor} criteria={criteria} files={files} previews={cvPreviews} onEdit={goToStep}>
+            {/* Analyze Button */}
+            <button
+              className="analyze-btn-custom"
+              onClick={handleSubmit}
+              disabled={loading || ocrLoading}
+            >
+              {loading ? 'Analyzing...' : 'Analyze CVs'}
+            </button>
+          </SubmissionReview>
+        )}
 
-          {/* Analyze Button */}
-          <button 
-            className="analyze-btn-custom"
-            onClick={handleSubmit}
-            disabled={loading || ocrLoading}
-          >
-            {loading ? 'Analyzing...' : 'Analyze CVs'}
-          </button>
-        </div>
+        {/* Step Navigation */}
+        {stepIndex(step) < stepIndex("review") && (
+          <div className="flex justify-between mt-6">
+            <button
+              type="button"
+              onClick={() => goToStep(WIZARD_STEPS[stepIndex(step) - 1].key)}
+              disabled={step === "tor"}
+              className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-100 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Back
+            </button>
+            <button
+              type="button"
+              onClick={() => goToStep(WIZARD_STEPS[stepIndex(step) + 1].key)}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition"
+            >
+              Next
+            </button>
+          </div>
+        )}
 
         {/* Error Message */}
         {error && (
@@ -721,30 +566,60 @@ export default function Page() {
           </div>
         )}
 
-        {/* Loading Overlay */}
-        {loading && (
-          <div className="fixed inset-0 bg-gray-900 bg-opacity-50 flex items-center justify-center z-50">
-            <div className="bg-white rounded-lg p-6 shadow-lg flex items-center space-x-4">
-              <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
-              <p className="text-lg font-medium text-gray-800">Processing...</p>
-            </div>
-          </div>
+        {step === "results" && !data && !loading && analysis.batches.length === 0 && (
+          <p className="text-gray-600">
+            No results yet.{" "}
+            <button type="button" onClick={() => goToStep("review")} className="text-blue-600 font-medium hover:text-blue-800">
+              Review and submit the evaluation
+            </button>
+          </p>
+        )}
+
+        {/* Batches */}
+        {step === "results" && analysis.batches.length > 1 && (
+          <BatchStatusPanel batches={analysis.batches} busy={loading} onRetry={retryBatches} />
+        )}
+
+        {/* Analysis Progress */}
+        {step === "results" && loading && (
+          <AnalysisProgress files={analysis.progress} received={analysis.receivedCount} onCancel={analysis.cancel} />
         )}
       </div>
 
       {/* Results */}
-      {data && (
+      {step === "results" && data && results && (
         <div className="space-y-10 mt-10">
-          <div className="button-container">
-            <button
-              onClick={() => generateDocxReport(data)}
-              className="download-button"
-              aria-label="Download report as DOCX"
-            >
-              <Download size={16} />
-              Download Report
-            </button>
-          </div>
+          <ReportExporter
+            data={results}
+            options={reportOptions()}
+            config={reportConfig}
+            onConfigChange={updateReportConfig}
+            onExportJson={() => exportJson(data)}
+            disabled={loading}
+            onError={setError}
+          />
+
+          {/* Response Warnings */}
+          {warnings.length > 0 && (
+            <section className="section bg-yellow-50 border border-yellow-300 rounded-lg p-4" role="status">
+              <h2 className="section-header flex items-center gap-2 text-md font-semibold text-yellow-800">
+                <AlertCircle size={18} />
+                The response was incomplete; {warnings.length} field{warnings.length === 1 ? " was" : "s were"} missing or repaired
+              </h2>
+              <details className="mt-2">
+                <summary className="cursor-pointer text-yellow-800 text-sm font-medium">
+                  Show affected fields
+                </summary>
+                <ul className="mt-2 space-y-1 text-sm text-yellow-900">
+                  {warnings.map((w, i) => (
+                    <li key={i}>
+                      <code>{w.path}</code>: {w.message}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            </section>
+          )}
 
           {/* ToR */}
           <section className="section bg-white shadow-md rounded-lg p-4">
@@ -753,7 +628,7 @@ export default function Page() {
               Terms of Reference
             </h2>
             <div className="mt-4 p-4 bg-gray-50 border border-gray-200 rounded-md text-gray-800">
-              {data.tor_text || "No ToR text provided."}
+              {results.tor_text || "No ToR text provided."}
             </div>
           </section>
 
@@ -767,31 +642,7 @@ export default function Page() {
               <summary className="cursor-pointer text-blue-600 font-medium hover:text-blue-800 transition">
                 Show Evaluation Criteria
               </summary>
-              <div className="scores-hierarchy mt-4 space-y-4">
-                {mapCriteria().map((category, idx) => (
-                  <div key={idx} className="scores-category">
-                    <div className="scores-category-header flex items-center gap-2 text-md font-semibold text-gray-800">
-                      <ChevronRight size={16} className="text-blue-500" />
-                      {category.category} - {category.weight}
-                    </div>
-                    {category.subitems.map((subitem, subIdx) => (
-                      <div
-                        key={subIdx}
-                        className="scores-subitem flex justify-between text-gray-700 mt-2 text-sm"
-                      >
-                        <span>{subitem.name}</span>
-                        <span>{subitem.weight}%</span>
-                      </div>
-                    ))}
-                  </div>
-                ))}
-                <div className="scores-category">
-                  <div className="scores-category-header flex items-center gap-2 text-md font-semibold text-gray-800">
-                    <ChevronRight size={16} className="text-blue-500" />
-                    Total Score - 100%
-                  </div>
-                </div>
-              </div>
+              <ScoreBreakdown grid={mapCriteria()} />
             </details>
           </section>
 
@@ -802,201 +653,126 @@ export default function Page() {
               Candidates
             </h2>
             <div className="grid md:grid-cols-2 gap-4 mt-4">
-              {(data.candidates || []).map((c, idx) => (
-                <div
-                  key={idx}
-                  className="candidate-card bg-gray-50 border border-gray-200 rounded-lg p-4 hover:shadow-lg transition"
-                >
-                  <div className="candidate-header flex justify-between items-center">
-                    <h3 className="text-lg font-semibold text-gray-900">
-                      {c.candidate_name || "Unnamed Candidate"}
-                    </h3>
-                    <span
-                      className={`candidate-badge inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getBadgeColor(
-                        c.recommendation || "Not Evaluated"
-                      )}`}
-                    >
-                      {c.recommendation || "Not Evaluated"}
-                    </span>
-                  </div>
-                  <div className="space-y-2 mt-3">
-                    <p className="strengths text-gray-700 text-sm">
-                      <strong>Strengths:</strong>{" "}
-                      {c.summary_justification?.key_strengths || "None provided."}
-                    </p>
-                    <p className="weaknesses text-gray-700 text-sm">
-                      <strong>Weaknesses:</strong>{" "}
-                      {c.summary_justification?.key_weaknesses || "None provided."}
-                    </p>
-                  </div>
-                  <div className="scores-hierarchy mt-3 space-y-3">
-                    <div className="scores-category">
-                      <div className="scores-category-header flex items-center gap-2 text-md font-semibold text-gray-800">
-                        <ChevronRight size={16} className="text-blue-500" />
-                        General Qualifications - 20%
-                      </div>
-                      <div className="scores-subitem flex justify-between text-gray-700 mt-1 text-sm">
-                        <span>Education</span>
-                        <span>
-                          {c.scores?.general_qualifications?.education != null
-                            ? c.scores.general_qualifications.education.toFixed(2)
-                            : "N/A"}
-                        </span>
-                      </div>
-                      <div className="scores-subitem flex justify-between text-gray-700 mt-1 text-sm">
-                        <span>Years of Experience</span>
-                        <span>
-                          {c.scores?.general_qualifications?.years_of_experience != null
-                            ? c.scores.general_qualifications.years_of_experience.toFixed(2)
-                            : "N/A"}
-                        </span>
-                      </div>
-                    </div>
-                    <div className="scores-category">
-                      <div className="scores-category-header flex items-center gap-2 text-md font-semibold text-gray-800">
-                        <ChevronRight size={16} className="text-blue-500" />
-                        Adequacy for the Assignment - 50%
-                      </div>
-                      <div className="scores-subitem flex justify-between text-gray-700 mt-1 text-sm">
-                        <span>Relevant Project Experience</span>
-                        <span>
-                          {c.scores?.adequacy_for_assignment?.relevant_project_experience != null
-                            ? c.scores.adequacy_for_assignment.relevant_project_experience.toFixed(2)
-                            : "N/A"}
-                        </span>
-                      </div>
-                      <div className="scores-subitem flex justify-between text-gray-700 mt-1 text-sm">
-                        <span>Donor Experience (WB, ADB, etc.)</span>
-                        <span>
-                          {c.scores?.adequacy_for_assignment?.donor_experience != null
-                            ? c.scores.adequacy_for_assignment.donor_experience.toFixed(2)
-                            : "N/A"}
-                        </span>
-                      </div>
-                      <div className="scores-subitem flex justify-between text-gray-700 mt-1 text-sm">
-                        <span>Regional Experience</span>
-                        <span>
-                          {c.scores?.adequacy_for_assignment?.regional_experience != null
-                            ? c.scores.adequacy_for_assignment.regional_experience.toFixed(2)
-                            : "N/A"}
-                        </span>
-                      </div>
-                    </div>
-                    <div className="scores-category">
-                      <div className="scores-category-header flex items-center gap-2 text-md font-semibold text-gray-800">
-                        <ChevronRight size={16} className="text-blue-500" />
-                        Specific Skills & Competencies - 30%
-                      </div>
-                      <div className="scores-subitem flex justify-between text-gray-700 mt-1 text-sm">
-                        <span>Technical Skills</span>
-                        <span>
-                          {c.scores?.specific_skills_competencies?.technical_skills != null
-                            ? c.scores.specific_skills_competencies.technical_skills.toFixed(2)
-                            : "N/A"}
-                        </span>
-                      </div>
-                      <div className="scores-subitem flex justify-between text-gray-700 mt-1 text-sm">
-                        <span>Language Proficiency</span>
-                        <span>
-                          {c.scores?.specific_skills_competencies?.language_proficiency != null
-                            ? c.scores.specific_skills_competencies.language_proficiency.toFixed(2)
-                            : "N/A"}
-                        </span>
-                      </div>
-                      <div className="scores-subitem flex justify-between text-gray-700 mt-1 text-sm">
-                        <span>Certification</span>
-                        <span>
-                          {c.scores?.specific_skills_competencies?.certifications != null
-                            ? c.scores.specific_skills_competencies.certifications.toFixed(2)
-                            : "N/A"}
-                        </span>
-                      </div>
-                    </div>
-                    <div className="scores-category-header flex items-center gap-2 text-lg font-semibold text-gray-800">
-                      <ChevronRight size={18} className="text-blue-500" />
-                      Total Score - 100%
-                    </div>
-                    <div className="scores-subitem flex justify-between text-gray-700 mt-2">
-                      <span>Total</span>
-                      <span>
-                        {c.scores?.total_score != null
-                          ? c.scores.total_score.toFixed(2)
-                          : "N/A"}
-                      </span>
-                    </div>
-                    <div className="scores-subitem flex justify-between text-gray-700 mt-2">
-                      <span></span>
-                      <span className="text-xs italic">
-                        (This score is approximate; it may vary by ±5)
-                      </span>
-                    </div>
-                  </div>
-                  <details className="details-section mt-4">
-                    <summary className="cursor-pointer text-blue-600 font-medium hover:text-blue-800 transition">
-                      Show Detailed Evaluation
-                    </summary>
-                    <div className="space-y-3 mt-3">
-                      <h4 className="font-semibold text-gray-800 text-md">
-                        Detailed Evaluations
-                      </h4>
-                      {(c.detailed_evaluation || []).map((d, j) => (
-                        <div
-                          key={j}
-                          className="evaluation-item p-3 text-sm"
-                        >
-                          <p className="text-gray-700">
-                            <strong>Criterion:</strong> {d.criterion || "N/A"}
-                          </p>
-                          <p className="text-gray-700">
-                            <strong>Weight:</strong> {d.weight != null ? `${d.weight}%` : "N/A"} |{" "}
-                            <strong>Score:</strong> {d.score != null ? d.score.toFixed(2) : "N/A"}
-                          </p>
-                          <p className="text-gray-700">
-                            <strong>Justification:</strong> {d.justification || "None provided."}
-                          </p>
-                        </div>
-                      ))}
-                    </div>
-                  </details>
-                </div>
+              {(results.candidates || []).map((c, idx) => (
+                <CandidateCard
+                  key={`${activeRecordId}-${idx}`}
+                  candidate={c}
+                  aiCandidate={data.candidates[idx]}
+                  grid={mapCriteria()}
+                  overrides={overrides[c.candidate_name]}
+                  onOverrideChange={(criterion, override) => updateOverride(c.candidate_name, criterion, override)}
+                  onViewEvidence={() => setEvidenceFor(c.candidate_name)}
+                />
               ))}
             </div>
           </section>
 
+          {evidenceCandidate && (
+            <CvEvidenceViewer
+              key={evidenceCandidate.candidate_name}
+              candidate={evidenceCandidate}
+              files={files}
+              previews={cvPreviews}
+              onClose={() => setEvidenceFor(null)}
+            />
+          )}
+
           {/* Comparison Ranking */}
           <section className="section bg-white shadow-md rounded-lg p-4">
             <h2 className="section-header flex items-center gap-2 text-xl font-semibold text-gray-900">
               <span className="section-icon text-blue-600">📋</span>
               Ranking
             </h2>
-            <div className="table-container mt-4 overflow-x-auto">
-              <table className="w-full border-collapse">
-                <thead>
-                  <tr className="bg-blue-50">
-                    <th className="p-2 text-left text-gray-800 font-semibold border-b border-gray-200 text-sm">
-                      Name
-                    </th>
-                    <th className="p-2 text-left text-gray-800 font-semibold border-b border-gray-200 text-sm">
-                      Rank
-                    </th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {sortedMatrix.map((m, i) => (
-                    <tr
-                      key={i}
-                      className="hover:bg-gray-50 transition"
-                    >
-                      <td className="p-2 text-gray-700 border-b border-gray-200 text-sm">
-                        {m.candidate_name || "Unnamed Candidate"}
-                      </td>
-                      <td className="p-2 text-gray-700 border-b border-gray-200 text-sm">
-                        {m.rank != null ? m.rank : "N/A"}
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
+            {overrideAudit && (
+              <p className="mt-1 text-sm text-gray-500">
+                Includes {overrideAudit.entries.length} evaluator override{overrideAudit.entries.length === 1 ? "" : "s"};
+                edit them under each candidate&apos;s detailed evaluation.
+              </p>
+            )}
+            <RankingTable
+              matrix={results.comparison_matrix}
+              aiRanking={results !== data ? overrideAudit?.ranking : undefined}
+            />
+          </section>
+
+          {/* Panel Scoring */}
+          <section className="section bg-white shadow-md rounded-lg p-4">
+            <h2 className="section-header flex items-center gap-2 text-xl font-semibold text-gray-900">
+              <span className="section-icon text-blue-600">🧑‍⚖️</span>
+              Panel Scoring
+            </h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Evaluators score each criterion independently. Scores are saved with this evaluation on this device.
+            </p>
+            <div className="mt-4">
+              <PanelScoring
+                key={activeRecordId ?? "unsaved"}
+                data={data}
+                panel={panel}
+                onChange={updatePanel}
+                suggestedEvaluators={reportConfig.evaluators}
+              />
+            </div>
+            {Object.keys(panel).length > 0 && (
+              <details className="mt-6" open>
+                <summary className="cursor-pointer text-blue-600 font-medium hover:text-blue-800 transition">
+                  Consensus
+                </summary>
+                <div className="mt-4">
+                  <ConsensusView data={data} panel={panel} />
+                </div>
+              </details>
+            )}
+          </section>
+
+          {/* What-if Reweighting */}
+          <section className="section bg-white shadow-md rounded-lg p-4">
+            <h2 className="section-header flex items-center gap-2 text-xl font-semibold text-gray-900">
+              <span className="section-icon text-blue-600">🎚️</span>
+              What-if Reweighting
+            </h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Adjust criterion weights to see how the ranking would change. Scores per criterion are kept as evaluated.
+            </p>
+            <div className="mt-4">
+              <WhatIfPanel
+                data={results}
+                grid={mapCriteria()}
+                weights={whatIfWeights}
+                onChange={setScenarioWeights}
+                includeInReport={includeScenario}
+                onIncludeChange={setIncludeScenario}
+              />
+            </div>
+          </section>
+
+          {/* Score Charts */}
+          <section className="section bg-white shadow-md rounded-lg p-4">
+            <h2 className="section-header flex items-center gap-2 text-xl font-semibold text-gray-900">
+              <span className="section-icon text-blue-600">📈</span>
+              Score Charts
+            </h2>
+            <div className="mt-4">
+              <ScoreChartsPanel
+                key={results.candidates.map((c) => c.candidate_name).join("|")}
+                data={results}
+                grid={mapCriteria()}
+              />
+            </div>
+          </section>
+
+          {/* Side-by-side Comparison */}
+          <section className="section bg-white shadow-md rounded-lg p-4">
+            <h2 className="section-header flex items-center gap-2 text-xl font-semibold text-gray-900">
+              <span className="section-icon text-blue-600">⚖️</span>
+              Side-by-side Comparison
+            </h2>
+            <div className="mt-4">
+              <ComparisonGrid
+                key={results.candidates.map((c) => c.candidate_name).join("|")}
+                data={results}
+                grid={mapCriteria()}
+              />
             </div>
           </section>
 
@@ -1006,66 +782,7 @@ export default function Page() {
               <span className="section-icon text-blue-600">🏆</span>
               Final Recommendation
             </h2>
-            <div className="recommendation-container mt-4 space-y-3">
-              <p className="font-semibold text-md text-gray-900">
-                Best Candidate: {data.final_recommendation?.best_candidate || "None"}
-              </p>
-              <p className="font-semibold text-md text-gray-900">
-                Decision: {data.final_recommendation?.final_decision || "Not Evaluated"}
-              </p>
-              <div className="scores-hierarchy space-y-3 text-sm">
-                {typeof data.final_recommendation?.justification === "string" ? (
-                  <div className="scores-category">
-                    <div className="scores-category-header flex items-center gap-2 text-md font-semibold text-gray-800">
-                      <ChevronRight size={16} className="text-blue-500" />
-                      Justification
-                    </div>
-                    <div className="scores-subitem text-gray-700 mt-1">
-                      <p>{data.final_recommendation.justification || "No justification provided."}</p>
-                    </div>
-                  </div>
-                ) : (
-                  <>
-                    <div className="scores-category">
-                      <div className="scores-category-header flex items-center gap-2 text-md font-semibold text-gray-800">
-                        <ChevronRight size={16} className="text-blue-500" />
-                        Detailed Explanation
-                      </div>
-                      <div className="scores-subitem text-gray-700 mt-1">
-                        <p>{data.final_recommendation?.justification?.detailed_explanation || "No detailed explanation provided."}</p>
-                      </div>
-                    </div>
-                    <div className="scores-category">
-                      <div className="scores-category-header flex items-center gap-2 text-md font-semibold text-gray-800">
-                        <ChevronRight size={16} className="text-blue-500" />
-                        Why Recommended Candidate
-                      </div>
-                      <div className="scores-subitem text-gray-700 mt-1">
-                        <p>{data.final_recommendation?.justification?.why_he || "No reason provided for recommended candidate."}</p>
-                      </div>
-                    </div>
-                    <div className="scores-category">
-                      <div className="scores-category-header flex items-center gap-2 text-md font-semibold text-gray-800">
-                        <ChevronRight size={16} className="text-blue-500" />
-                        Why Not Other Candidates
-                      </div>
-                      <div className="scores-subitem mt-1">
-                        {(data.final_recommendation?.justification?.why_not_others || []).map((other, index) => (
-                          <div key={index} className="text-gray-700 mb-3 p-3 bg-gray-50 border border-gray-200 rounded-md">
-                            <p><strong>Candidate:</strong> {other.candidate_name || "Unnamed Candidate"}</p>
-                            <p><strong>Reason:</strong> {other.reason || "No reason provided."}</p>
-                          </div>
-                        ))}
-                        {(!data.final_recommendation?.justification?.why_not_others ||
-                          data.final_recommendation.justification.why_not_others.length === 0) && (
-                          <p className="text-gray-700">No other candidates evaluated.</p>
-                        )}
-                      </div>
-                    </div>
-                  </>
-                )}
-              </div>
-            </div>
+            <FinalRecommendationPanel recommendation={results.final_recommendation} />
           </section>
 
           {/* CV Comparison Table */}
@@ -1085,8 +802,8 @@ export default function Page() {
                   </tr>
                 </thead>
                 <tbody>
-                  {(data.candidates || []).map((c, idx) => {
-                    const fulfillment = getFulfillmentForCandidate(c);
+                  {(results.candidates || []).map((c, idx) => {
+                    const fulfillment = getFulfillmentForCandidate(c, allCriteria);
                     return (
                       <tr key={idx} className="hover:bg-blue-50 transition even:bg-gray-50">
                         <td className="p-2 text-gray-800 font-medium border-b border-gray-200 text-sm">{c.candidate_name || "Unnamed Candidate"}</td>
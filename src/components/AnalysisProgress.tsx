@@ -0,0 +1,66 @@
+"use client";
+
+import { CheckCircle2, Circle, Loader2, XCircle } from "lucide-react";
+import type { CvProgress } from "@/lib/analysis";
+
+interface AnalysisProgressProps {
+  files: CvProgress[];
+  // Candidates whose evaluation has already arrived.
+  received: number;
+  onCancel: () => void;
+}
+
+const STATUS_ICONS = {
+  queued: <Circle size={14} className="text-gray-400" />,
+  processing: <Loader2 size={14} className="text-blue-500 animate-spin" />,
+  done: <CheckCircle2 size={14} className="text-green-600" />,
+  error: <XCircle size={14} className="text-red-600" />,
+};
+
+export default function AnalysisProgress({ files, received, onCancel }: AnalysisProgressProps) {
+  const finished = files.filter((f) => f.status === "done" || f.status === "error").length;
+  const reporting = files.some((f) => f.status !== "queued") || received > 0;
+
+  return (
+    <div
+      className="fixed bottom-6 right-6 z-50 w-80 bg-white rounded-lg shadow-lg border border-gray-200 p-4"
+      role="status"
+      aria-live="polite"
+    >
+      <div className="flex items-center gap-3">
+        <div className="w-6 h-6 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+        <p className="flex-1 font-medium text-gray-800">
+          {reporting ? `Processing CVs · ${finished}/${files.length}` : "Processing..."}
+        </p>
+        <button type="button" onClick={onCancel} className="text-sm text-red-600 hover:underline">
+          Cancel
+        </button>
+      </div>
+      {reporting && (
+        <div className="w-full h-1.5 bg-gray-200 rounded-full mt-3 overflow-hidden">
+          <div
+            className="h-full bg-blue-500 transition-all"
+            style={{ width: `${files.length ? (finished / files.length) * 100 : 0}%` }}
+          />
+        </div>
+      )}
+      <ul className="mt-3 space-y-1 max-h-48 overflow-y-auto text-sm">
+        {files.map((file) => (
+          <li key={file.file} className="flex items-center gap-2 text-gray-700" title={file.message}>
+            {STATUS_ICONS[file.status]}
+            <span className="truncate flex-1">{file.file}</span>
+            {file.status === "error" && <span className="text-xs text-red-600">failed</span>}
+          </li>
+        ))}
+      </ul>
+      {!reporting && (
+        <p className="text-xs text-gray-500 mt-2">Results will appear when the server finishes.</p>
+      )}
+      {received > 0 && (
+        <p className="text-xs text-gray-500 mt-2">
+          {received} candidate{received === 1 ? "" : "s"} evaluated so far; results update below.
+        </p>
+      )}
+    </div>
+  );
+}
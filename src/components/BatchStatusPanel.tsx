@@ -0,0 +1,73 @@
+"use client";
+
+import { RotateCcw } from "lucide-react";
+import type { Batch } from "@/lib/batch";
+
+interface BatchStatusPanelProps {
+  batches: Batch[];
+  busy: boolean;
+  onRetry: (index?: number) => void;
+}
+
+const STATUS_STYLES: Record<Batch["status"], { label: string; className: string }> = {
+  pending: { label: "Waiting", className: "bg-gray-100 text-gray-600" },
+  running: { label: "Running", className: "bg-blue-100 text-blue-700" },
+  done: { label: "Done", className: "bg-green-100 text-green-800" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-700" },
+};
+
+export default function BatchStatusPanel({ batches, busy, onRetry }: BatchStatusPanelProps) {
+  const failed = batches.filter((b) => b.status === "failed").length;
+
+  return (
+    <div className="mt-6 p-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold text-gray-800">
+          Batches · {batches.filter((b) => b.status === "done").length}/{batches.length} done
+        </h3>
+        {failed > 1 && (
+          <button
+            type="button"
+            onClick={() => onRetry()}
+            disabled={busy}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:underline disabled:opacity-50"
+          >
+            <RotateCcw size={14} />
+            Retry {failed} failed batches
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        CVs are sent in batches against the same ToR and criteria; the ranking is recomputed across all batches.
+      </p>
+      <ul className="mt-3 space-y-2">
+        {batches.map((batch) => {
+          const style = STATUS_STYLES[batch.status];
+          return (
+            <li key={batch.index} className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium text-gray-800 w-20">Batch {batch.index + 1}</span>
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${style.className}`}>{style.label}</span>
+              <span className="text-gray-500 truncate flex-1" title={batch.files.map((f) => f.name).join(", ")}>
+                {batch.files.length} CV{batch.files.length === 1 ? "" : "s"}: {batch.files.map((f) => f.name).join(", ")}
+              </span>
+              {batch.status === "failed" && (
+                <>
+                  <span className="w-full sm:w-auto text-xs text-red-600">{batch.error}</span>
+                  <button
+                    type="button"
+                    onClick={() => onRetry(batch.index)}
+                    disabled={busy}
+                    className="flex items-center gap-1 text-blue-600 hover:underline disabled:opacity-50"
+                  >
+                    <RotateCcw size={14} />
+                    Retry
+                  </button>
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { FileSearch } from "lucide-react";
+import ScoreBreakdown from "@/components/ScoreBreakdown";
+import ScoreOverrideEditor from "@/components/ScoreOverrideEditor";
+import type { CriteriaGrid } from "@/lib/criteria";
+import type { ScoreOverride } from "@/lib/overrides";
+import type { Candidate } from "@/lib/schema";
+
+interface CandidateCardProps {
+  // The candidate as shown, with any evaluator overrides applied.
+  candidate: Candidate;
+  // The candidate as scored by the AI; defaults to `candidate`.
+  aiCandidate?: Candidate;
+  grid: CriteriaGrid;
+  // Evaluator overrides by criterion. Without `onOverrideChange` the
+  // detailed evaluation is read-only.
+  overrides?: Record<string, ScoreOverride>;
+  onOverrideChange?: (criterion: string, override: ScoreOverride | null) => void;
+  onViewEvidence?: () => void;
+}
+
+export const badgeColor = (recommendation: string) => {
+  if (recommendation === "Highly Suitable") return "bg-green-100 text-green-800 border-green-300";
+  if (recommendation === "Suitable") return "bg-yellow-100 text-yellow-800 border-yellow-300";
+  return "bg-red-100 text-red-800 border-red-300";
+};
+
+export default function CandidateCard({
+  candidate,
+  aiCandidate = candidate,
+  grid,
+  overrides = {},
+  onOverrideChange,
+  onViewEvidence,
+}: CandidateCardProps) {
+  const recommendation = candidate.recommendation || "Not Evaluated";
+
+  return (
+    <div className="candidate-card bg-gray-50 border border-gray-200 rounded-lg p-4 hover:shadow-lg transition">
+      <div className="candidate-header flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-gray-900">{candidate.candidate_name || "Unnamed Candidate"}</h3>
+        <span
+          className={`candidate-badge inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${badgeColor(
+            recommendation
+          )}`}
+        >
+          {recommendation}
+        </span>
+      </div>
+      <div className="space-y-2 mt-3">
+        <p className="strengths text-gray-700 text-sm">
+          <strong>Strengths:</strong> {candidate.summary_justification?.key_strengths || "None provided."}
+        </p>
+        <p className="weaknesses text-gray-700 text-sm">
+          <strong>Weaknesses:</strong> {candidate.summary_justification?.key_weaknesses || "None provided."}
+        </p>
+      </div>
+      <ScoreBreakdown grid={grid} candidate={candidate} aiTotal={aiCandidate.scores.total_score} />
+      {onViewEvidence && (
+        <button
+          type="button"
+          onClick={onViewEvidence}
+          className="mt-4 inline-flex items-center gap-1 text-sm text-blue-600 font-medium hover:text-blue-800 transition"
+        >
+          <FileSearch size={16} />
+          View CV Evidence
+        </button>
+      )}
+      <details className="details-section mt-2">
+        <summary className="cursor-pointer text-blue-600 font-medium hover:text-blue-800 transition">
+          Show Detailed Evaluation
+        </summary>
+        <div className="space-y-3 mt-3">
+          <h4 className="font-semibold text-gray-800 text-md">Detailed Evaluations</h4>
+          {(aiCandidate.detailed_evaluation || []).map((d, j) =>
+            onOverrideChange ? (
+              <ScoreOverrideEditor
+                key={j}
+                evaluation={d}
+                override={overrides[d.criterion]}
+                onChange={(override) => onOverrideChange(d.criterion, override)}
+              />
+            ) : (
+              <div key={j} className="evaluation-item p-3 text-sm">
+                <p className="text-gray-700">
+                  <strong>Criterion:</strong> {d.criterion || "N/A"}
+                </p>
+                <p className="text-gray-700">
+                  <strong>Weight:</strong> {d.weight != null ? `${d.weight}%` : "N/A"} | <strong>Score:</strong>{" "}
+                  {d.score != null ? d.score.toFixed(2) : "N/A"}
+                </p>
+                <p className="text-gray-700">
+                  <strong>Justification:</strong> {d.justification || "None provided."}
+                </p>
+              </div>
+            )
+          )}
+        </div>
+      </details>
+    </div>
+  );
+}
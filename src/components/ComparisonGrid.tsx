@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import type { CriteriaGrid } from "@/lib/criteria";
+import { buildComparisonRows, sortMatrix } from "@/lib/results";
+import type { JsonData } from "@/lib/schema";
+
+interface ComparisonGridProps {
+  data: JsonData;
+  grid: CriteriaGrid;
+}
+
+const MIN_SELECTED = 2;
+const MAX_SELECTED = 4;
+
+const formatScore = (score: number | null) => (score != null ? score.toFixed(2) : "N/A");
+
+export default function ComparisonGrid({ data, grid }: ComparisonGridProps) {
+  // Default to the top-ranked candidates so the grid opens on the decision that matters.
+  const [selected, setSelected] = useState<string[]>(() => {
+    const ranked = sortMatrix(data.comparison_matrix).map((m) => m.candidate_name);
+    const names = data.candidates.map((c) => c.candidate_name);
+    return [...ranked.filter((n) => names.includes(n)), ...names.filter((n) => !ranked.includes(n))].slice(
+      0,
+      MAX_SELECTED
+    );
+  });
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+
+  const toggle = (name: string) => {
+    setSelected((prev) => {
+      if (prev.includes(name)) {
+        return prev.length > MIN_SELECTED ? prev.filter((n) => n !== name) : prev;
+      }
+      return prev.length < MAX_SELECTED ? [...prev, name] : prev;
+    });
+  };
+
+  const candidates = selected
+    .map((name) => data.candidates.find((c) => c.candidate_name === name))
+    .filter((c): c is JsonData["candidates"][number] => c !== undefined);
+  const rows = buildComparisonRows(candidates, grid).filter(
+    (row) => !differencesOnly || row.kind !== "criterion" || new Set(row.scores).size > 1
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="font-medium text-gray-700">
+          Compare {MIN_SELECTED}–{MAX_SELECTED} candidates:
+        </span>
+        {data.candidates.map((c, i) => {
+          const checked = selected.includes(c.candidate_name);
+          const disabled =
+            (checked && selected.length <= MIN_SELECTED) || (!checked && selected.length >= MAX_SELECTED);
+          return (
+            <label
+              key={i}
+              className={`inline-flex items-center gap-1 px-2 py-1 border rounded-full ${
+                checked ? "border-blue-400 bg-blue-50 text-blue-900" : "border-gray-300 text-gray-700"
+              } ${disabled ? "opacity-60" : "cursor-pointer"}`}
+            >
+              <input
+                type="checkbox"
+                checked={checked}
+                disabled={disabled}
+                onChange={() => toggle(c.candidate_name)}
+              />
+              {c.candidate_name || "Unnamed Candidate"}
+            </label>
+          );
+        })}
+        <label className="inline-flex items-center gap-1 ml-auto text-gray-700 cursor-pointer">
+          <input type="checkbox" checked={differencesOnly} onChange={(e) => setDifferencesOnly(e.target.checked)} />
+          Only rows that differ
+        </label>
+      </div>
+
+      <div className="table-container overflow-x-auto">
+        <table className="w-full border-collapse bg-white shadow-sm rounded-lg overflow-hidden">
+          <thead>
+            <tr className="bg-blue-600 text-white">
+              <th className="p-2 text-left font-semibold border-b border-blue-700 text-sm">Criterion</th>
+              <th className="p-2 text-right font-semibold border-b border-blue-700 text-sm">Weight</th>
+              {candidates.map((c, i) => (
+                <th key={i} className="p-2 text-right font-semibold border-b border-blue-700 text-sm">
+                  {c.candidate_name || "Unnamed Candidate"}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, i) => (
+              <tr
+                key={i}
+                className={
+                  row.kind === "criterion" ? "hover:bg-blue-50 transition" : "bg-gray-100 font-semibold text-gray-900"
+                }
+              >
+                <td
+                  className={`p-2 border-b border-gray-200 text-sm ${row.kind === "criterion" ? "pl-6 text-gray-700" : ""}`}
+                >
+                  {row.name}
+                </td>
+                <td className="p-2 border-b border-gray-200 text-sm text-right text-gray-600">
+                  {row.weight != null ? `${+row.weight.toFixed(2)}%` : "N/A"}
+                </td>
+                {row.scores.map((score, j) => {
+                  const isBest = score != null && score === row.best && candidates.length > 1;
+                  const gap = score != null && row.best != null ? score - row.best : null;
+                  return (
+                    <td
+                      key={j}
+                      className={`p-2 border-b border-gray-200 text-sm text-right ${
+                        isBest ? "bg-green-100 text-green-900 font-semibold" : ""
+                      }`}
+                    >
+                      {formatScore(score)}
+                      {gap != null && gap < 0 && (
+                        <span className="block text-xs text-red-600 font-normal">{gap.toFixed(2)}</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500">
+        Best score in each row is highlighted; red figures show the gap to that best score.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { DEFAULT_DISAGREEMENT_THRESHOLD, buildConsensus, type PanelScores } from "@/lib/panel";
+import type { JsonData } from "@/lib/schema";
+
+interface ConsensusViewProps {
+  data: JsonData;
+  panel: PanelScores;
+}
+
+const formatScore = (score: number | null) => (score != null ? score.toFixed(2) : "N/A");
+
+export default function ConsensusView({ data, panel }: ConsensusViewProps) {
+  const [threshold, setThreshold] = useState(DEFAULT_DISAGREEMENT_THRESHOLD);
+  const [candidateName, setCandidateName] = useState<string | null>(null);
+  const consensus = buildConsensus(data, panel, threshold);
+  const candidate =
+    consensus.candidates.find((c) => c.candidate_name === candidateName) ??
+    consensus.candidates.find((c) => c.candidate_name === consensus.ranking[0]?.candidate_name);
+
+  if (consensus.evaluators.length === 0) {
+    return <p className="text-sm text-gray-500">No panel scores yet.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+        <label htmlFor="disagreement-threshold">Flag disagreements when the spread exceeds</label>
+        <input
+          id="disagreement-threshold"
+          type="number"
+          min={0}
+          max={100}
+          step={5}
+          value={threshold}
+          onChange={(e) => setThreshold(Number.isFinite(e.target.valueAsNumber) ? e.target.valueAsNumber : 0)}
+          className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+        />
+        <span>% of the criterion weight</span>
+      </div>
+
+      <div className="table-container overflow-x-auto">
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="bg-blue-50">
+              <th className="p-2 text-left text-gray-800 font-semibold border-b border-gray-200 text-sm">Rank</th>
+              <th className="p-2 text-left text-gray-800 font-semibold border-b border-gray-200 text-sm">Name</th>
+              <th className="p-2 text-right text-gray-800 font-semibold border-b border-gray-200 text-sm">Consensus</th>
+              <th className="p-2 text-right text-gray-800 font-semibold border-b border-gray-200 text-sm">AI Score (Rank)</th>
+              <th className="p-2 text-left text-gray-800 font-semibold border-b border-gray-200 text-sm">Notes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {consensus.ranking.map((row) => (
+              <tr
+                key={row.candidate_name}
+                onClick={() => setCandidateName(row.candidate_name)}
+                className={`cursor-pointer transition ${
+                  row.candidate_name === candidate?.candidate_name ? "bg-blue-50" : "hover:bg-gray-50"
+                }`}
+              >
+                <td className="p-2 text-gray-700 border-b border-gray-200 text-sm">{row.rank}</td>
+                <td className="p-2 text-gray-700 border-b border-gray-200 text-sm">
+                  {row.candidate_name || "Unnamed Candidate"}
+                </td>
+                <td className="p-2 text-gray-900 font-semibold border-b border-gray-200 text-sm text-right">
+                  {row.total_score.toFixed(2)}
+                </td>
+                <td className="p-2 text-gray-600 border-b border-gray-200 text-sm text-right">
+                  {formatScore(row.ai_score)}
+                  {row.ai_rank != null ? ` (#${row.ai_rank})` : ""}
+                </td>
+                <td className="p-2 border-b border-gray-200 text-sm">
+                  {row.flags > 0 && (
+                    <span className="inline-flex items-center gap-1 text-yellow-800">
+                      <AlertTriangle size={14} /> {row.flags} disagreement{row.flags === 1 ? "" : "s"}
+                    </span>
+                  )}
+                  {row.unscored > 0 && (
+                    <span className="ml-2 text-xs text-gray-500">{row.unscored} unscored (AI score used)</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {candidate && (
+        <div>
+          <h3 className="text-md font-semibold text-gray-800">{candidate.candidate_name || "Unnamed Candidate"}</h3>
+          <div className="table-container mt-2 overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-blue-50">
+                  <th className="p-2 text-left text-gray-800 font-semibold border-b border-gray-200 text-sm">Criterion</th>
+                  {consensus.evaluators.map((name) => (
+                    <th key={name} className="p-2 text-right text-gray-800 font-semibold border-b border-gray-200 text-sm">
+                      {name}
+                    </th>
+                  ))}
+                  <th className="p-2 text-right text-gray-800 font-semibold border-b border-gray-200 text-sm">Mean</th>
+                  <th className="p-2 text-right text-gray-800 font-semibold border-b border-gray-200 text-sm">Spread</th>
+                  <th className="p-2 text-right text-gray-800 font-semibold border-b border-gray-200 text-sm">AI</th>
+                </tr>
+              </thead>
+              <tbody>
+                {candidate.criteria.map((item) => (
+                  <tr key={item.criterion} className={item.flagged ? "bg-yellow-50" : ""}>
+                    <td className="p-2 text-gray-700 border-b border-gray-200 text-sm">
+                      <span className="inline-flex items-center gap-1">
+                        {item.flagged && <AlertTriangle size={14} className="text-yellow-700" aria-label="Disagreement" />}
+                        {item.criterion} ({item.weight}%)
+                      </span>
+                    </td>
+                    {item.scores.map((score, i) => (
+                      <td key={i} className="p-2 text-gray-700 border-b border-gray-200 text-sm text-right">
+                        {score != null ? score.toFixed(2) : "–"}
+                      </td>
+                    ))}
+                    <td className="p-2 text-gray-900 font-semibold border-b border-gray-200 text-sm text-right">
+                      {formatScore(item.mean)}
+                    </td>
+                    <td
+                      className={`p-2 border-b border-gray-200 text-sm text-right ${
+                        item.flagged ? "text-yellow-800 font-semibold" : "text-gray-700"
+                      }`}
+                    >
+                      {formatScore(item.spread)}
+                    </td>
+                    <td className="p-2 text-gray-500 border-b border-gray-200 text-sm text-right">
+                      {item.ai_score.toFixed(2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
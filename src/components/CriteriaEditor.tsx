@@ -0,0 +1,162 @@
+"use client";
+
+import { Plus, RotateCcw, Trash2 } from "lucide-react";
+import {
+  DEFAULT_CRITERIA,
+  MAX_WEIGHT,
+  WEIGHT_STEP,
+  categoryWeight,
+  totalWeight,
+  validateCriteria,
+  type CriteriaGrid,
+} from "@/lib/criteria";
+
+interface CriteriaEditorProps {
+  value: CriteriaGrid;
+  onChange: (grid: CriteriaGrid) => void;
+}
+
+export default function CriteriaEditor({ value, onChange }: CriteriaEditorProps) {
+  const errors = validateCriteria(value);
+  const total = totalWeight(value);
+
+  const updateCategory = (index: number, name: string) => {
+    onChange(value.map((c, i) => (i === index ? { ...c, name } : c)));
+  };
+
+  const removeCategory = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const addCategory = () => {
+    onChange([...value, { name: "", subcriteria: [{ name: "", weight: 0 }] }]);
+  };
+
+  const updateSub = (catIndex: number, subIndex: number, patch: { name?: string; weight?: number }) => {
+    onChange(
+      value.map((c, i) =>
+        i === catIndex
+          ? { ...c, subcriteria: c.subcriteria.map((s, j) => (j === subIndex ? { ...s, ...patch } : s)) }
+          : c
+      )
+    );
+  };
+
+  const addSub = (catIndex: number) => {
+    onChange(
+      value.map((c, i) =>
+        i === catIndex ? { ...c, subcriteria: [...c.subcriteria, { name: "", weight: 0 }] } : c
+      )
+    );
+  };
+
+  const removeSub = (catIndex: number, subIndex: number) => {
+    onChange(
+      value.map((c, i) =>
+        i === catIndex ? { ...c, subcriteria: c.subcriteria.filter((_, j) => j !== subIndex) } : c
+      )
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {value.map((category, i) => (
+        <div key={i} className="border border-gray-200 rounded-lg p-3 bg-gray-50">
+          <div className="flex items-center gap-2">
+            <input
+              value={category.name}
+              onChange={(e) => updateCategory(i, e.target.value)}
+              placeholder="Category name"
+              className="flex-1 p-2 border border-gray-300 rounded-md font-semibold text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label={`Category ${i + 1} name`}
+            />
+            <span className="text-sm font-medium text-gray-600 w-16 text-right">
+              {+categoryWeight(category).toFixed(2)}%
+            </span>
+            <button
+              type="button"
+              onClick={() => removeCategory(i)}
+              className="remove-btn"
+              aria-label={`Remove category ${category.name || i + 1}`}
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+          <div className="mt-2 space-y-2 pl-4">
+            {category.subcriteria.map((sub, j) => (
+              <div key={j} className="flex items-center gap-2">
+                <input
+                  value={sub.name}
+                  onChange={(e) => updateSub(i, j, { name: e.target.value })}
+                  placeholder="Sub-criterion"
+                  className="flex-1 p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label={`Sub-criterion ${j + 1} of ${category.name || `category ${i + 1}`}`}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_WEIGHT}
+                  step={WEIGHT_STEP}
+                  value={Number.isFinite(sub.weight) ? sub.weight : ""}
+                  onChange={(e) => updateSub(i, j, { weight: e.target.valueAsNumber })}
+                  className="w-20 p-2 border border-gray-300 rounded-md text-sm text-right focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label={`Weight of ${sub.name || `sub-criterion ${j + 1}`}`}
+                />
+                <span className="text-sm text-gray-500">%</span>
+                <button
+                  type="button"
+                  onClick={() => removeSub(i, j)}
+                  className="remove-btn"
+                  aria-label={`Remove ${sub.name || `sub-criterion ${j + 1}`}`}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => addSub(i)}
+              className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus size={14} /> Add sub-criterion
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={addCategory}
+            className="inline-flex items-center gap-1 px-3 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition"
+          >
+            <Plus size={16} /> Add category
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange(DEFAULT_CRITERIA)}
+            className="inline-flex items-center gap-1 px-3 py-2 border border-gray-300 text-gray-700 text-sm rounded-md hover:bg-gray-100 transition"
+          >
+            <RotateCcw size={16} /> Reset to default
+          </button>
+        </div>
+        <span
+          className={`text-sm font-semibold ${
+            Math.abs(total - 100) > 0.001 ? "text-red-700" : "text-green-700"
+          }`}
+        >
+          Total: {+total.toFixed(2)}% / 100%
+        </span>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-700 list-disc pl-5 space-y-1">
+          {errors.map((message, i) => (
+            <li key={i}>{message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import { Upload, X } from "lucide-react";
+import CvFileList from "@/components/CvFileList";
+import { BATCH_SIZE } from "@/lib/batch";
+import type { CvPreview } from "@/lib/cvText";
+import { MAX_CV_SIZE, MAX_CVS, MAX_TOTAL_CV_SIZE, formatSize, type RejectedCv } from "@/lib/cvValidation";
+
+interface CvDropzoneProps {
+  files: File[];
+  previews: Map<File, CvPreview>;
+  // Files turned away by `onAdd`, listed until dismissed.
+  rejected: RejectedCv[];
+  onAdd: (files: File[]) => void;
+  onRemove: (index: number) => void;
+  onDismissRejected: () => void;
+  onRunOcr: (file: File) => void;
+  onCancelOcr: (file: File) => void;
+  // Rendered at the bottom of the card, e.g. the submit button.
+  children?: ReactNode;
+}
+
+export default function CvDropzone({
+  files,
+  previews,
+  rejected,
+  onAdd,
+  onRemove,
+  onDismissRejected,
+  onRunOcr,
+  onCancelOcr,
+  children,
+}: CvDropzoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (e.dataTransfer.files) {
+      onAdd(Array.from(e.dataTransfer.files));
+    }
+  };
+
+  return (
+    <div className="file-upload-card">
+      <h2>Upload CVs</h2>
+      <div
+        className={`dropzone-area ${isDragging ? "dragging" : ""}`}
+        onDrop={handleDrop}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+      >
+        <div className="dropzone-icon">
+          <Upload size={24} />
+        </div>
+        <div className="dropzone-text">
+          <p>Drag & Drop up to {MAX_CVS} CVs here or click to browse</p>
+        </div>
+
+        <input
+          type="file"
+          multiple
+          accept=".pdf,.doc,.docx,.txt"
+          onChange={(e) => {
+            if (e.target.files) {
+              onAdd(Array.from(e.target.files));
+              e.target.value = "";
+            }
+          }}
+          className="file-input-hidden"
+          aria-label="Upload CVs"
+        />
+      </div>
+
+      {/* Show uploaded files */}
+      {files.length > 0 && (
+        <CvFileList files={files} previews={previews} onRemove={onRemove} onRunOcr={onRunOcr} onCancelOcr={onCancelOcr} />
+      )}
+
+      {/* Files that were not added */}
+      {rejected.length > 0 && (
+        <div className="mb-4 p-3 bg-yellow-50 border border-yellow-300 rounded-md text-sm" role="alert">
+          <div className="flex items-start justify-between gap-2">
+            <p className="font-medium text-yellow-800">
+              {rejected.length} file{rejected.length === 1 ? " was" : "s were"} not added
+            </p>
+            <button
+              type="button"
+              onClick={onDismissRejected}
+              className="text-yellow-800 hover:text-yellow-900"
+              aria-label="Dismiss"
+            >
+              <X size={16} />
+            </button>
+          </div>
+          <ul className="mt-1 space-y-0.5 text-yellow-900">
+            {rejected.map((file, i) => (
+              <li key={i}>
+                <span className="font-medium">{file.name}</span>: {file.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <p className="file-info">
+        {files.length}/{MAX_CVS} files uploaded. Supported formats: PDF, DOC, DOCX, TXT · up to{" "}
+        {formatSize(MAX_CV_SIZE)} each, {formatSize(MAX_TOTAL_CV_SIZE)} in total
+        {files.length > BATCH_SIZE &&
+          ` · will be evaluated in ${Math.ceil(files.length / BATCH_SIZE)} batches of up to ${BATCH_SIZE}`}
+      </p>
+
+      {children}
+    </div>
+  );
+}
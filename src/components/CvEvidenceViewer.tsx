@@ -0,0 +1,220 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ChevronLeft, ChevronRight, FileText, X } from "lucide-react";
+import { extractCvText, type CvPreview } from "@/lib/cvText";
+import { findEvidence, guessCvFile, segmentText, stem, type EvidenceMatch } from "@/lib/evidence";
+import type { Candidate } from "@/lib/schema";
+
+interface CvEvidenceViewerProps {
+  candidate: Candidate;
+  // CVs uploaded in this session, with their extracted text.
+  files: File[];
+  previews: Map<File, CvPreview>;
+  onClose: () => void;
+}
+
+const WORD = /(\p{L}[\p{L}\p{N}]*|\p{N}+)/u;
+
+// Emphasizes the matched words inside a highlighted passage.
+const highlightWords = (text: string, stems: Set<string>) =>
+  text.split(WORD).map((part, i) =>
+    i % 2 === 1 && stems.has(stem(part)) ? (
+      <strong key={i} className="bg-yellow-300 rounded-sm">
+        {part}
+      </strong>
+    ) : (
+      part
+    )
+  );
+
+export default function CvEvidenceViewer({ candidate, files, previews, onClose }: CvEvidenceViewerProps) {
+  const textOf = (file: File) => previews.get(file)?.text ?? "";
+  const [file, setFile] = useState<File | null>(() => guessCvFile(candidate, files, textOf) ?? files[0] ?? null);
+  // A CV opened from disk here, e.g. for an evaluation reopened from history.
+  const [opened, setOpened] = useState<{ file: File; preview: CvPreview } | null>(null);
+  const [criterion, setCriterion] = useState<string | null>(null);
+  const [position, setPosition] = useState(0);
+  const matchRefs = useRef(new Map<number, HTMLElement>());
+  const criterionRefs = useRef(new Map<string, HTMLElement>());
+
+  const preview = opened && file === opened.file ? opened.preview : file ? previews.get(file) : undefined;
+  const text = preview?.text ?? "";
+  const matches = useMemo<EvidenceMatch[]>(
+    () => (text ? findEvidence(text, candidate.detailed_evaluation) : []),
+    [text, candidate.detailed_evaluation]
+  );
+  const segments = useMemo(() => segmentText(text, matches), [text, matches]);
+  const active = matches
+    .map((match, index) => ({ match, index }))
+    .filter(({ match }) => match.criterion === criterion);
+  const current = active[Math.min(position, active.length - 1)];
+  const activeStems = new Set(active.flatMap(({ match }) => match.stems));
+
+  const currentIndex = current?.index;
+  useEffect(() => {
+    if (criterion) criterionRefs.current.get(criterion)?.scrollIntoView({ block: "nearest" });
+    if (currentIndex != null) {
+      matchRefs.current.get(currentIndex)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  }, [currentIndex, criterion]);
+
+  const select = (name: string, at = 0) => {
+    setCriterion(name);
+    setPosition(at);
+  };
+
+  const openFile = async (selected: File) => {
+    setOpened({ file: selected, preview: { status: "extracting", text: "" } });
+    setFile(selected);
+    setOpened({ file: selected, preview: await extractCvText(selected) });
+  };
+
+  return (
+    <aside
+      className="fixed inset-y-0 right-0 z-40 w-full max-w-2xl bg-white shadow-xl border-l border-gray-200 flex flex-col"
+      aria-label={`CV evidence for ${candidate.candidate_name}`}
+    >
+      <div className="flex items-center justify-between gap-2 p-4 border-b border-gray-200">
+        <div className="min-w-0">
+          <h2 className="text-lg font-semibold text-gray-900 truncate">
+            Evidence · {candidate.candidate_name || "Unnamed Candidate"}
+          </h2>
+          <div className="flex flex-wrap items-center gap-2 mt-1 text-sm">
+            {files.length > 0 && (
+              <select
+                value={file && files.includes(file) ? files.indexOf(file) : ""}
+                onChange={(e) => setFile(files[Number(e.target.value)] ?? null)}
+                className="max-w-xs px-2 py-1 border border-gray-300 rounded-md"
+                aria-label="CV file"
+              >
+                {!(file && files.includes(file)) && <option value="">Choose a CV</option>}
+                {files.map((f, i) => (
+                  <option key={i} value={i}>
+                    {f.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <label className="inline-flex items-center gap-1 text-blue-600 cursor-pointer hover:underline">
+              <FileText size={14} />
+              Open CV file
+              <input
+                type="file"
+                accept=".pdf,.docx,.txt"
+                className="hidden"
+                onChange={(e) => {
+                  const selected = e.target.files?.[0];
+                  if (selected) openFile(selected);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+          </div>
+        </div>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700" aria-label="Close CV viewer">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        <ul className="w-56 shrink-0 overflow-y-auto border-r border-gray-200 text-sm">
+          {candidate.detailed_evaluation.map((item) => {
+            const count = matches.filter((m) => m.criterion === item.criterion).length;
+            return (
+              <li
+                key={item.criterion}
+                ref={(el) => {
+                  if (el) criterionRefs.current.set(item.criterion, el);
+                }}
+              >
+                <button
+                  type="button"
+                  onClick={() => select(item.criterion)}
+                  className={`w-full text-left px-3 py-2 border-b border-gray-100 ${
+                    item.criterion === criterion ? "bg-blue-50 text-blue-900 font-medium" : "text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  <span className="block">{item.criterion}</span>
+                  <span className="text-xs text-gray-500">
+                    {item.score.toFixed(2)} / {item.weight} · {count > 0 ? `${count} passage${count === 1 ? "" : "s"}` : "no match"}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex-1 flex flex-col min-w-0">
+          {criterion && (
+            <div className="p-3 border-b border-gray-200 bg-gray-50 text-sm">
+              <p className="text-gray-700">
+                <strong>Justification:</strong>{" "}
+                {candidate.detailed_evaluation.find((d) => d.criterion === criterion)?.justification || "None provided."}
+              </p>
+              <div className="flex items-center gap-2 mt-2">
+                <button
+                  type="button"
+                  onClick={() => setPosition((p) => (p - 1 + active.length) % active.length)}
+                  disabled={active.length < 2}
+                  className="p-1 border border-gray-300 rounded-md disabled:opacity-40"
+                  aria-label="Previous evidence"
+                >
+                  <ChevronLeft size={14} />
+                </button>
+                <span className="text-gray-600">
+                  {active.length > 0
+                    ? `Passage ${Math.min(position, active.length - 1) + 1} of ${active.length}`
+                    : "No matching passage found in this CV"}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setPosition((p) => (p + 1) % active.length)}
+                  disabled={active.length < 2}
+                  className="p-1 border border-gray-300 rounded-md disabled:opacity-40"
+                  aria-label="Next evidence"
+                >
+                  <ChevronRight size={14} />
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="flex-1 overflow-y-auto p-4 text-sm text-gray-800 whitespace-pre-wrap leading-relaxed">
+            {!file ? (
+              <p className="text-gray-500">Upload or open the candidate&apos;s CV to see the evidence behind each score.</p>
+            ) : preview?.status === "extracting" ? (
+              <p className="text-gray-500">Reading {file.name}...</p>
+            ) : !text ? (
+              <p className="text-gray-500">{preview?.message ?? "No text could be read from this CV."}</p>
+            ) : (
+              segments.map((segment, i) => {
+                if (segment.criteria.length === 0) return <span key={i}>{segment.text}</span>;
+                const isActive = criterion != null && segment.criteria.includes(criterion);
+                return (
+                  <span
+                    key={i}
+                    ref={(el) => {
+                      if (el) segment.starts.forEach((index) => matchRefs.current.set(index, el));
+                    }}
+                    onClick={() => {
+                      const target = isActive && criterion ? criterion : segment.criteria[0];
+                      const at = matches
+                        .filter((m) => m.criterion === target)
+                        .findIndex((m) => m.passage.start <= segment.start && m.passage.end > segment.start);
+                      select(target, Math.max(at, 0));
+                    }}
+                    title={segment.criteria.join(", ")}
+                    className={`cursor-pointer rounded-sm ${isActive ? "bg-yellow-100" : "bg-blue-50 hover:bg-blue-100"}`}
+                  >
+                    {isActive ? highlightWords(segment.text, activeStems) : segment.text}
+                  </span>
+                );
+              })
+            )}
+          </div>
+        </div>
+      </div>
+    </aside>
+  );
+}
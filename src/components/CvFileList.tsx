@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronRight, X } from "lucide-react";
+import { canOcr, type CvPreview, type CvPreviewStatus } from "@/lib/cvText";
+
+// Characters of extracted text shown in the expanded preview.
+const PREVIEW_LENGTH = 1500;
+
+const STATUS_BADGES: Record<CvPreviewStatus, { label: string; className: string }> = {
+  extracting: { label: "Reading…", className: "bg-gray-100 text-gray-600" },
+  ready: { label: "Text OK", className: "bg-green-100 text-green-800" },
+  "low-text": { label: "Low text", className: "bg-yellow-100 text-yellow-800" },
+  unsupported: { label: "No preview", className: "bg-gray-100 text-gray-600" },
+  error: { label: "Unreadable", className: "bg-red-100 text-red-700" },
+  ocr: { label: "OCR…", className: "bg-blue-100 text-blue-700" },
+};
+
+interface CvFileListProps {
+  files: File[];
+  previews: Map<File, CvPreview>;
+  onRemove: (index: number) => void;
+  onRunOcr: (file: File) => void;
+  onCancelOcr: (file: File) => void;
+}
+
+export default function CvFileList({ files, previews, onRemove, onRunOcr, onCancelOcr }: CvFileListProps) {
+  const [expanded, setExpanded] = useState<File | null>(null);
+
+  return (
+    <div className="uploaded-files">
+      {files.map((file, index) => {
+        const preview = previews.get(file);
+        const badge = STATUS_BADGES[preview?.status ?? "extracting"];
+        const isOpen = expanded === file && !!preview?.text;
+        return (
+          <div key={index} className={`flex flex-col gap-2 ${isOpen ? "w-full" : ""}`}>
+            <div className="file-item">
+              <div className="file-icon">
+                <div className="file-avatar"></div>
+              </div>
+              <div className="flex-1 min-w-0">
+                <span className="file-name block">{file.name}</span>
+                <div className="flex flex-wrap items-center gap-2 mt-1 text-xs">
+                  <span className={`px-2 py-0.5 rounded-full font-medium ${badge.className}`}>
+                    {preview?.ocr && preview.status !== "ocr" ? `${badge.label} (OCR)` : badge.label}
+                  </span>
+                  {preview?.text ? (
+                    <button
+                      type="button"
+                      onClick={() => setExpanded(isOpen ? null : file)}
+                      className="flex items-center text-blue-600 hover:underline"
+                    >
+                      <ChevronRight size={12} className={`transition-transform ${isOpen ? "rotate-90" : ""}`} />
+                      {preview.text.length.toLocaleString()} chars
+                      {preview.pageCount ? ` · ${preview.pageCount} page${preview.pageCount === 1 ? "" : "s"}` : ""}
+                    </button>
+                  ) : null}
+                  {preview?.status === "low-text" && canOcr(file) && !preview.ocr && (
+                    <button type="button" onClick={() => onRunOcr(file)} className="text-blue-600 hover:underline">
+                      Run OCR
+                    </button>
+                  )}
+                  {preview?.status === "ocr" && (
+                    <>
+                      <span className="text-gray-600">{Math.round((preview.progress ?? 0) * 100)}%</span>
+                      <button type="button" onClick={() => onCancelOcr(file)} className="text-red-600 hover:underline">
+                        Cancel
+                      </button>
+                    </>
+                  )}
+                </div>
+                {preview?.message && <p className="text-xs text-yellow-800 mt-1">{preview.message}</p>}
+              </div>
+              <button onClick={() => onRemove(index)} className="remove-btn" aria-label={`Remove ${file.name}`}>
+                <X size={16} />
+              </button>
+            </div>
+            {isOpen && (
+              <pre className="text-xs text-gray-700 whitespace-pre-wrap bg-white border border-gray-200 rounded-md p-3 max-h-64 overflow-y-auto font-sans">
+                {preview.text.slice(0, PREVIEW_LENGTH)}
+                {preview.text.length > PREVIEW_LENGTH ? "\n…" : ""}
+              </pre>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
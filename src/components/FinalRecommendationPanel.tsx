@@ -0,0 +1,72 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { ChevronRight } from "lucide-react";
+import type { FinalRecommendation } from "@/lib/schema";
+
+interface FinalRecommendationPanelProps {
+  recommendation: FinalRecommendation | undefined;
+}
+
+interface JustificationSection {
+  title: string;
+  content: ReactNode;
+}
+
+// Older responses send the justification as one string, newer ones as an object.
+const justificationSections = (justification: FinalRecommendation["justification"] | undefined): JustificationSection[] => {
+  if (typeof justification === "string") {
+    return [{ title: "Justification", content: <p>{justification || "No justification provided."}</p> }];
+  }
+  const others = justification?.why_not_others ?? [];
+  return [
+    {
+      title: "Detailed Explanation",
+      content: <p>{justification?.detailed_explanation || "No detailed explanation provided."}</p>,
+    },
+    {
+      title: "Why Recommended Candidate",
+      content: <p>{justification?.why_he || "No reason provided for recommended candidate."}</p>,
+    },
+    {
+      title: "Why Not Other Candidates",
+      content:
+        others.length > 0 ? (
+          others.map((other, index) => (
+            <div key={index} className="text-gray-700 mb-3 p-3 bg-gray-50 border border-gray-200 rounded-md">
+              <p>
+                <strong>Candidate:</strong> {other.candidate_name || "Unnamed Candidate"}
+              </p>
+              <p>
+                <strong>Reason:</strong> {other.reason || "No reason provided."}
+              </p>
+            </div>
+          ))
+        ) : (
+          <p className="text-gray-700">No other candidates evaluated.</p>
+        ),
+    },
+  ];
+};
+
+export default function FinalRecommendationPanel({ recommendation }: FinalRecommendationPanelProps) {
+  return (
+    <div className="recommendation-container mt-4 space-y-3">
+      <p className="font-semibold text-md text-gray-900">Best Candidate: {recommendation?.best_candidate || "None"}</p>
+      <p className="font-semibold text-md text-gray-900">
+        Decision: {recommendation?.final_decision || "Not Evaluated"}
+      </p>
+      <div className="scores-hierarchy space-y-3 text-sm">
+        {justificationSections(recommendation?.justification).map((section) => (
+          <div key={section.title} className="scores-category">
+            <div className="scores-category-header flex items-center gap-2 text-md font-semibold text-gray-800">
+              <ChevronRight size={16} className="text-blue-500" />
+              {section.title}
+            </div>
+            <div className="scores-subitem text-gray-700 mt-1">{section.content}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useState } from "react";
+import { Download, FileJson, FolderOpen, Pencil, Trash2, X } from "lucide-react";
+import type { EvaluationRecord } from "@/lib/history";
+
+interface HistoryPanelProps {
+  records: EvaluationRecord[];
+  activeId: string | null;
+  onClose: () => void;
+  onOpen: (record: EvaluationRecord) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (record: EvaluationRecord) => void;
+  onExportJson: (record: EvaluationRecord) => void;
+}
+
+export default function HistoryPanel({
+  records,
+  activeId,
+  onClose,
+  onOpen,
+  onRename,
+  onDelete,
+  onExport,
+  onExportJson,
+}: HistoryPanelProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const startRename = (record: EvaluationRecord) => {
+    setEditingId(record.id);
+    setDraftName(record.name);
+  };
+
+  const commitRename = () => {
+    if (editingId) onRename(editingId, draftName);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black bg-opacity-30" onClick={onClose}>
+      <aside
+        className="h-full w-full max-w-md bg-white shadow-xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        aria-label="Saved evaluations"
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">Saved Evaluations</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" aria-label="Close history">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {records.length === 0 && (
+            <p className="text-sm text-gray-500">
+              Completed analyses are saved here automatically so you can reopen them later.
+            </p>
+          )}
+          {records.map((record) => (
+            <div
+              key={record.id}
+              className={`border rounded-lg p-3 ${
+                record.id === activeId ? "border-blue-400 bg-blue-50" : "border-gray-200 bg-gray-50"
+              }`}
+            >
+              {editingId === record.id ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename();
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  className="w-full p-1 border border-gray-300 rounded-md text-sm font-semibold focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label="Evaluation name"
+                />
+              ) : (
+                <p className="font-semibold text-gray-900 text-sm break-words">{record.name}</p>
+              )}
+              <p className="text-xs text-gray-500 mt-1">
+                {new Date(record.createdAt).toLocaleString()} · {record.data.candidates.length} candidate
+                {record.data.candidates.length === 1 ? "" : "s"}
+              </p>
+              {record.fileNames.length > 0 && (
+                <p className="text-xs text-gray-500 mt-1 truncate" title={record.fileNames.join(", ")}>
+                  {record.fileNames.join(", ")}
+                </p>
+              )}
+              <div className="flex gap-3 mt-2 text-sm">
+                <button
+                  onClick={() => onOpen(record)}
+                  className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800"
+                >
+                  <FolderOpen size={14} /> Open
+                </button>
+                <button
+                  onClick={() => onExport(record)}
+                  className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800"
+                >
+                  <Download size={14} /> DOCX
+                </button>
+                <button
+                  onClick={() => onExportJson(record)}
+                  className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800"
+                >
+                  <FileJson size={14} /> JSON
+                </button>
+                <button
+                  onClick={() => startRename(record)}
+                  className="inline-flex items-center gap-1 text-gray-600 hover:text-gray-800"
+                >
+                  <Pencil size={14} /> Rename
+                </button>
+                <button
+                  onClick={() => {
+                    if (confirm(`Delete "${record.name}"? This cannot be undone.`)) onDelete(record.id);
+                  }}
+                  className="inline-flex items-center gap-1 text-red-600 hover:text-red-800"
+                >
+                  <Trash2 size={14} /> Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </aside>
+    </div>
+  );
+}
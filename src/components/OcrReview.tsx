@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import { LOW_CONFIDENCE, type OcrWord } from "@/lib/ocr";
+
+export interface ReviewPage {
+  id: string;
+  label: string;
+  confidence?: number;
+  words: OcrWord[];
+}
+
+interface OcrReviewProps {
+  pages: ReviewPage[];
+  onCorrect: (pageId: string, wordIndex: number, text: string) => void;
+}
+
+export default function OcrReview({ pages, onCorrect }: OcrReviewProps) {
+  const [threshold, setThreshold] = useState(LOW_CONFIDENCE);
+  const [editing, setEditing] = useState<{ pageId: string; index: number; text: string } | null>(null);
+
+  const flagged = pages.reduce(
+    (acc, page) => acc + page.words.filter((w) => !w.corrected && w.confidence < threshold).length,
+    0
+  );
+
+  const commit = () => {
+    if (editing && editing.text.trim()) onCorrect(editing.pageId, editing.index, editing.text.trim());
+    setEditing(null);
+  };
+
+  return (
+    <div className="mt-4 border border-yellow-300 bg-yellow-50 rounded-lg p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold text-gray-800 text-sm">
+          Review recognized text · {flagged} uncertain word{flagged === 1 ? "" : "s"}
+        </h3>
+        <label className="flex items-center gap-2 text-xs text-gray-700">
+          Flag below
+          <input
+            type="range"
+            min={30}
+            max={95}
+            step={5}
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.valueAsNumber)}
+          />
+          {threshold}% confidence
+        </label>
+      </div>
+      <p className="text-xs text-gray-600 mt-1">
+        Click a highlighted word to correct it, then use &ldquo;Insert text into ToR&rdquo; to apply the corrections.
+      </p>
+      <div className="mt-2 max-h-80 overflow-y-auto space-y-3">
+        {pages.map((page) => (
+          <div key={page.id}>
+            <p className="text-xs font-semibold text-gray-600">
+              {page.label}
+              {page.confidence != null ? ` · ${Math.round(page.confidence)}% average confidence` : ""}
+            </p>
+            <p className="text-sm text-gray-800 whitespace-pre-wrap bg-white border border-gray-200 rounded-md p-2 mt-1">
+              {page.words.map((word, i) => {
+                const isEditing = editing?.pageId === page.id && editing.index === i;
+                const low = !word.corrected && word.confidence < threshold;
+                return (
+                  <span key={i}>
+                    {isEditing ? (
+                      <input
+                        autoFocus
+                        value={editing.text}
+                        onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+                        onBlur={commit}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") commit();
+                          if (e.key === "Escape") setEditing(null);
+                        }}
+                        className="px-1 border border-blue-400 rounded text-sm"
+                        style={{ width: `${Math.max(editing.text.length, 3) + 2}ch` }}
+                        aria-label={`Correct "${word.text}"`}
+                      />
+                    ) : low ? (
+                      <button
+                        type="button"
+                        onClick={() => setEditing({ pageId: page.id, index: i, text: word.text })}
+                        className={`rounded px-0.5 ${
+                          word.confidence < threshold / 2 ? "bg-red-200 text-red-900" : "bg-yellow-200 text-yellow-900"
+                        }`}
+                        title={`${Math.round(word.confidence)}% confidence`}
+                      >
+                        {word.text}
+                      </button>
+                    ) : (
+                      <span className={word.corrected ? "bg-green-100 rounded" : undefined}>{word.text}</span>
+                    )}
+                    {word.after}
+                  </span>
+                );
+              })}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import {
+  addEvaluator,
+  evaluatorNames,
+  removeEvaluator,
+  scoringProgress,
+  setPanelScore,
+  type PanelScores,
+} from "@/lib/panel";
+import type { JsonData } from "@/lib/schema";
+
+interface ScoreInputProps {
+  value: number | null;
+  max: number;
+  placeholder: string;
+  label: string;
+  onCommit: (score: number | null) => void;
+}
+
+// Keeps a draft while typing and commits a valid score on blur.
+function ScoreInput({ value, max, placeholder, label, onCommit }: ScoreInputProps) {
+  const [draft, setDraft] = useState(value != null ? String(value) : "");
+  const parsed = draft.trim() === "" ? null : Number(draft);
+  const invalid = parsed != null && (!Number.isFinite(parsed) || parsed < 0 || parsed > max);
+
+  return (
+    <input
+      type="number"
+      min={0}
+      max={max}
+      step={0.5}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (!invalid && parsed !== value) onCommit(parsed);
+      }}
+      placeholder={placeholder}
+      className={`w-24 px-2 py-1 border rounded-md text-sm ${invalid ? "border-red-400" : "border-gray-300"}`}
+      aria-label={label}
+      aria-invalid={invalid}
+    />
+  );
+}
+
+interface PanelScoringProps {
+  data: JsonData;
+  panel: PanelScores;
+  onChange: (panel: PanelScores) => void;
+  // Names offered when adding an evaluator, e.g. those in the report settings.
+  suggestedEvaluators: string[];
+}
+
+export default function PanelScoring({ data, panel, onChange, suggestedEvaluators }: PanelScoringProps) {
+  const evaluators = evaluatorNames(panel);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [candidateIndex, setCandidateIndex] = useState(0);
+  const [name, setName] = useState("");
+  const evaluator = selected && evaluators.includes(selected) ? selected : evaluators[0] ?? null;
+  const candidate = data.candidates[Math.min(candidateIndex, data.candidates.length - 1)];
+
+  const add = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onChange(addEvaluator(panel, trimmed));
+    setSelected(trimmed);
+    setName("");
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {evaluators.map((e) => {
+          const progress = scoringProgress(data, panel, e);
+          return (
+            <span
+              key={e}
+              className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm border ${
+                e === evaluator ? "bg-blue-600 text-white border-blue-600" : "bg-white text-gray-700 border-gray-300"
+              }`}
+            >
+              <button type="button" onClick={() => setSelected(e)}>
+                {e} · {progress.done}/{progress.total}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  if (confirm(`Remove ${e} and all of their scores?`)) onChange(removeEvaluator(panel, e));
+                }}
+                aria-label={`Remove ${e}`}
+              >
+                <X size={14} />
+              </button>
+            </span>
+          );
+        })}
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") add();
+          }}
+          list="panel-evaluator-suggestions"
+          placeholder="Evaluator name"
+          className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+        />
+        <datalist id="panel-evaluator-suggestions">
+          {suggestedEvaluators
+            .filter((s) => !evaluators.includes(s))
+            .map((s) => (
+              <option key={s} value={s} />
+            ))}
+        </datalist>
+        <button
+          type="button"
+          onClick={add}
+          className="inline-flex items-center gap-1 px-3 py-1 text-sm text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50"
+        >
+          <Plus size={14} /> Add evaluator
+        </button>
+      </div>
+
+      {!evaluator ? (
+        <p className="text-sm text-gray-500">Add an evaluator to start scoring. Each evaluator scores independently.</p>
+      ) : (
+        <div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Candidate
+            <select
+              value={Math.min(candidateIndex, data.candidates.length - 1)}
+              onChange={(e) => setCandidateIndex(Number(e.target.value))}
+              className="px-2 py-1 border border-gray-300 rounded-md"
+            >
+              {data.candidates.map((c, i) => (
+                <option key={i} value={i}>
+                  {c.candidate_name || "Unnamed Candidate"}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="table-container mt-3 overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-blue-50">
+                  <th className="p-2 text-left text-gray-800 font-semibold border-b border-gray-200 text-sm">Criterion</th>
+                  <th className="p-2 text-right text-gray-800 font-semibold border-b border-gray-200 text-sm">Weight</th>
+                  <th className="p-2 text-left text-gray-800 font-semibold border-b border-gray-200 text-sm">
+                    {evaluator}&apos;s score
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {candidate.detailed_evaluation.map((item) => (
+                  <tr key={item.criterion} className="hover:bg-gray-50 transition">
+                    <td className="p-2 text-gray-700 border-b border-gray-200 text-sm">{item.criterion}</td>
+                    <td className="p-2 text-gray-600 border-b border-gray-200 text-sm text-right">{item.weight}%</td>
+                    <td className="p-2 border-b border-gray-200 text-sm">
+                      <ScoreInput
+                        key={`${evaluator}|${candidate.candidate_name}|${item.criterion}`}
+                        value={panel[evaluator][candidate.candidate_name]?.[item.criterion] ?? null}
+                        max={item.weight > 0 ? item.weight : 100}
+                        placeholder={`0-${item.weight > 0 ? item.weight : 100}`}
+                        label={`${evaluator}'s score for ${candidate.candidate_name}, ${item.criterion}`}
+                        onCommit={(score) =>
+                          onChange(setPanelScore(panel, evaluator, candidate.candidate_name, item.criterion, score))
+                        }
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            AI scores are not shown here so each evaluator scores independently; compare them in the consensus view.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
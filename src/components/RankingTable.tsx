@@ -0,0 +1,49 @@
+"use client";
+
+import { sortMatrix } from "@/lib/results";
+import type { ScenarioRow } from "@/lib/scenario";
+import type { ComparisonMatrix } from "@/lib/schema";
+
+interface RankingTableProps {
+  matrix: ComparisonMatrix[];
+  // Scores and ranks before evaluator overrides, shown as an extra column.
+  aiRanking?: ScenarioRow[];
+}
+
+const HEADER = "p-2 text-left text-gray-800 font-semibold border-b border-gray-200 text-sm";
+const CELL = "p-2 text-gray-700 border-b border-gray-200 text-sm";
+
+export default function RankingTable({ matrix, aiRanking }: RankingTableProps) {
+  return (
+    <div className="table-container mt-4 overflow-x-auto">
+      <table className="w-full border-collapse">
+        <thead>
+          <tr className="bg-blue-50">
+            <th className={HEADER}>Name</th>
+            <th className={HEADER}>Total Score</th>
+            <th className={HEADER}>Rank</th>
+            {aiRanking && <th className={HEADER}>AI Score (Rank)</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {sortMatrix(matrix).map((m, i) => {
+            const original = aiRanking?.find((row) => row.candidate_name === m.candidate_name);
+            return (
+              <tr key={i} className="hover:bg-gray-50 transition">
+                <td className={CELL}>{m.candidate_name || "Unnamed Candidate"}</td>
+                <td className={CELL}>{m.total_score != null ? m.total_score.toFixed(2) : "N/A"}</td>
+                <td className={CELL}>{m.rank != null ? m.rank : "N/A"}</td>
+                {aiRanking && (
+                  <td className="p-2 text-gray-500 border-b border-gray-200 text-sm">
+                    {original?.original_score != null ? original.original_score.toFixed(2) : "N/A"}
+                    {original?.original_rank != null ? ` (#${original.original_rank})` : ""}
+                  </td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
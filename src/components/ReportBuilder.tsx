@@ -0,0 +1,179 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Download, Plus, X } from "lucide-react";
+import {
+  DEFAULT_REPORT_CONFIG,
+  REPORT_SECTION_LABELS,
+  moveSection,
+  reportFileName,
+  type ReportConfig,
+} from "@/lib/reportConfig";
+
+interface ReportBuilderProps {
+  value: ReportConfig;
+  onChange: (config: ReportConfig) => void;
+  onClose: () => void;
+  onDownloadDocx: () => void;
+  onDownloadPdf: () => void;
+}
+
+export default function ReportBuilder({ value, onChange, onClose, onDownloadDocx, onDownloadPdf }: ReportBuilderProps) {
+  const [evaluator, setEvaluator] = useState("");
+  const noSections = value.sections.every((s) => !s.enabled);
+
+  const addEvaluator = () => {
+    const name = evaluator.trim();
+    if (!name || value.evaluators.includes(name)) return;
+    onChange({ ...value, evaluators: [...value.evaluators, name] });
+    setEvaluator("");
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg p-6 w-full max-w-lg mx-4 shadow-lg max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Report settings"
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Report Settings</h2>
+          <button className="text-gray-500 hover:text-gray-700" onClick={onClose} aria-label="Close report settings">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <label className="block text-sm font-medium text-gray-700">
+            Project title
+            <input
+              value={value.projectTitle}
+              onChange={(e) => onChange({ ...value, projectTitle: e.target.value })}
+              placeholder="CV Comparison Report"
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Reference number
+            <input
+              value={value.referenceNumber}
+              onChange={(e) => onChange({ ...value, referenceNumber: e.target.value })}
+              placeholder="e.g. RFP-2026-014"
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </label>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700">Evaluators</p>
+            <div className="flex flex-wrap gap-2 mt-1">
+              {value.evaluators.map((name) => (
+                <span key={name} className="flex items-center gap-1 px-2 py-1 bg-blue-50 text-blue-800 rounded-full text-xs">
+                  {name}
+                  <button
+                    onClick={() => onChange({ ...value, evaluators: value.evaluators.filter((e) => e !== name) })}
+                    aria-label={`Remove ${name}`}
+                  >
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <div className="flex gap-2 mt-2">
+              <input
+                value={evaluator}
+                onChange={(e) => setEvaluator(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") addEvaluator();
+                }}
+                placeholder="Evaluator name"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+              <button
+                onClick={addEvaluator}
+                className="flex items-center gap-1 px-3 py-2 text-sm text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50"
+              >
+                <Plus size={14} /> Add
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700">Sections</p>
+            <ul className="mt-1 border border-gray-200 rounded-md divide-y divide-gray-100">
+              {value.sections.map((section, i) => (
+                <li key={section.key} className="flex items-center gap-2 px-3 py-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={section.enabled}
+                    onChange={(e) =>
+                      onChange({
+                        ...value,
+                        sections: value.sections.map((s) => (s.key === section.key ? { ...s, enabled: e.target.checked } : s)),
+                      })
+                    }
+                    aria-label={`Include ${REPORT_SECTION_LABELS[section.key]}`}
+                  />
+                  <span className={`flex-1 ${section.enabled ? "text-gray-800" : "text-gray-400"}`}>
+                    {REPORT_SECTION_LABELS[section.key]}
+                  </span>
+                  <button
+                    onClick={() => onChange(moveSection(value, i, -1))}
+                    disabled={i === 0}
+                    className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                    aria-label={`Move ${REPORT_SECTION_LABELS[section.key]} up`}
+                  >
+                    <ArrowUp size={14} />
+                  </button>
+                  <button
+                    onClick={() => onChange(moveSection(value, i, 1))}
+                    disabled={i === value.sections.length - 1}
+                    className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                    aria-label={`Move ${REPORT_SECTION_LABELS[section.key]} down`}
+                  >
+                    <ArrowDown size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={value.signatureBlock}
+              onChange={(e) => onChange({ ...value, signatureBlock: e.target.checked })}
+            />
+            Add a signature block for the evaluators
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={value.headerFooter}
+              onChange={(e) => onChange({ ...value, headerFooter: e.target.checked })}
+            />
+            Company header with logo and page-numbered footer
+          </label>
+
+          <p className="text-xs text-gray-500">
+            File name: <code>{reportFileName(value, "docx")}</code>
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 mt-6">
+          <button onClick={() => onChange(DEFAULT_REPORT_CONFIG)} className="text-sm text-gray-600 hover:underline">
+            Reset to default
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onDownloadPdf} disabled={noSections} className="download-button">
+              <Download size={16} /> PDF
+            </button>
+            <button onClick={onDownloadDocx} disabled={noSections} className="download-button">
+              <Download size={16} /> DOCX
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { useState } from "react";
+import { Download, FileJson, Settings } from "lucide-react";
+import ReportBuilder from "@/components/ReportBuilder";
+import SpreadsheetExportMenu from "@/components/SpreadsheetExportMenu";
+import { generatePdfReport } from "@/lib/pdfReport";
+import { generateDocxReport, type ReportOptions } from "@/lib/report";
+import type { ReportConfig } from "@/lib/reportConfig";
+import type { JsonData } from "@/lib/schema";
+
+interface ReportExporterProps {
+  // The result as reported, with any evaluator overrides applied.
+  data: JsonData;
+  options?: Omit<ReportOptions, "config">;
+  config: ReportConfig;
+  onConfigChange: (config: ReportConfig) => void;
+  // Shows the Export JSON button.
+  onExportJson?: () => void;
+  disabled?: boolean;
+  onError: (message: string) => void;
+}
+
+export default function ReportExporter({
+  data,
+  options,
+  config,
+  onConfigChange,
+  onExportJson,
+  disabled,
+  onError,
+}: ReportExporterProps) {
+  const [isBuilderOpen, setIsBuilderOpen] = useState(false);
+
+  const downloadDocx = () =>
+    generateDocxReport(data, { ...options, config }).catch((err) => {
+      console.error("DOCX report error:", err);
+      onError("Failed to create the Word report.");
+    });
+
+  const downloadPdf = () =>
+    generatePdfReport(data, { ...options, config }).catch((err) => {
+      console.error("PDF report error:", err);
+      onError("Failed to create the PDF report.");
+    });
+
+  return (
+    <>
+      <div className="button-container gap-3">
+        <SpreadsheetExportMenu data={data} disabled={disabled} onError={onError} />
+        <button onClick={downloadDocx} disabled={disabled} className="download-button" aria-label="Download report as DOCX">
+          <Download size={16} />
+          Download Report
+        </button>
+        <button onClick={downloadPdf} disabled={disabled} className="download-button" aria-label="Download report as PDF">
+          <Download size={16} />
+          Download PDF
+        </button>
+        {onExportJson && (
+          <button onClick={onExportJson} className="download-button" aria-label="Export evaluation as JSON">
+            <FileJson size={16} />
+            Export JSON
+          </button>
+        )}
+        <button onClick={() => setIsBuilderOpen(true)} className="download-button" aria-label="Configure report">
+          <Settings size={16} />
+          Report Settings
+        </button>
+      </div>
+
+      {isBuilderOpen && (
+        <ReportBuilder
+          value={config}
+          onChange={onConfigChange}
+          onClose={() => setIsBuilderOpen(false)}
+          onDownloadDocx={downloadDocx}
+          onDownloadPdf={downloadPdf}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { ChevronRight } from "lucide-react";
+import { categoryWeight, scoreBreakdown, type CriteriaGrid } from "@/lib/criteria";
+import type { Candidate } from "@/lib/schema";
+
+interface ScoreBreakdownProps {
+  grid: CriteriaGrid;
+  // Without a candidate only the criteria and their weights are listed.
+  candidate?: Candidate;
+  // The AI total, shown next to a total changed by evaluator overrides.
+  aiTotal?: number | null;
+}
+
+const formatScore = (score: number | null | undefined) => (score != null ? score.toFixed(2) : "N/A");
+
+export default function ScoreBreakdown({ grid, candidate, aiTotal }: ScoreBreakdownProps) {
+  const categories = candidate
+    ? scoreBreakdown(candidate, grid).categories
+    : grid.map((category) => ({
+        name: category.name,
+        weight: categoryWeight(category),
+        items: category.subcriteria.map((sub) => ({ name: sub.name, weight: sub.weight, score: null })),
+      }));
+  const total = candidate?.scores?.total_score;
+
+  return (
+    <div className={`scores-hierarchy ${candidate ? "mt-3 space-y-3" : "mt-4 space-y-4"}`}>
+      {categories.map((category, catIdx) => (
+        <div key={catIdx} className="scores-category">
+          <div className="scores-category-header flex items-center gap-2 text-md font-semibold text-gray-800">
+            <ChevronRight size={16} className="text-blue-500" />
+            {category.name} - {category.weight}%
+          </div>
+          {category.items.map((item, itemIdx) => (
+            <div
+              key={itemIdx}
+              className={`scores-subitem flex justify-between text-gray-700 text-sm ${candidate ? "mt-1" : "mt-2"}`}
+            >
+              <span>{item.name}</span>
+              <span>{candidate ? formatScore(item.score) : `${item.weight}%`}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+      {candidate ? (
+        <>
+          <div className="scores-category-header flex items-center gap-2 text-lg font-semibold text-gray-800">
+            <ChevronRight size={18} className="text-blue-500" />
+            Total Score - 100%
+          </div>
+          <div className="scores-subitem flex justify-between text-gray-700 mt-2">
+            <span>Total</span>
+            <span>
+              {formatScore(total)}
+              {aiTotal !== undefined && aiTotal !== total && (
+                <span className="ml-2 text-xs text-gray-500">(AI: {formatScore(aiTotal)})</span>
+              )}
+            </span>
+          </div>
+          <div className="scores-subitem flex justify-between text-gray-700 mt-2">
+            <span></span>
+            <span className="text-xs italic">(This score is approximate; it may vary by ±5)</span>
+          </div>
+        </>
+      ) : (
+        <div className="scores-category">
+          <div className="scores-category-header flex items-center gap-2 text-md font-semibold text-gray-800">
+            <ChevronRight size={16} className="text-blue-500" />
+            Total Score - 100%
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+// On-screen score charts. The SVG markup comes from `@/lib/charts`, the same
+// builders the reports rasterize, so the page and the exports always match.
+
+import {
+  radarChartSvg,
+  stackedBarChartSvg,
+  type RadarChartOptions,
+  type StackedBarChartOptions,
+} from "@/lib/charts";
+
+// Labels in the markup are escaped by the builders.
+export function RadarChart(props: RadarChartOptions) {
+  return <div dangerouslySetInnerHTML={{ __html: radarChartSvg(props) }} />;
+}
+
+export function StackedBarChart(props: StackedBarChartOptions) {
+  return <div dangerouslySetInnerHTML={{ __html: stackedBarChartSvg(props) }} />;
+}
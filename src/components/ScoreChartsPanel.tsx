@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+import { radarAxes, radarSeries, rankingBars, SERIES_COLORS } from "@/lib/charts";
+import type { CriteriaGrid } from "@/lib/criteria";
+import { sortMatrix } from "@/lib/results";
+import type { JsonData } from "@/lib/schema";
+import { RadarChart, StackedBarChart } from "@/components/ScoreCharts";
+
+interface ScoreChartsPanelProps {
+  data: JsonData;
+  grid: CriteriaGrid;
+}
+
+const MAX_OVERLAY = SERIES_COLORS.length;
+
+export default function ScoreChartsPanel({ data, grid }: ScoreChartsPanelProps) {
+  const [overlay, setOverlay] = useState<string[]>(() =>
+    sortMatrix(data.comparison_matrix)
+      .map((m) => m.candidate_name)
+      .filter((name) => data.candidates.some((c) => c.candidate_name === name))
+      .slice(0, 3)
+  );
+
+  const toggle = (name: string) => {
+    setOverlay((prev) =>
+      prev.includes(name)
+        ? prev.filter((n) => n !== name)
+        : prev.length < MAX_OVERLAY
+          ? [...prev, name]
+          : prev
+    );
+  };
+
+  const axes = radarAxes(grid);
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-6">
+      <div>
+        <h3 className="text-md font-semibold text-gray-800">Criterion profile</h3>
+        <p className="text-xs text-gray-500 mb-2">Each axis shows the score as a share of that criterion&apos;s weight.</p>
+        <div className="flex flex-wrap gap-2 mb-3 text-sm">
+          {data.candidates.map((c, i) => {
+            const index = overlay.indexOf(c.candidate_name);
+            return (
+              <label
+                key={i}
+                className="inline-flex items-center gap-1 px-2 py-1 border border-gray-300 rounded-full cursor-pointer"
+                style={index >= 0 ? { borderColor: SERIES_COLORS[index], color: SERIES_COLORS[index] } : undefined}
+              >
+                <input
+                  type="checkbox"
+                  checked={index >= 0}
+                  disabled={index < 0 && overlay.length >= MAX_OVERLAY}
+                  onChange={() => toggle(c.candidate_name)}
+                />
+                {c.candidate_name || "Unnamed Candidate"}
+              </label>
+            );
+          })}
+        </div>
+        {axes.length >= 3 ? (
+          <div className="overflow-x-auto">
+            <RadarChart axes={axes} series={radarSeries(data, grid, overlay)} />
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">A radar chart needs at least three criteria.</p>
+        )}
+      </div>
+      <div>
+        <h3 className="text-md font-semibold text-gray-800">Category totals by rank</h3>
+        <p className="text-xs text-gray-500 mb-2">Bars stack each category&apos;s points toward the total score.</p>
+        <div className="overflow-x-auto">
+          <StackedBarChart categories={grid.map((c) => c.name)} bars={rankingBars(data, grid)} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { RotateCcw } from "lucide-react";
+import type { ScoreOverride } from "@/lib/overrides";
+import type { DetailedEvaluation } from "@/lib/schema";
+
+interface ScoreOverrideEditorProps {
+  // The criterion as scored by the AI.
+  evaluation: DetailedEvaluation;
+  override?: ScoreOverride;
+  onChange: (override: ScoreOverride | null) => void;
+}
+
+export default function ScoreOverrideEditor({ evaluation, override, onChange }: ScoreOverrideEditorProps) {
+  const [score, setScore] = useState(override?.score != null ? String(override.score) : "");
+  const [comment, setComment] = useState(override?.comment ?? "");
+  const max = evaluation.weight > 0 ? evaluation.weight : 100;
+  const parsed = score.trim() === "" ? null : Number(score);
+  const invalid = parsed != null && (!Number.isFinite(parsed) || parsed < 0 || parsed > max);
+  const panelScore = override?.score ?? null;
+  const overridden = panelScore != null && panelScore !== evaluation.score;
+
+  // Typing only updates the drafts; the override is committed on blur so the
+  // saved evaluation is not rewritten on every keystroke.
+  const commit = () => {
+    if (invalid) return;
+    if (parsed === (override?.score ?? null) && comment.trim() === (override?.comment ?? "")) return;
+    onChange({ score: parsed, comment: comment.trim() });
+  };
+
+  const reset = () => {
+    setScore("");
+    setComment("");
+    onChange(null);
+  };
+
+  return (
+    <div className={`evaluation-item p-3 text-sm ${overridden ? "border-l-4 border-blue-400" : ""}`}>
+      <p className="text-gray-700">
+        <strong>Criterion:</strong> {evaluation.criterion || "N/A"}
+      </p>
+      <p className="text-gray-700">
+        <strong>Weight:</strong> {evaluation.weight != null ? `${evaluation.weight}%` : "N/A"} |{" "}
+        <strong>AI Score:</strong>{" "}
+        <span className={overridden ? "line-through text-gray-500" : ""}>
+          {evaluation.score != null ? evaluation.score.toFixed(2) : "N/A"}
+        </span>
+        {overridden && (
+          <>
+            {" "}| <strong>Panel Score:</strong>{" "}
+            <span className="font-semibold text-blue-700">{panelScore?.toFixed(2)}</span>
+          </>
+        )}
+      </p>
+      <p className="text-gray-700">
+        <strong>Justification:</strong> {evaluation.justification || "None provided."}
+      </p>
+
+      <div className="mt-2 flex flex-wrap items-start gap-2">
+        <label className="flex items-center gap-2 text-gray-700">
+          Override
+          <input
+            type="number"
+            min={0}
+            max={max}
+            step={0.5}
+            value={score}
+            onChange={(e) => setScore(e.target.value)}
+            onBlur={() => commit()}
+            placeholder={evaluation.score != null ? evaluation.score.toFixed(2) : ""}
+            className={`w-24 px-2 py-1 border rounded-md ${invalid ? "border-red-400" : "border-gray-300"}`}
+            aria-label={`Override score for ${evaluation.criterion}`}
+            aria-invalid={invalid}
+          />
+          <span className="text-xs text-gray-500">/ {max}</span>
+        </label>
+        <textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          onBlur={() => commit()}
+          rows={1}
+          placeholder="Evaluator comment"
+          className="flex-1 min-w-[12rem] px-2 py-1 border border-gray-300 rounded-md"
+          aria-label={`Comment on ${evaluation.criterion}`}
+        />
+        {override && (
+          <button
+            type="button"
+            onClick={reset}
+            className="inline-flex items-center gap-1 px-2 py-1 text-gray-600 border border-gray-300 rounded-md hover:bg-gray-100"
+            aria-label={`Clear override for ${evaluation.criterion}`}
+          >
+            <RotateCcw size={14} /> Clear
+          </button>
+        )}
+      </div>
+      {invalid && <p className="mt-1 text-xs text-red-600">Enter a score between 0 and {max}.</p>}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ChevronDown, Sheet as SheetIcon } from "lucide-react";
+import type { JsonData } from "@/lib/schema";
+import { SHEET_LABELS, exportCsv, exportXlsx, type SheetKey } from "@/lib/spreadsheet";
+
+interface SpreadsheetExportMenuProps {
+  data: JsonData;
+  disabled?: boolean;
+  onError: (message: string) => void;
+}
+
+export default function SpreadsheetExportMenu({ data, disabled, onError }: SpreadsheetExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [isOpen]);
+
+  const downloadXlsx = async () => {
+    setIsOpen(false);
+    setExporting(true);
+    try {
+      await exportXlsx(data);
+    } catch (err) {
+      console.error("XLSX export error:", err);
+      onError("Failed to create the Excel file.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const downloadCsv = (key: SheetKey) => {
+    setIsOpen(false);
+    exportCsv(data, key);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={disabled || exporting}
+        className="download-button"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <SheetIcon size={16} />
+        {exporting ? "Exporting..." : "Export Scores"}
+        <ChevronDown size={14} />
+      </button>
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-2 w-60 bg-white border border-gray-200 rounded-md shadow-lg z-20 py-1 text-sm"
+        >
+          <button
+            role="menuitem"
+            onClick={downloadXlsx}
+            className="block w-full text-left px-4 py-2 text-gray-800 hover:bg-gray-100"
+          >
+            Excel workbook (.xlsx)
+          </button>
+          <div className="border-t border-gray-100 my-1" />
+          {(Object.keys(SHEET_LABELS) as SheetKey[]).map((key) => (
+            <button
+              key={key}
+              role="menuitem"
+              onClick={() => downloadCsv(key)}
+              className="block w-full text-left px-4 py-2 text-gray-800 hover:bg-gray-100"
+            >
+              CSV · {SHEET_LABELS[key]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { AlertCircle } from "lucide-react";
+import { BATCH_SIZE } from "@/lib/batch";
+import { categoryWeight, type CriteriaGrid } from "@/lib/criteria";
+import type { CvPreview } from "@/lib/cvText";
+import { formatSize } from "@/lib/cvValidation";
+import type { WizardStep } from "@/lib/wizard";
+
+interface SubmissionReviewProps {
+  tor: string;
+  criteria: CriteriaGrid;
+  files: File[];
+  previews: Map<File, CvPreview>;
+  onEdit: (step: WizardStep) => void;
+  // Rendered below the summary, e.g. the submit button.
+  children?: ReactNode;
+}
+
+// Characters of the ToR shown before it is cut off.
+const TOR_EXCERPT = 600;
+
+function ReviewItem({ title, onEdit, children }: { title: string; onEdit: () => void; children: ReactNode }) {
+  return (
+    <div className="py-3 border-b border-gray-200 last:border-b-0">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold text-gray-900">{title}</h3>
+        <button type="button" onClick={onEdit} className="text-sm text-blue-600 font-medium hover:text-blue-800">
+          Edit
+        </button>
+      </div>
+      <div className="mt-1 text-sm text-gray-700">{children}</div>
+    </div>
+  );
+}
+
+export default function SubmissionReview({ tor, criteria, files, previews, onEdit, children }: SubmissionReviewProps) {
+  const text = tor.trim();
+  const unreadable = files.filter((file) => {
+    const status = previews.get(file)?.status;
+    return status === "low-text" || status === "error";
+  });
+  const totalSize = files.reduce((acc, f) => acc + f.size, 0);
+
+  return (
+    <div className="job-description-card">
+      <div className="card-header">
+        <h2>Review &amp; Submit</h2>
+      </div>
+      <p className="mt-1 text-sm text-gray-500">Check the evaluation before sending the CVs for analysis.</p>
+
+      <div className="mt-4">
+        <ReviewItem title="Terms of Reference" onEdit={() => onEdit("tor")}>
+          <p className="whitespace-pre-wrap">
+            {text.length > TOR_EXCERPT ? `${text.slice(0, TOR_EXCERPT)}…` : text || "No ToR entered yet."}
+          </p>
+          <p className="mt-1 text-xs text-gray-500">{text.length.toLocaleString()} characters</p>
+        </ReviewItem>
+
+        <ReviewItem title="Evaluation Criteria" onEdit={() => onEdit("criteria")}>
+          <ul className="space-y-0.5">
+            {criteria.map((category, i) => (
+              <li key={i}>
+                <span className="font-medium">{category.name || "Untitled"}</span> {+categoryWeight(category).toFixed(2)}%
+                <span className="text-gray-500"> · {category.subcriteria.map((s) => s.name || "Untitled").join(", ")}</span>
+              </li>
+            ))}
+          </ul>
+        </ReviewItem>
+
+        <ReviewItem title="CVs" onEdit={() => onEdit("cvs")}>
+          <p>
+            {files.length} CV{files.length === 1 ? "" : "s"}, {formatSize(totalSize)}
+            {files.length > BATCH_SIZE &&
+              ` · evaluated in ${Math.ceil(files.length / BATCH_SIZE)} batches of up to ${BATCH_SIZE}`}
+          </p>
+          <p className="mt-1 text-gray-500">{files.map((f) => f.name).join(", ")}</p>
+          {unreadable.length > 0 && (
+            <p className="mt-2 flex items-start gap-1 text-yellow-800">
+              <AlertCircle size={16} className="shrink-0 mt-0.5" />
+              {unreadable.length} CV{unreadable.length === 1 ? " has" : "s have"} little or no readable text (
+              {unreadable.map((f) => f.name).join(", ")}). Run OCR on them in the CVs step for a fairer evaluation.
+            </p>
+          )}
+        </ReviewItem>
+      </div>
+
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import TorUpload from "@/components/TorUpload";
+
+interface TorInputProps {
+  value: string;
+  onChange: (tor: string) => void;
+  // Reports whether text is still being extracted from an uploaded ToR.
+  onBusyChange: (busy: boolean) => void;
+  // Called with `null` to clear an earlier error.
+  onError: (message: string | null) => void;
+}
+
+export default function TorInput({ value, onChange, onBusyChange, onError }: TorInputProps) {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  return (
+    <div className="job-description-card">
+      <div className="card-header">
+        <h2>Job Description (ToR)</h2>
+        <button
+          className="view-full-btn"
+          type="button"
+          onClick={() => {
+            if (!value.trim() && !isModalOpen) {
+              alert("Please paste, type, or upload a ToR image to populate the Terms of Reference.");
+              return;
+            }
+            setIsModalOpen(!isModalOpen);
+          }}
+        >
+          {isModalOpen ? "- View Full ToR" : "+ View Full ToR"}
+        </button>
+      </div>
+      <p className="mt-1 text-sm text-gray-500">
+        Paste or type the job requirements, or upload an image below to extract text automatically.
+      </p>
+
+      {/* Textarea for Typing/Pasting or Extracted ToR */}
+      <div className="mt-4">
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          rows={6}
+          className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition"
+          placeholder="Paste, type, or upload a ToR image to populate the Terms of Reference here..."
+          aria-label="Terms of Reference input"
+        />
+      </div>
+
+      {/* Modal for Full ToR */}
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md mx-auto shadow-lg" role="dialog" aria-label="Full Terms of Reference">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-semibold">Full Terms of Reference</h2>
+              <button className="text-gray-500 hover:text-gray-700" onClick={() => setIsModalOpen(false)} aria-label="Close">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="max-h-96 overflow-y-auto">
+              <p className="text-gray-700 whitespace-pre-wrap">{value || "No ToR entered yet."}</p>
+            </div>
+            <button
+              className="mt-4 bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition"
+              onClick={() => setIsModalOpen(false)}
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+      <br />
+      <h2 className="OR">OR</h2>
+      <div className="">
+        <div className="card-header">
+          <h2>Upload Job Description (ToR) PDF or Images</h2>
+        </div>
+        <TorUpload onText={onChange} onBusyChange={onBusyChange} onError={onError} />
+      </div>
+    </div>
+  );
+}
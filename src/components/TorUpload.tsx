@@ -0,0 +1,482 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ArrowDown, ArrowUp, FileText, Image as ImageIcon, Upload, X } from "lucide-react";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import {
+  OCR_LANGUAGES,
+  IMAGE_TYPES,
+  MAX_IMAGE_SIZE,
+  OcrCancelledError,
+  describeStatus,
+  joinWords,
+  recognizeImage,
+  terminateIdleWorkers,
+  type OcrLanguage,
+  type OcrWord,
+} from "@/lib/ocr";
+import { isPdf, MIN_PAGE_TEXT, openPdf, pageText, renderPage } from "@/lib/pdf";
+import { DEFAULT_PREPROCESS, preprocessImage, type PreprocessOptions } from "@/lib/preprocess";
+import OcrReview from "@/components/OcrReview";
+
+const MAX_PDF_SIZE = 25 * 1024 * 1024;
+const MAX_PAGES = 50;
+
+type PageStatus = "pending" | "processing" | "done" | "error";
+
+interface TorPage {
+  id: string;
+  label: string;
+  file: File;
+  // 1-based page number for PDF pages; undefined for images.
+  pageNumber?: number;
+  text: string;
+  status: PageStatus;
+  progress: number;
+  // Recognized words, present only for pages that went through OCR.
+  words?: OcrWord[];
+  confidence?: number;
+}
+
+const PREPROCESS_LABELS: Record<keyof PreprocessOptions, string> = {
+  grayscale: "Grayscale",
+  deskew: "Straighten (deskew)",
+  crop: "Crop margins",
+  threshold: "Black & white",
+};
+
+interface TorUploadProps {
+  onText: (text: string) => void;
+  onBusyChange: (busy: boolean) => void;
+  onError: (message: string | null) => void;
+}
+
+let pageCounter = 0;
+const pageId = () => `page-${++pageCounter}`;
+
+export default function TorUpload({ onText, onBusyChange, onError }: TorUploadProps) {
+  const [pages, setPages] = useState<TorPage[]>([]);
+  const [reading, setReading] = useState(false);
+  const [extracting, setExtracting] = useState(false);
+  const [languages, setLanguages] = useState<OcrLanguage[]>(["eng"]);
+  const [preprocess, setPreprocess] = useState<PreprocessOptions>(DEFAULT_PREPROCESS);
+  const [status, setStatus] = useState<{ label: string; progress: number } | null>(null);
+  const pdfs = useRef(new Map<File, PDFDocumentProxy>());
+  // One controller per page being recognized, so a page can be cancelled on its own.
+  const jobs = useRef(new Map<string, AbortController>());
+  // Set when extraction finishes; the combined text is inserted from the
+  // latest pages, since they may be reordered or removed while OCR runs.
+  const [insertRequested, setInsertRequested] = useState(false);
+
+  const busy = reading || extracting;
+
+  useEffect(() => {
+    onBusyChange(busy);
+  }, [busy, onBusyChange]);
+
+  useEffect(() => {
+    const open = pdfs.current;
+    const running = jobs.current;
+    return () => {
+      running.forEach((controller) => controller.abort());
+      running.clear();
+      // Cancelled jobs terminate their own workers; the idle ones would
+      // otherwise linger until the pool's idle timeout.
+      terminateIdleWorkers();
+      open.forEach((pdf) => pdf.destroy());
+      open.clear();
+    };
+  }, []);
+
+  const updatePage = (id: string, patch: Partial<TorPage>) =>
+    setPages((prev) => prev.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+
+  const readPdf = async (file: File): Promise<TorPage[]> => {
+    const pdf = await openPdf(file);
+    pdfs.current.set(file, pdf);
+    const result: TorPage[] = [];
+    for (let n = 1; n <= pdf.numPages; n++) {
+      const text = await pageText(pdf, n);
+      const hasText = text.length >= MIN_PAGE_TEXT;
+      result.push({
+        id: pageId(),
+        label: `${file.name} · page ${n}${hasText ? "" : " (scanned)"}`,
+        file,
+        pageNumber: n,
+        text: hasText ? text : "",
+        status: hasText ? "done" : "pending",
+        progress: hasText ? 1 : 0,
+      });
+    }
+    return result;
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    onError(null);
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (selected.length === 0) return;
+
+    setReading(true);
+    // PDFs opened by this selection, closed again if a later file fails.
+    const opened: File[] = [];
+    const close = (files: File[]) =>
+      files.forEach((file) => {
+        pdfs.current.get(file)?.destroy();
+        pdfs.current.delete(file);
+      });
+    try {
+      const added: TorPage[] = [];
+      for (const file of selected) {
+        if (isPdf(file)) {
+          if (file.size > MAX_PDF_SIZE) {
+            onError(`${file.name} is too large (max 25MB per PDF).`);
+            continue;
+          }
+          opened.push(file);
+          added.push(...(await readPdf(file)));
+        } else if (IMAGE_TYPES.includes(file.type)) {
+          if (file.size > MAX_IMAGE_SIZE) {
+            onError(`${file.name} is too large (max 5MB per image).`);
+            continue;
+          }
+          added.push({ id: pageId(), label: file.name, file, text: "", status: "pending", progress: 0 });
+        } else {
+          onError(`${file.name} is not supported. Use PDF, JPEG or PNG files for the ToR.`);
+        }
+      }
+      // Pages cannot be added, moved or removed while reading, so `pages` is current here.
+      const kept = added.slice(0, Math.max(MAX_PAGES - pages.length, 0));
+      if (kept.length < added.length) {
+        onError(`Only the first ${MAX_PAGES} ToR pages are kept.`);
+        close(opened.filter((file) => !kept.some((p) => p.file === file)));
+      }
+      setPages((prev) => [...prev, ...kept]);
+    } catch (err) {
+      close(opened);
+      onError("Failed to read the ToR file. It may be damaged or password protected.");
+      console.error("ToR read error:", err);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const extractText = async () => {
+    onError(null);
+    const pending = pages.filter((p) => p.status !== "done");
+
+    if (pending.length > 0) {
+      setExtracting(true);
+      setStatus({ label: "Starting OCR engine", progress: 0 });
+      const total = pending.length;
+      const progress = new Map(pending.map((p) => [p.id, 0]));
+      const report = (pageId: string, stage: string, value: number) => {
+        if (stage === "recognizing text") {
+          progress.set(pageId, value);
+          updatePage(pageId, { progress: value });
+          const done = [...progress.values()].reduce((acc, v) => acc + v, 0);
+          setStatus({ label: `${describeStatus(stage)} · ${total} page(s)`, progress: done / total });
+        } else {
+          setStatus({ label: describeStatus(stage), progress: value });
+        }
+      };
+
+      let startFailed = false;
+      await Promise.all(
+        pending.map(async (page) => {
+          const controller = new AbortController();
+          jobs.current.set(page.id, controller);
+          updatePage(page.id, { status: "processing", progress: 0 });
+          // Rendered only once a worker is free, so a long PDF is not held
+          // in memory as full-size page images all at once.
+          const loadImage = async () => {
+            const pdf = page.pageNumber != null ? pdfs.current.get(page.file) : undefined;
+            const source = pdf && page.pageNumber != null ? await renderPage(pdf, page.pageNumber) : page.file;
+            return preprocessImage(source, preprocess).catch((err) => {
+              console.error("Preprocessing error:", err);
+              return source;
+            });
+          };
+          try {
+            const result = await recognizeImage(loadImage, {
+              languages,
+              signal: controller.signal,
+              onStatus: ({ status, progress }) => report(page.id, status, progress),
+            });
+            updatePage(page.id, {
+              status: "done",
+              progress: 1,
+              text: result.text,
+              words: result.words,
+              confidence: result.confidence,
+            });
+          } catch (err) {
+            if (err instanceof OcrCancelledError || controller.signal.aborted) {
+              updatePage(page.id, { status: "pending", progress: 0 });
+              return;
+            }
+            startFailed ||= progress.get(page.id) === 0;
+            updatePage(page.id, { status: "error", progress: 0 });
+            console.error("OCR error:", err);
+          } finally {
+            // A finished page counts as done whatever the outcome, so the overall bar never moves back.
+            progress.set(page.id, 1);
+            jobs.current.delete(page.id);
+          }
+        })
+      );
+      setExtracting(false);
+      setStatus(null);
+      if (startFailed) {
+        onError("Text recognition failed on some pages. Check your connection and try again.");
+      }
+    }
+
+    setInsertRequested(true);
+  };
+
+  useEffect(() => {
+    if (!insertRequested || extracting) return;
+    setInsertRequested(false);
+    const failed = pages.filter((p) => p.status !== "done");
+    if (failed.length > 0) {
+      onError(
+        `Could not extract text from ${failed.map((p) => p.label).join(", ")}. Try clearer scans or type the missing parts manually.`
+      );
+    }
+    onText(
+      pages
+        .filter((p) => p.status === "done")
+        .map((p) => p.text)
+        .filter(Boolean)
+        .join("\n\n")
+    );
+  }, [insertRequested, extracting, pages, onError, onText]);
+
+  const cancelExtraction = () => {
+    jobs.current.forEach((controller) => controller.abort());
+  };
+
+  // Corrections stay on the pages until the user inserts the text again, so
+  // edits made in the ToR input since the last insert are not overwritten.
+  const correctWord = (pageId: string, wordIndex: number, text: string) =>
+    setPages((prev) =>
+      prev.map((page) => {
+        if (page.id !== pageId || !page.words) return page;
+        const words = page.words.map((w, i) => (i === wordIndex ? { ...w, text, corrected: true } : w));
+        return { ...page, words, text: joinWords(words) };
+      })
+    );
+
+  const toggleLanguage = (code: OcrLanguage) => {
+    setLanguages((prev) =>
+      prev.includes(code) ? (prev.length > 1 ? prev.filter((c) => c !== code) : prev) : [...prev, code]
+    );
+  };
+
+  const movePage = (index: number, delta: number) => {
+    setPages((prev) => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removePage = (id: string) => {
+    jobs.current.get(id)?.abort();
+    const removed = pages.find((p) => p.id === id);
+    const next = pages.filter((p) => p.id !== id);
+    if (removed && !next.some((p) => p.file === removed.file)) {
+      pdfs.current.get(removed.file)?.destroy();
+      pdfs.current.delete(removed.file);
+    }
+    setPages(next);
+  };
+
+  const clearPages = () => {
+    cancelExtraction();
+    pdfs.current.forEach((pdf) => pdf.destroy());
+    pdfs.current.clear();
+    setPages([]);
+    onText(""); // Clear ToR text when its source pages are removed
+  };
+
+  const pendingCount = pages.filter((p) => p.status !== "done").length;
+  const reviewPages = pages.flatMap((p) =>
+    p.status === "done" && p.words && p.words.length > 0
+      ? [{ id: p.id, label: p.label, confidence: p.confidence, words: p.words }]
+      : []
+  );
+
+  return (
+    <div className="mt-4">
+      <label
+        htmlFor="tor-image"
+        className={`inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md transition mb-2 ${
+          busy ? "opacity-60 cursor-not-allowed" : "cursor-pointer hover:bg-blue-700"
+        }`}
+      >
+        <Upload size={16} className="mr-2" />
+        Choose ToR PDF or Images
+      </label>
+      <input
+        id="tor-image"
+        type="file"
+        multiple
+        accept="application/pdf,.pdf,image/jpeg,image/png,image/jpg"
+        onChange={handleFiles}
+        disabled={busy}
+        className="hidden"
+        aria-label="Upload ToR PDF or images"
+      />
+
+      <div className="flex flex-wrap gap-x-6 gap-y-2 mt-1 text-sm text-gray-700">
+        <fieldset className="flex flex-wrap items-center gap-2" disabled={busy}>
+          <legend className="sr-only">OCR languages</legend>
+          <span className="font-medium">Languages:</span>
+          {OCR_LANGUAGES.map((lang) => (
+            <label key={lang.code} className="inline-flex items-center gap-1 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={languages.includes(lang.code)}
+                onChange={() => toggleLanguage(lang.code)}
+              />
+              {lang.label}
+            </label>
+          ))}
+        </fieldset>
+        <fieldset className="flex flex-wrap items-center gap-2" disabled={busy}>
+          <legend className="sr-only">Image preprocessing</legend>
+          <span className="font-medium">Cleanup:</span>
+          {(Object.keys(PREPROCESS_LABELS) as (keyof PreprocessOptions)[]).map((key) => (
+            <label key={key} className="inline-flex items-center gap-1 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={preprocess[key]}
+                onChange={(e) => setPreprocess({ ...preprocess, [key]: e.target.checked })}
+              />
+              {PREPROCESS_LABELS[key]}
+            </label>
+          ))}
+        </fieldset>
+      </div>
+
+      {status && (
+        <div className="mt-2" role="progressbar" aria-valuenow={Math.round(status.progress * 100)} aria-valuemin={0} aria-valuemax={100}>
+          <div className="flex justify-between text-xs text-blue-700">
+            <span>{status.label}</span>
+            <span>{Math.round(status.progress * 100)}%</span>
+          </div>
+          <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden mt-1">
+            <div className="h-full bg-blue-600 transition-all" style={{ width: `${Math.round(status.progress * 100)}%` }} />
+          </div>
+        </div>
+      )}
+
+      {reading && (
+        <div className="mt-2 flex items-center space-x-2">
+          <div className="w-5 h-5 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+          <p className="text-sm text-blue-600">Reading ToR pages...</p>
+        </div>
+      )}
+
+      {pages.length > 0 && (
+        <div className="mt-2 space-y-2">
+          {pages.map((page, i) => (
+            <div key={page.id} className="flex items-center gap-2 p-2 border border-gray-200 rounded-md bg-white text-sm">
+              {page.pageNumber != null ? (
+                <FileText size={16} className="text-blue-500 flex-shrink-0" />
+              ) : (
+                <ImageIcon size={16} className="text-blue-500 flex-shrink-0" />
+              )}
+              <span className="w-6 text-gray-500">{i + 1}.</span>
+              <span className="flex-1 truncate" title={page.label}>
+                {page.label}
+              </span>
+              <div className="w-28 h-2 bg-gray-200 rounded-full overflow-hidden" aria-hidden>
+                <div
+                  className={`h-full ${page.status === "error" ? "bg-red-500" : "bg-blue-500"} transition-all`}
+                  style={{ width: `${Math.round((page.status === "error" ? 1 : page.progress) * 100)}%` }}
+                />
+              </div>
+              <span className="w-20 text-xs text-gray-500">
+                {page.status === "done"
+                  ? "Ready"
+                  : page.status === "processing"
+                    ? `${Math.round(page.progress * 100)}%`
+                    : page.status === "error"
+                      ? "Failed"
+                      : "Needs OCR"}
+              </span>
+              <button
+                type="button"
+                onClick={() => movePage(i, -1)}
+                disabled={busy || i === 0}
+                className="text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                aria-label={`Move ${page.label} up`}
+              >
+                <ArrowUp size={14} />
+              </button>
+              <button
+                type="button"
+                onClick={() => movePage(i, 1)}
+                disabled={busy || i === pages.length - 1}
+                className="text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                aria-label={`Move ${page.label} down`}
+              >
+                <ArrowDown size={14} />
+              </button>
+              <button
+                type="button"
+                onClick={() => removePage(page.id)}
+                disabled={reading}
+                className="remove-btn"
+                aria-label={`Remove ${page.label}`}
+              >
+                <X size={16} />
+              </button>
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={extractText}
+              disabled={busy}
+              className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition disabled:opacity-60"
+            >
+              {extracting
+                ? "Extracting text..."
+                : pendingCount > 0
+                  ? `Extract text (${pendingCount} page${pendingCount === 1 ? "" : "s"} need OCR)`
+                  : "Insert text into ToR"}
+            </button>
+            {extracting && (
+              <button
+                type="button"
+                onClick={cancelExtraction}
+                className="px-4 py-2 border border-red-300 text-red-700 text-sm rounded-md hover:bg-red-50 transition"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={clearPages}
+              disabled={reading}
+              className="px-4 py-2 border border-gray-300 text-gray-700 text-sm rounded-md hover:bg-gray-100 transition disabled:opacity-60"
+            >
+              Clear pages
+            </button>
+          </div>
+        </div>
+      )}
+      {!busy && reviewPages.length > 0 && <OcrReview pages={reviewPages} onCorrect={correctWord} />}
+      <p className="mt-1 text-sm text-gray-500">
+        Upload a ToR PDF or one or more page images (JPEG/PNG, max 5MB each). Put the pages in order, then extract;
+        the combined text will populate the ToR input above.
+      </p>
+    </div>
+  );
+}
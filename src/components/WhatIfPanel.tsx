@@ -0,0 +1,130 @@
+"use client";
+
+import { ArrowDown, ArrowUp, Minus, RotateCcw } from "lucide-react";
+import { MAX_WEIGHT, WEIGHT_STEP, type CriteriaGrid } from "@/lib/criteria";
+import { applyWeights, baseWeights, rankChange, weightSum, type WeightMap } from "@/lib/scenario";
+import type { JsonData } from "@/lib/schema";
+
+interface WhatIfPanelProps {
+  data: JsonData;
+  grid: CriteriaGrid;
+  weights: WeightMap;
+  onChange: (weights: WeightMap) => void;
+  includeInReport: boolean;
+  onIncludeChange: (include: boolean) => void;
+}
+
+export default function WhatIfPanel({
+  data,
+  grid,
+  weights,
+  onChange,
+  includeInReport,
+  onIncludeChange,
+}: WhatIfPanelProps) {
+  const base = baseWeights(grid);
+  const rows = applyWeights(data, grid, weights);
+  const total = weightSum(weights);
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-6">
+      <div className="space-y-4">
+        {grid.map((category, i) => (
+          <div key={i}>
+            <p className="text-sm font-semibold text-gray-800">{category.name}</p>
+            {category.subcriteria.map((sub, j) => {
+              const value = weights[sub.name] ?? sub.weight;
+              return (
+                <div key={j} className="flex items-center gap-3 mt-2 text-sm">
+                  <label htmlFor={`weight-${i}-${j}`} className="w-48 text-gray-700 truncate" title={sub.name}>
+                    {sub.name}
+                  </label>
+                  <input
+                    id={`weight-${i}-${j}`}
+                    type="range"
+                    min={0}
+                    max={MAX_WEIGHT}
+                    step={WEIGHT_STEP}
+                    value={value}
+                    onChange={(e) => onChange({ ...weights, [sub.name]: e.target.valueAsNumber })}
+                    className="flex-1"
+                  />
+                  <span className={`w-16 text-right ${value !== base[sub.name] ? "font-semibold text-blue-700" : "text-gray-600"}`}>
+                    {value}%
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+          <span className={Math.abs(total - 100) > 0.001 ? "text-yellow-700" : "text-gray-600"}>
+            Weights sum to {total}%{Math.abs(total - 100) > 0.001 ? "; totals are scaled to 100" : ""}
+          </span>
+          <button
+            type="button"
+            onClick={() => onChange(base)}
+            className="inline-flex items-center gap-1 px-3 py-1 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-100 transition"
+          >
+            <RotateCcw size={14} /> Reset weights
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <div className="table-container overflow-x-auto">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-blue-50">
+                <th className="p-2 text-left text-gray-800 font-semibold border-b border-gray-200 text-sm">Rank</th>
+                <th className="p-2 text-left text-gray-800 font-semibold border-b border-gray-200 text-sm">Name</th>
+                <th className="p-2 text-right text-gray-800 font-semibold border-b border-gray-200 text-sm">Adjusted</th>
+                <th className="p-2 text-right text-gray-800 font-semibold border-b border-gray-200 text-sm">Original</th>
+                <th className="p-2 text-center text-gray-800 font-semibold border-b border-gray-200 text-sm">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, i) => {
+                const change = rankChange(row);
+                return (
+                  <tr key={i} className="hover:bg-gray-50 transition">
+                    <td className="p-2 text-gray-700 border-b border-gray-200 text-sm">{row.rank}</td>
+                    <td className="p-2 text-gray-700 border-b border-gray-200 text-sm">
+                      {row.candidate_name || "Unnamed Candidate"}
+                    </td>
+                    <td className="p-2 text-gray-900 font-semibold border-b border-gray-200 text-sm text-right">
+                      {row.total_score.toFixed(2)}
+                    </td>
+                    <td className="p-2 text-gray-600 border-b border-gray-200 text-sm text-right">
+                      {row.original_score != null ? row.original_score.toFixed(2) : "N/A"}
+                      {row.original_rank != null ? ` (#${row.original_rank})` : ""}
+                    </td>
+                    <td className="p-2 border-b border-gray-200 text-sm">
+                      <span className="flex items-center justify-center gap-1">
+                        {change == null || change === 0 ? (
+                          <Minus size={14} className="text-gray-400" aria-label="No change" />
+                        ) : change > 0 ? (
+                          <span className="inline-flex items-center text-green-700">
+                            <ArrowUp size={14} /> {change}
+                          </span>
+                        ) : (
+                          <span className="inline-flex items-center text-red-700">
+                            <ArrowDown size={14} /> {-change}
+                          </span>
+                        )}
+                      </span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <label className="mt-3 inline-flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+          <input type="checkbox" checked={includeInReport} onChange={(e) => onIncludeChange(e.target.checked)} />
+          Include this scenario in the exported report
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { Check } from "lucide-react";
+import { WIZARD_STEPS, stepIndex, type WizardStep } from "@/lib/wizard";
+
+interface WizardStepsProps {
+  current: WizardStep;
+  isReachable: (step: WizardStep) => boolean;
+  onSelect: (step: WizardStep) => void;
+}
+
+export default function WizardSteps({ current, isReachable, onSelect }: WizardStepsProps) {
+  const currentIndex = stepIndex(current);
+
+  return (
+    <nav aria-label="Evaluation steps">
+      <ol className="flex flex-wrap items-center gap-2 text-sm">
+        {WIZARD_STEPS.map((step, i) => {
+          const done = i < currentIndex;
+          const active = i === currentIndex;
+          return (
+            <li key={step.key} className="flex items-center gap-2">
+              {i > 0 && <span className="hidden sm:block w-6 h-px bg-gray-300" aria-hidden="true" />}
+              <button
+                type="button"
+                onClick={() => onSelect(step.key)}
+                disabled={!active && !isReachable(step.key)}
+                aria-current={active ? "step" : undefined}
+                className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full border transition disabled:opacity-50 disabled:cursor-not-allowed ${
+                  active
+                    ? "bg-blue-600 border-blue-600 text-white"
+                    : done
+                      ? "bg-blue-50 border-blue-200 text-blue-900 hover:bg-blue-100"
+                      : "bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                <span
+                  className={`inline-flex items-center justify-center w-5 h-5 rounded-full text-xs font-semibold ${
+                    active ? "bg-white text-blue-700" : done ? "bg-blue-600 text-white" : "bg-gray-200 text-gray-700"
+                  }`}
+                >
+                  {done ? <Check size={12} /> : i + 1}
+                </span>
+                {step.label}
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+}
@@ -0,0 +1,54 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import CandidateCard, { badgeColor } from "@/components/CandidateCard";
+import { resolveCriteria } from "@/lib/criteria";
+import { fixtureData } from "@/test/fixtures";
+
+const grid = resolveCriteria(fixtureData);
+const [jane, john] = fixtureData.candidates;
+
+describe("CandidateCard", () => {
+  it("shows the candidate summary and recommendation badge", () => {
+    render(<CandidateCard candidate={jane} grid={grid} />);
+    expect(screen.getByRole("heading", { name: "Jane Doe" })).toBeTruthy();
+    expect(screen.getByText("Highly Suitable").className).toContain(badgeColor("Highly Suitable"));
+    expect(screen.getByText("Jane Doe strengths")).toBeTruthy();
+    expect(screen.getByText("Jane Doe weaknesses")).toBeTruthy();
+  });
+
+  it("colours badges by recommendation", () => {
+    expect(badgeColor("Highly Suitable")).toContain("green");
+    expect(badgeColor("Suitable")).toContain("yellow");
+    expect(badgeColor("Not Suitable")).toContain("red");
+    expect(badgeColor("Not Evaluated")).toContain("red");
+  });
+
+  it("lists the detailed evaluation read-only without an override handler", () => {
+    render(<CandidateCard candidate={john} grid={grid} />);
+    expect(screen.getByText("No evidence in CV.")).toBeTruthy();
+    expect(screen.queryByLabelText(/Override score/)).toBeNull();
+    expect(screen.queryByText("View CV Evidence")).toBeNull();
+  });
+
+  it("reports overrides by criterion", () => {
+    const onOverrideChange = vi.fn();
+    render(<CandidateCard candidate={john} grid={grid} onOverrideChange={onOverrideChange} />);
+    const input = screen.getByLabelText("Override score for Technical Skills");
+    fireEvent.change(input, { target: { value: "35" } });
+    fireEvent.blur(input);
+    expect(onOverrideChange).toHaveBeenCalledWith("Technical Skills", { score: 35, comment: "" });
+  });
+
+  it("shows the AI total when the displayed total differs", () => {
+    const overridden = { ...john, scores: { ...john.scores, total_score: 70 } };
+    render(<CandidateCard candidate={overridden} aiCandidate={john} grid={grid} />);
+    expect(screen.getByText("(AI: 65.00)")).toBeTruthy();
+  });
+
+  it("opens the CV evidence", () => {
+    const onViewEvidence = vi.fn();
+    render(<CandidateCard candidate={jane} grid={grid} onViewEvidence={onViewEvidence} />);
+    fireEvent.click(screen.getByText("View CV Evidence"));
+    expect(onViewEvidence).toHaveBeenCalledOnce();
+  });
+});
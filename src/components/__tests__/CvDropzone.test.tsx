@@ -0,0 +1,60 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import CvDropzone from "@/components/CvDropzone";
+import { BATCH_SIZE } from "@/lib/batch";
+
+const cv = (name: string) => new File(["%PDF-1.4"], name, { type: "application/pdf" });
+
+const renderDropzone = (props: Partial<React.ComponentProps<typeof CvDropzone>> = {}) => {
+  const handlers = { onAdd: vi.fn(), onRemove: vi.fn(), onDismissRejected: vi.fn() };
+  render(
+    <CvDropzone
+      files={[]}
+      previews={new Map()}
+      rejected={[]}
+      onRunOcr={vi.fn()}
+      onCancelOcr={vi.fn()}
+      {...handlers}
+      {...props}
+    />
+  );
+  return handlers;
+};
+
+describe("CvDropzone", () => {
+  it("adds dropped and browsed files", () => {
+    const { onAdd } = renderDropzone();
+    const dropped = [cv("a.pdf"), cv("b.pdf")];
+    fireEvent.drop(screen.getByText(/Drag & Drop/).closest(".dropzone-area")!, { dataTransfer: { files: dropped } });
+    expect(onAdd).toHaveBeenCalledWith(dropped);
+
+    fireEvent.change(screen.getByLabelText("Upload CVs"), { target: { files: [dropped[0]] } });
+    expect(onAdd).toHaveBeenLastCalledWith([dropped[0]]);
+  });
+
+  it("lists uploaded files and removes them", () => {
+    const { onRemove } = renderDropzone({ files: [cv("jane.pdf"), cv("john.pdf")] });
+    expect(screen.getByText("jane.pdf")).toBeTruthy();
+    expect(screen.getByText(/^2\/\d+ files uploaded/)).toBeTruthy();
+    fireEvent.click(screen.getAllByRole("button", { name: /Remove/ })[1]);
+    expect(onRemove).toHaveBeenCalledWith(1);
+  });
+
+  it("explains rejected files until dismissed", () => {
+    const { onDismissRejected } = renderDropzone({ rejected: [{ name: "photo.png", reason: "Not a CV format." }] });
+    expect(screen.getByRole("alert").textContent).toContain("1 file was not added");
+    expect(screen.getByText("photo.png")).toBeTruthy();
+    fireEvent.click(screen.getByRole("button", { name: "Dismiss" }));
+    expect(onDismissRejected).toHaveBeenCalledOnce();
+  });
+
+  it("announces batching for large sets", () => {
+    renderDropzone({ files: Array.from({ length: BATCH_SIZE + 1 }, (_, i) => cv(`${i}.pdf`)) });
+    expect(screen.getByText(/will be evaluated in 2 batches/)).toBeTruthy();
+  });
+
+  it("renders its children", () => {
+    renderDropzone({ children: <button>Analyze CVs</button> });
+    expect(screen.getByRole("button", { name: "Analyze CVs" })).toBeTruthy();
+  });
+});
@@ -0,0 +1,38 @@
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import FinalRecommendationPanel from "@/components/FinalRecommendationPanel";
+import { fixtureData, legacyFixtureData } from "@/test/fixtures";
+
+describe("FinalRecommendationPanel", () => {
+  it("shows each part of a structured justification", () => {
+    render(<FinalRecommendationPanel recommendation={fixtureData.final_recommendation} />);
+    expect(screen.getByText("Best Candidate: Jane Doe")).toBeTruthy();
+    expect(screen.getByText("Decision: Highly Suitable")).toBeTruthy();
+    expect(screen.getByText("Jane Doe leads on every criterion.")).toBeTruthy();
+    expect(screen.getByText("Longest relevant experience.")).toBeTruthy();
+    expect(screen.getByText("Too junior.")).toBeTruthy();
+    expect(screen.queryByText("Justification")).toBeNull();
+  });
+
+  it("shows a single justification string as is", () => {
+    render(<FinalRecommendationPanel recommendation={legacyFixtureData.final_recommendation} />);
+    expect(screen.getByText("Justification")).toBeTruthy();
+    expect(screen.getByText("Jane Doe is the strongest candidate.")).toBeTruthy();
+    expect(screen.queryByText("Why Not Other Candidates")).toBeNull();
+  });
+
+  it("falls back when parts are missing", () => {
+    render(
+      <FinalRecommendationPanel
+        recommendation={{
+          best_candidate: "",
+          final_decision: "",
+          justification: { detailed_explanation: "", why_he: "", why_not_others: [] },
+        }}
+      />
+    );
+    expect(screen.getByText("Best Candidate: None")).toBeTruthy();
+    expect(screen.getByText("Decision: Not Evaluated")).toBeTruthy();
+    expect(screen.getByText("No other candidates evaluated.")).toBeTruthy();
+  });
+});
@@ -0,0 +1,39 @@
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import RankingTable from "@/components/RankingTable";
+import { fixtureData } from "@/test/fixtures";
+
+const rowTexts = () =>
+  screen
+    .getAllByRole("row")
+    .slice(1)
+    .map((row) => Array.from(row.querySelectorAll("td")).map((td) => td.textContent));
+
+describe("RankingTable", () => {
+  it("orders candidates by rank", () => {
+    render(<RankingTable matrix={fixtureData.comparison_matrix} />);
+    expect(rowTexts()).toEqual([
+      ["Jane Doe", "85.00", "1"],
+      ["John Smith", "65.00", "2"],
+      ["Ali Khan", "20.00", "3"],
+    ]);
+    expect(screen.queryByText("AI Score (Rank)")).toBeNull();
+  });
+
+  it("adds the AI score and rank when given", () => {
+    const matrix = [
+      { candidate_name: "John Smith", total_score: 90, rank: 1 },
+      { candidate_name: "Jane Doe", total_score: 85, rank: 2 },
+    ];
+    const aiRanking = [
+      { candidate_name: "John Smith", total_score: 90, rank: 1, original_score: 65, original_rank: 2 },
+      { candidate_name: "Jane Doe", total_score: 85, rank: 2, original_score: 85, original_rank: 1 },
+    ];
+    render(<RankingTable matrix={matrix} aiRanking={aiRanking} />);
+    expect(screen.getByText("AI Score (Rank)")).toBeTruthy();
+    expect(rowTexts()).toEqual([
+      ["John Smith", "90.00", "1", "65.00 (#2)"],
+      ["Jane Doe", "85.00", "2", "85.00 (#1)"],
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import ReportExporter from "@/components/ReportExporter";
+import { generatePdfReport } from "@/lib/pdfReport";
+import { generateDocxReport } from "@/lib/report";
+import { DEFAULT_REPORT_CONFIG } from "@/lib/reportConfig";
+import { fixtureData } from "@/test/fixtures";
+
+vi.mock("@/lib/report", () => ({ generateDocxReport: vi.fn() }));
+vi.mock("@/lib/pdfReport", () => ({ generatePdfReport: vi.fn() }));
+
+const renderExporter = (props: Partial<React.ComponentProps<typeof ReportExporter>> = {}) => {
+  const onError = vi.fn();
+  render(
+    <ReportExporter
+      data={fixtureData}
+      config={DEFAULT_REPORT_CONFIG}
+      onConfigChange={vi.fn()}
+      onError={onError}
+      {...props}
+    />
+  );
+  return onError;
+};
+
+describe("ReportExporter", () => {
+  beforeEach(() => {
+    vi.mocked(generateDocxReport).mockReset().mockResolvedValue(undefined);
+    vi.mocked(generatePdfReport).mockReset().mockResolvedValue(undefined);
+  });
+
+  it("generates the Word report with the options and config", () => {
+    const options = { scenario: { Education: 30 } };
+    renderExporter({ options });
+    fireEvent.click(screen.getByRole("button", { name: "Download report as DOCX" }));
+    expect(generateDocxReport).toHaveBeenCalledWith(fixtureData, { ...options, config: DEFAULT_REPORT_CONFIG });
+  });
+
+  it("reports a failed PDF export", async () => {
+    vi.mocked(generatePdfReport).mockRejectedValue(new Error("boom"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const onError = renderExporter();
+    fireEvent.click(screen.getByRole("button", { name: "Download report as PDF" }));
+    await waitFor(() => expect(onError).toHaveBeenCalledWith("Failed to create the PDF report."));
+  });
+
+  it("offers JSON export only with a handler", () => {
+    renderExporter();
+    expect(screen.queryByRole("button", { name: "Export evaluation as JSON" })).toBeNull();
+  });
+
+  it("exports JSON", () => {
+    const onExportJson = vi.fn();
+    renderExporter({ onExportJson });
+    fireEvent.click(screen.getByRole("button", { name: "Export evaluation as JSON" }));
+    expect(onExportJson).toHaveBeenCalledOnce();
+  });
+
+  it("disables the downloads while busy", () => {
+    renderExporter({ disabled: true });
+    expect((screen.getByRole("button", { name: "Download report as DOCX" }) as HTMLButtonElement).disabled).toBe(true);
+    expect((screen.getByRole("button", { name: "Download report as PDF" }) as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it("opens the report settings", () => {
+    renderExporter();
+    fireEvent.click(screen.getByRole("button", { name: "Configure report" }));
+    expect(screen.getByText("Report Settings", { selector: "h2" })).toBeTruthy();
+  });
+});
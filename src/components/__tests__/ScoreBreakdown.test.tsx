@@ -0,0 +1,38 @@
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import ScoreBreakdown from "@/components/ScoreBreakdown";
+import { resolveCriteria } from "@/lib/criteria";
+import { fixtureData } from "@/test/fixtures";
+
+const grid = resolveCriteria(fixtureData);
+const [jane] = fixtureData.candidates;
+
+describe("ScoreBreakdown", () => {
+  it("lists categories and criterion weights without a candidate", () => {
+    render(<ScoreBreakdown grid={grid} />);
+    expect(screen.getByText("Qualifications - 50%")).toBeTruthy();
+    expect(screen.getByText("Skills - 50%")).toBeTruthy();
+    expect(screen.getByText("Technical Skills").nextSibling?.textContent).toBe("50%");
+    expect(screen.queryByText("Total")).toBeNull();
+  });
+
+  it("shows a candidate's score per criterion and the total", () => {
+    render(<ScoreBreakdown grid={grid} candidate={jane} />);
+    expect(screen.getByText("Education").nextSibling?.textContent).toBe("18.00");
+    expect(screen.getByText("Years of Experience").nextSibling?.textContent).toBe("27.00");
+    expect(screen.getByText("Total").nextSibling?.textContent).toBe("85.00");
+    expect(screen.queryByText(/AI:/)).toBeNull();
+  });
+
+  it("shows N/A for criteria the candidate was not scored on", () => {
+    const extended = [...grid, { name: "Other", subcriteria: [{ name: "Certifications", weight: 10 }] }];
+    render(<ScoreBreakdown grid={extended} candidate={jane} />);
+    expect(screen.getByText("Certifications").nextSibling?.textContent).toBe("N/A");
+  });
+
+  it("shows the AI total next to an overridden total", () => {
+    const overridden = { ...jane, scores: { ...jane.scores, total_score: 90 } };
+    render(<ScoreBreakdown grid={grid} candidate={overridden} aiTotal={85} />);
+    expect(screen.getByText("(AI: 85.00)")).toBeTruthy();
+  });
+});
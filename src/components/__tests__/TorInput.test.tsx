@@ -0,0 +1,35 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import TorInput from "@/components/TorInput";
+
+const renderTorInput = (value: string) => {
+  const onChange = vi.fn();
+  render(<TorInput value={value} onChange={onChange} onBusyChange={vi.fn()} onError={vi.fn()} />);
+  return onChange;
+};
+
+describe("TorInput", () => {
+  it("reports typed text", () => {
+    const onChange = renderTorInput("");
+    fireEvent.change(screen.getByLabelText("Terms of Reference input"), { target: { value: "Hydrologist" } });
+    expect(onChange).toHaveBeenCalledWith("Hydrologist");
+  });
+
+  it("shows the full ToR in a dialog", () => {
+    renderTorInput("Water supply engineer");
+    fireEvent.click(screen.getByText("+ View Full ToR"));
+    const dialog = screen.getByRole("dialog", { name: "Full Terms of Reference" });
+    expect(dialog.textContent).toContain("Water supply engineer");
+    fireEvent.click(screen.getByText("Close"));
+    expect(screen.queryByRole("dialog")).toBeNull();
+  });
+
+  it("asks for a ToR before opening an empty dialog", () => {
+    const alert = vi.spyOn(window, "alert").mockImplementation(() => {});
+    renderTorInput("  ");
+    fireEvent.click(screen.getByText("+ View Full ToR"));
+    expect(alert).toHaveBeenCalledOnce();
+    expect(screen.queryByRole("dialog")).toBeNull();
+    alert.mockRestore();
+  });
+});
@@ -0,0 +1,16 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import WizardSteps from "@/components/WizardSteps";
+
+describe("WizardSteps", () => {
+  it("marks the current step and disables unreachable ones", () => {
+    const onSelect = vi.fn();
+    render(<WizardSteps current="criteria" isReachable={(step) => step !== "results"} onSelect={onSelect} />);
+
+    expect(screen.getByRole("button", { current: "step" }).textContent).toContain("Criteria");
+    expect(screen.getByRole("button", { name: /Results/ }).hasAttribute("disabled")).toBe(true);
+
+    fireEvent.click(screen.getByRole("button", { name: /Review & Submit/ }));
+    expect(onSelect).toHaveBeenCalledWith("review");
+  });
+});
@@ -0,0 +1,61 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_CRITERIA } from "@/lib/criteria";
+import { loadDraft, saveDraft, type RestoredDraft } from "@/lib/draft";
+import { useDraftAutosave } from "@/hooks/useDraftAutosave";
+
+vi.mock("@/lib/draft", () => ({ loadDraft: vi.fn(), saveDraft: vi.fn(async () => {}), clearDraft: vi.fn(async () => {}) }));
+
+const saved: RestoredDraft = {
+  step: "cvs",
+  tor: "Saved ToR",
+  criteria: DEFAULT_CRITERIA,
+  evaluationId: null,
+  updatedAt: 1,
+  files: [],
+  missing: [],
+};
+
+// Resolves the pending `loadDraft` when called.
+const pendingLoad = () => {
+  let resolve: (draft: RestoredDraft) => void = () => {};
+  vi.mocked(loadDraft).mockReturnValue(new Promise((r) => (resolve = r)));
+  return (draft: RestoredDraft) => resolve(draft);
+};
+
+const render = (onRestore: (draft: RestoredDraft) => void) =>
+  renderHook(({ tor }) => useDraftAutosave("tor", tor, DEFAULT_CRITERIA, [], null, onRestore), {
+    initialProps: { tor: "" },
+  });
+
+describe("useDraftAutosave", () => {
+  beforeEach(() => {
+    vi.mocked(saveDraft).mockClear();
+  });
+
+  it("restores the saved draft, then saves changes", async () => {
+    const finishLoad = pendingLoad();
+    const onRestore = vi.fn();
+    const { result, rerender } = render(onRestore);
+
+    await act(async () => finishLoad(saved));
+    expect(onRestore).toHaveBeenCalledWith(saved);
+    expect(result.current.ready).toBe(true);
+
+    rerender({ tor: "Edited" });
+    await waitFor(() => expect(saveDraft).toHaveBeenCalled());
+    expect(vi.mocked(saveDraft).mock.lastCall?.[0].tor).toBe("Edited");
+  });
+
+  it("keeps what the user entered before the draft loaded", async () => {
+    const finishLoad = pendingLoad();
+    const onRestore = vi.fn();
+    const { result, rerender } = render(onRestore);
+
+    rerender({ tor: "Typed right away" });
+    await act(async () => finishLoad(saved));
+    expect(onRestore).not.toHaveBeenCalled();
+    expect(result.current.ready).toBe(true);
+    await waitFor(() => expect(vi.mocked(saveDraft).mock.lastCall?.[0].tor).toBe("Typed right away"));
+  });
+});
@@ -0,0 +1,170 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { AnalysisCancelledError, type CvProgress } from "@/lib/analysis";
+import type { ApiClient } from "@/lib/apiClient";
+import { createBatches, mergeBatchResults, runWithConcurrency, type Batch } from "@/lib/batch";
+import { withCriteriaGrid, type CriteriaGrid } from "@/lib/criteria";
+import { parseJsonData, type JsonData, type SchemaWarning } from "@/lib/schema";
+
+export interface AnalysisOutcome {
+  // Merged result of every finished batch; null when none finished.
+  data: JsonData | null;
+  warnings: SchemaWarning[];
+  batches: Batch[];
+  cancelled: boolean;
+  // Candidates streamed by batches that did not finish: shown through
+  // `onPartial`, but not part of `data`.
+  partialCount: number;
+}
+
+interface BatchAnalysisCallbacks {
+  // Candidates received so far, while batches are still running.
+  onPartial: (data: JsonData) => void;
+  onSettled: (outcome: AnalysisOutcome) => void;
+}
+
+interface AnalysisRequest {
+  tor: string;
+  criteria: CriteriaGrid;
+}
+
+/**
+ * Submits CVs in batches (see `lib/batch`), tracks per-CV progress and lets
+ * failed batches be retried; finished batches are kept and merged again
+ * after every retry.
+ */
+export const useBatchAnalysis = (client: ApiClient, callbacks: BatchAnalysisCallbacks) => {
+  const [batches, setBatches] = useState<Batch[]>([]);
+  const [progress, setProgress] = useState<CvProgress[]>([]);
+  const [receivedCount, setReceivedCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const batchesRef = useRef<Batch[]>([]);
+  const requestRef = useRef<AnalysisRequest | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateBatch = (index: number, patch: Partial<Batch>) => {
+    batchesRef.current = batchesRef.current.map((b) => (b.index === index ? { ...b, ...patch } : b));
+    setBatches(batchesRef.current);
+  };
+
+  const submitBatch = (
+    batch: Batch,
+    request: AnalysisRequest,
+    signal: AbortSignal,
+    streamed: Map<number, unknown[]>
+  ) =>
+    client.compareCvs({ tor: request.tor, criteria: request.criteria, cvs: batch.files }, {
+      signal,
+      onEvent: (event) => {
+        if (event.type === "progress") {
+          setProgress((prev) =>
+            prev.some((p) => p.file === event.progress.file)
+              ? prev.map((p) => (p.file === event.progress.file ? event.progress : p))
+              : [...prev, event.progress]
+          );
+          return;
+        }
+        if (signal.aborted) return;
+        streamed.set(batch.index, [...(streamed.get(batch.index) ?? []), event.candidate]);
+        setReceivedCount((n) => n + 1);
+        const candidates = batchesRef.current.flatMap((b) =>
+          b.status === "done" && b.result ? b.result.candidates : (streamed.get(b.index) ?? [])
+        );
+        try {
+          // Show what has arrived so far; warnings are only reported for the final result.
+          const { data } = parseJsonData({ tor_text: request.tor, candidates });
+          callbacksRef.current.onPartial(withCriteriaGrid(data, request.criteria));
+        } catch (err) {
+          console.error("Partial result error:", err);
+        }
+      },
+    });
+
+  const run = async (targets: Batch[]) => {
+    const request = requestRef.current;
+    if (!request || targets.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(targets.flatMap((b) => b.files.map((file) => ({ file: file.name, status: "queued" as const }))));
+    setReceivedCount(0);
+    setLoading(true);
+    const streamed = new Map<number, unknown[]>();
+
+    await runWithConcurrency(targets, async (batch) => {
+      if (controller.signal.aborted) return;
+      updateBatch(batch.index, { status: "running", error: undefined });
+      streamed.delete(batch.index);
+      try {
+        const parsed = await submitBatch(batch, request, controller.signal, streamed);
+        updateBatch(batch.index, { status: "done", result: parsed.data, warnings: parsed.warnings });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "An unexpected error occurred.";
+        updateBatch(batch.index, { status: "failed", error: message });
+      }
+    });
+
+    // A reset while running (e.g. opening a saved evaluation) discards the outcome.
+    if (requestRef.current !== request) {
+      abortRef.current = null;
+      setLoading(false);
+      return;
+    }
+
+    targets.forEach((batch) => {
+      const current = batchesRef.current.find((b) => b.index === batch.index);
+      if (current && current.status !== "done" && current.status !== "failed") {
+        updateBatch(batch.index, { status: "failed", error: new AnalysisCancelledError().message });
+      }
+    });
+
+    const finished = batchesRef.current.flatMap((b) =>
+      b.status === "done" && b.result ? [{ index: b.index, result: b.result }] : []
+    );
+    const multiple = batchesRef.current.length > 1;
+    const merged = finished.length > 0 ? mergeBatchResults(finished) : null;
+    const warnings = [
+      ...batchesRef.current.flatMap((b) =>
+        (b.warnings ?? []).map((w) => (multiple ? { ...w, path: `batch ${b.index + 1}: ${w.path}` } : w))
+      ),
+      ...(merged?.warnings ?? []),
+    ];
+
+    abortRef.current = null;
+    setLoading(false);
+    callbacksRef.current.onSettled({
+      data: merged ? withCriteriaGrid(merged.data, request.criteria) : null,
+      warnings,
+      batches: batchesRef.current,
+      cancelled: controller.signal.aborted,
+      partialCount: batchesRef.current
+        .filter((b) => b.status !== "done")
+        .reduce((acc, b) => acc + (streamed.get(b.index)?.length ?? 0), 0),
+    });
+  };
+
+  const analyze = (files: File[], tor: string, criteria: CriteriaGrid) => {
+    requestRef.current = { tor, criteria };
+    batchesRef.current = createBatches(files);
+    setBatches(batchesRef.current);
+    return run(batchesRef.current);
+  };
+
+  const retry = (index?: number) =>
+    run(batchesRef.current.filter((b) => b.status === "failed" && (index == null || b.index === index)));
+
+  const cancel = () => abortRef.current?.abort();
+
+  const reset = () => {
+    abortRef.current?.abort();
+    batchesRef.current = [];
+    requestRef.current = null;
+    setBatches([]);
+  };
+
+  return { batches, progress, receivedCount, loading, analyze, retry, cancel, reset };
+};
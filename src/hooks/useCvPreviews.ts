@@ -0,0 +1,84 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { extractCvText, MIN_CV_TEXT, ocrCv, type CvPreview } from "@/lib/cvText";
+import { OcrCancelledError, type OcrLanguage } from "@/lib/ocr";
+
+/**
+ * Extracts a text preview for each CV as it is added, and runs OCR on
+ * request for scanned PDFs. Previews and running OCR jobs are dropped when
+ * their file leaves the list.
+ */
+export const useCvPreviews = (files: File[]) => {
+  const [previews, setPreviews] = useState<Map<File, CvPreview>>(() => new Map());
+  const requested = useRef(new Set<File>());
+  const ocrJobs = useRef(new Map<File, AbortController>());
+
+  const setPreview = useCallback((file: File, preview: CvPreview) => {
+    setPreviews((prev) => (requested.current.has(file) ? new Map(prev).set(file, preview) : prev));
+  }, []);
+
+  useEffect(() => {
+    files.forEach((file) => {
+      if (requested.current.has(file)) return;
+      requested.current.add(file);
+      setPreview(file, { status: "extracting", text: "" });
+      extractCvText(file).then((preview) => setPreview(file, preview));
+    });
+
+    const current = new Set(files);
+    const removed = [...requested.current].filter((file) => !current.has(file));
+    if (removed.length > 0) {
+      removed.forEach((file) => {
+        requested.current.delete(file);
+        ocrJobs.current.get(file)?.abort();
+        ocrJobs.current.delete(file);
+      });
+      setPreviews((prev) => {
+        const next = new Map(prev);
+        removed.forEach((file) => next.delete(file));
+        return next;
+      });
+    }
+  }, [files, setPreview]);
+
+  useEffect(() => {
+    const jobs = ocrJobs.current;
+    return () => jobs.forEach((controller) => controller.abort());
+  }, []);
+
+  const runOcr = async (file: File, languages: OcrLanguage[] = ["eng"]) => {
+    const before = previews.get(file);
+    if (!before || ocrJobs.current.has(file)) return;
+    const controller = new AbortController();
+    ocrJobs.current.set(file, controller);
+    setPreview(file, { ...before, status: "ocr", progress: 0, message: undefined });
+    try {
+      const text = await ocrCv(file, {
+        languages,
+        signal: controller.signal,
+        onProgress: (progress) => setPreview(file, { ...before, status: "ocr", progress }),
+      });
+      setPreview(file, {
+        status: text.length < MIN_CV_TEXT ? "low-text" : "ready",
+        text,
+        pageCount: before.pageCount,
+        ocr: true,
+        message: text.length < MIN_CV_TEXT ? "OCR found very little text; check the scan quality." : undefined,
+      });
+    } catch (err) {
+      if (err instanceof OcrCancelledError || controller.signal.aborted) {
+        setPreview(file, before);
+      } else {
+        console.error("CV OCR error:", err);
+        setPreview(file, { ...before, message: "OCR failed for this CV. Try a clearer scan." });
+      }
+    } finally {
+      ocrJobs.current.delete(file);
+    }
+  };
+
+  const cancelOcr = (file: File) => ocrJobs.current.get(file)?.abort();
+
+  return { previews, runOcr, cancelOcr };
+};
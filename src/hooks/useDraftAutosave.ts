@@ -0,0 +1,69 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { CriteriaGrid } from "@/lib/criteria";
+import { clearDraft, loadDraft, saveDraft, type RestoredDraft } from "@/lib/draft";
+import type { WizardStep } from "@/lib/wizard";
+
+// Typing pauses this long before the draft is written.
+const SAVE_DELAY = 500;
+
+/**
+ * Restores the saved draft once on mount, then saves the draft whenever one
+ * of its fields or the CV list changes. Nothing is saved until the restore
+ * has finished, so an empty form cannot overwrite the draft being restored.
+ * If the user changes anything before the draft has loaded, the draft is not
+ * restored, so what they entered is kept.
+ */
+export const useDraftAutosave = (
+  step: WizardStep,
+  tor: string,
+  criteria: CriteriaGrid,
+  files: File[],
+  evaluationId: string | null,
+  onRestore: (draft: RestoredDraft) => void | Promise<void>
+) => {
+  const [ready, setReady] = useState(false);
+  // Writes run one after another so a slow save cannot land after a newer one.
+  const queue = useRef<Promise<void>>(Promise.resolve());
+  const restore = useRef(onRestore);
+  restore.current = onRestore;
+  const initial = useRef({ step, tor, criteria, files, evaluationId });
+  const touched = useRef(false);
+
+  useEffect(() => {
+    const first = initial.current;
+    if (
+      step !== first.step ||
+      tor !== first.tor ||
+      criteria !== first.criteria ||
+      files !== first.files ||
+      evaluationId !== first.evaluationId
+    ) {
+      touched.current = true;
+    }
+  }, [step, tor, criteria, files, evaluationId]);
+
+  useEffect(() => {
+    loadDraft()
+      .then((draft) => (draft && !touched.current ? restore.current(draft) : undefined))
+      .catch((err) => console.error("Draft load error:", err))
+      .finally(() => setReady(true));
+  }, []);
+
+  useEffect(() => {
+    if (!ready) return;
+    const timer = setTimeout(() => {
+      queue.current = queue.current
+        .then(() => saveDraft({ step, tor, criteria, evaluationId }, files))
+        .catch((err) => console.error("Draft save error:", err));
+    }, SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [ready, step, tor, criteria, files, evaluationId]);
+
+  const discard = () => {
+    queue.current = queue.current.then(clearDraft).catch((err) => console.error("Draft clear error:", err));
+  };
+
+  return { ready, discard };
+};
@@ -0,0 +1,130 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from "vitest";
+import { AnalysisCancelledError, runAnalysis, type AnalysisEvent } from "@/lib/analysis";
+import { ServerError, createTransport } from "@/lib/http";
+
+const ENDPOINT = "http://api.test/compare/";
+
+const encoder = new TextEncoder();
+
+/** An event stream of `chunks`; left open when `close` is false, like a backend still working. */
+const sse = (chunks: string[], close = true) =>
+  new Response(
+    new ReadableStream<Uint8Array>({
+      start(stream) {
+        chunks.forEach((chunk) => stream.enqueue(encoder.encode(chunk)));
+        if (close) stream.close();
+      },
+    }),
+    { headers: { "content-type": "text/event-stream" } }
+  );
+
+const event = (name: string, data: unknown) => `event: ${name}\ndata: ${JSON.stringify(data)}\n\n`;
+
+const setup = (respond: (url: string, init?: RequestInit) => Response | Promise<Response>) => {
+  const fetch = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => respond(String(input), init));
+  const events: AnalysisEvent[] = [];
+  const send = createTransport({ timeout: 1000, retries: 0, retryDelay: 1, fetch });
+  const run = (signal?: AbortSignal) =>
+    runAnalysis(send, ENDPOINT, new FormData(), { signal, pollInterval: 1, onEvent: (e) => events.push(e) });
+  return { fetch, events, run };
+};
+
+describe("runAnalysis", () => {
+  it("returns a plain JSON answer as it is", async () => {
+    const { run } = setup(() => Response.json({ candidates: [] }));
+    await expect(run()).resolves.toEqual({ candidates: [] });
+  });
+
+  it("reports streamed progress and candidates and returns the final result", async () => {
+    const body = [
+      event("progress", { filename: "a.pdf", status: "processing" }),
+      event("candidate", { candidate_name: "Jane" }),
+      event("progress", { file: "a.pdf", status: "done" }),
+      event("result", { candidates: [{ candidate_name: "Jane" }] }),
+    ].join("");
+    // Split mid-message and with CRLF line ends, as a proxy may deliver it.
+    const crlf = body.replace(/\n/g, "\r\n");
+    const { events, run } = setup(() => sse([crlf.slice(0, 30), crlf.slice(30, 95), crlf.slice(95)]));
+
+    await expect(run()).resolves.toEqual({ candidates: [{ candidate_name: "Jane" }] });
+    expect(events).toEqual([
+      { type: "progress", progress: { file: "a.pdf", status: "processing", message: undefined } },
+      { type: "candidate", candidate: { candidate_name: "Jane" } },
+      { type: "progress", progress: { file: "a.pdf", status: "done", message: undefined } },
+    ]);
+  });
+
+  it("falls back to the streamed candidates when the stream ends without a result", async () => {
+    const { run } = setup(() => sse([event("candidate", { candidate_name: "Jane" }), "data: not json\n\n"]));
+    await expect(run()).resolves.toEqual({ candidates: [{ candidate_name: "Jane" }] });
+  });
+
+  it("reports stream errors and streams that end empty", async () => {
+    const failing = setup(() => sse([event("error", { error: "Model unavailable." })]));
+    await expect(failing.run()).rejects.toThrow(new ServerError("Model unavailable."));
+    const empty = setup(() => sse([]));
+    await expect(empty.run()).rejects.toThrow("closed the connection");
+  });
+
+  it("polls a 202 job until it is done, reporting each change once", async () => {
+    const polls = [
+      { status: "running", files: [{ file: "a.pdf", status: "processing" }], candidates: [] },
+      { status: "running", files: [{ file: "a.pdf", status: "processing" }], candidates: [{ candidate_name: "Jane" }] },
+      { status: "done", files: [{ file: "a.pdf", status: "done" }], candidates: [{ candidate_name: "Jane" }] },
+    ];
+    const { fetch, events, run } = setup((url) =>
+      url === ENDPOINT ? Response.json({ job_id: "j 1" }, { status: 202 }) : Response.json(polls.shift())
+    );
+
+    await expect(run()).resolves.toEqual({ candidates: [{ candidate_name: "Jane" }] });
+    expect(fetch.mock.calls.slice(1).map(([url]) => String(url))).toEqual(Array(3).fill(`${ENDPOINT}j%201/`));
+    expect(events.map((e) => (e.type === "progress" ? e.progress.status : "candidate"))).toEqual([
+      "processing",
+      "candidate",
+      "done",
+    ]);
+  });
+
+  it("follows the job's status URL and reports a failed job", async () => {
+    const { fetch, run } = setup((url) =>
+      url === ENDPOINT
+        ? Response.json({ job_id: 1, status_url: "/jobs/1" }, { status: 202 })
+        : Response.json({ status: "failed", error: "Out of credits." })
+    );
+    await expect(run()).rejects.toThrow("Out of credits.");
+    expect(String(fetch.mock.lastCall![0])).toBe("http://api.test/jobs/1");
+  });
+});
+
+describe("cancelling runAnalysis", () => {
+  it("stops reading an event stream that is still running", async () => {
+    const controller = new AbortController();
+    // The fake fetch ignores the signal, so only the stream reader can stop it.
+    const { events, run } = setup(() => sse([event("candidate", { candidate_name: "Jane" })], false));
+    const result = run(controller.signal);
+    await vi.waitFor(() => expect(events).toHaveLength(1));
+    controller.abort();
+    await expect(result).rejects.toBeInstanceOf(AnalysisCancelledError);
+  });
+
+  it("stops polling and asks the backend to drop the job", async () => {
+    const controller = new AbortController();
+    const { fetch, run } = setup((url, init) => {
+      if (url === ENDPOINT) return Response.json({ job_id: "j1" }, { status: 202 });
+      if (init?.method === "DELETE") return new Response(null, { status: 204 });
+      controller.abort();
+      return Response.json({ status: "running" });
+    });
+    await expect(run(controller.signal)).rejects.toBeInstanceOf(AnalysisCancelledError);
+    await vi.waitFor(() => expect(fetch.mock.lastCall![1]?.method).toBe("DELETE"));
+  });
+
+  it("rejects at once when cancelled before the answer arrives", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const { fetch, run } = setup(() => Response.json({}));
+    await expect(run(controller.signal)).rejects.toBeInstanceOf(AnalysisCancelledError);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
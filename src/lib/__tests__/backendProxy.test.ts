@@ -0,0 +1,146 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  backendConfigFromEnv,
+  MAX_CVS_PER_REQUEST,
+  MAX_REQUEST_SIZE,
+  proxyJob,
+  proxySubmission,
+  type BackendConfig,
+} from "@/lib/backendProxy";
+import { MAX_CV_SIZE } from "@/lib/cvValidation";
+
+const config: BackendConfig = { url: "http://backend.test/api/compare-cvs/", apiKey: "secret", timeout: 1000 };
+
+// Serialized first so the request carries a content length, as a browser's does.
+const submission = async (cvs: File[], tor = "Water supply engineer", headers?: Record<string, string>) => {
+  const form = new FormData();
+  form.append("tor", tor);
+  cvs.forEach((cv) => form.append("cvs", cv));
+  const multipart = new Request("http://app.test/api/compare", { method: "POST", body: form });
+  const body = await multipart.arrayBuffer();
+  return new Request("http://app.test/api/compare", {
+    method: "POST",
+    body,
+    headers: {
+      "content-type": multipart.headers.get("content-type")!,
+      "content-length": String(body.byteLength),
+      ...headers,
+    },
+  });
+};
+
+const cv = (name: string) => new File(["%PDF-1.4"], name, { type: "application/pdf" });
+
+const backend = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  backend.mockReset().mockResolvedValue(Response.json({ candidates: [] }));
+  vi.stubGlobal("fetch", backend);
+  vi.spyOn(console, "info").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("proxySubmission", () => {
+  it("forwards the upload with the backend credentials", async () => {
+    const res = await proxySubmission(await submission([cv("a.pdf")]), config);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ candidates: [] });
+    const [url, init] = backend.mock.lastCall!;
+    expect(url).toBe(config.url);
+    expect(new Headers(init?.headers).get("authorization")).toBe("Bearer secret");
+    expect((init?.body as FormData).getAll("cvs")).toHaveLength(1);
+  });
+
+  it("rejects more CVs than one request may carry", async () => {
+    const cvs = Array.from({ length: MAX_CVS_PER_REQUEST + 1 }, (_, i) => cv(`${i}.pdf`));
+    const res = await proxySubmission(await submission(cvs), config);
+    expect(res.status).toBe(413);
+    expect(backend).not.toHaveBeenCalled();
+  });
+
+  it("lists CVs over the per-file limit", async () => {
+    const big = new File([new Uint8Array(MAX_CV_SIZE + 1)], "big.pdf");
+    const res = await proxySubmission(await submission([cv("a.pdf"), big]), config);
+    expect(res.status).toBe(413);
+    expect((await res.json()).details.rejected).toEqual([
+      { name: "big.pdf", reason: "The file is over the 10.0 MB limit per CV." },
+    ]);
+    expect(backend).not.toHaveBeenCalled();
+  });
+
+  it("rejects an oversized request before reading it", async () => {
+    const request = await submission([cv("a.pdf")], "ToR", { "content-length": String(MAX_REQUEST_SIZE + 1) });
+    const formData = vi.spyOn(request, "formData");
+    const res = await proxySubmission(request, config);
+    expect(res.status).toBe(413);
+    expect(formData).not.toHaveBeenCalled();
+  });
+
+  it("rejects a request without a content length before reading it", async () => {
+    const form = new FormData();
+    form.append("tor", "ToR");
+    form.append("cvs", cv("a.pdf"));
+    const request = new Request("http://app.test/api/compare", { method: "POST", body: form });
+    const formData = vi.spyOn(request, "formData");
+    const res = await proxySubmission(request, config);
+    expect(res.status).toBe(411);
+    expect(formData).not.toHaveBeenCalled();
+  });
+
+  it("requires a ToR and at least one CV", async () => {
+    expect((await proxySubmission(await submission([cv("a.pdf")], " "), config)).status).toBe(400);
+    expect((await proxySubmission(await submission([]), config)).status).toBe(400);
+  });
+
+  it("hides the backend's address and credential errors", async () => {
+    backend.mockResolvedValue(new Response("Unauthorized", { status: 401 }));
+    const rejected = await proxySubmission(await submission([cv("a.pdf")]), config);
+    expect(rejected.status).toBe(502);
+
+    backend.mockRejectedValue(new TypeError("fetch failed"));
+    const down = await proxySubmission(await submission([cv("a.pdf")]), config);
+    expect(down.status).toBe(502);
+    expect(JSON.stringify(await down.json())).not.toContain("backend.test");
+  });
+
+  it("requires the backend address to be configured", async () => {
+    const res = await proxySubmission(await submission([cv("a.pdf")]), { ...config, url: "" });
+    expect(res.status).toBe(502);
+    expect(backend).not.toHaveBeenCalled();
+  });
+});
+
+describe("backendConfigFromEnv", () => {
+  it("reads the backend address from the server-only variable", () => {
+    vi.stubEnv("NEXT_PUBLIC_API_URL", "http://public.test/");
+    vi.stubEnv("BACKEND_API_URL", "");
+    vi.stubEnv("NODE_ENV", "production");
+    expect(backendConfigFromEnv().url).toBe("");
+    vi.stubEnv("BACKEND_API_URL", "http://backend.test/");
+    expect(backendConfigFromEnv().url).toBe("http://backend.test/");
+  });
+});
+
+describe("proxyJob", () => {
+  const job = (id: string, method = "GET") => proxyJob(new Request(`http://app.test/api/compare/x`, { method }), id, config);
+
+  it("forwards polls for a job to the backend", async () => {
+    const res = await job("job_42-a");
+    expect(res.status).toBe(200);
+    expect(backend.mock.lastCall![0]).toBe("http://backend.test/api/compare-cvs/job_42-a/");
+  });
+
+  it("rejects job ids that could reach other backend paths", async () => {
+    for (const id of ["..", ".", "a/b", "a%2Fb", "", "a.b"]) {
+      expect((await job(id, "DELETE")).status).toBe(400);
+    }
+    expect(backend).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { mergeBatchResults } from "@/lib/batch";
+import type { DetailedJustification, JsonData } from "@/lib/schema";
+import { fixtureData } from "@/test/fixtures";
+
+const [jane, john] = fixtureData.candidates;
+
+// An earlier batch holding a weaker CV under the same name as the overall winner.
+const firstBatch: JsonData = {
+  ...fixtureData,
+  candidates: [
+    { ...jane, scores: { ...jane.scores, total_score: 10 } },
+    { ...john, candidate_name: "Sara Ali", scores: { ...john.scores, total_score: 60 } },
+  ],
+  comparison_matrix: [
+    { candidate_name: "Sara Ali", total_score: 60, rank: 1 },
+    { candidate_name: "Jane Doe", total_score: 10, rank: 2 },
+  ],
+};
+
+describe("mergeBatchResults", () => {
+  it("ranks candidates from all batches and renames clashes", () => {
+    const { data } = mergeBatchResults([
+      { index: 0, result: firstBatch },
+      { index: 1, result: fixtureData },
+    ]);
+    expect(data.comparison_matrix.map((m) => [m.candidate_name, m.rank])).toEqual([
+      ["Jane Doe (batch 2)", 1],
+      ["John Smith", 2],
+      ["Sara Ali", 3],
+      ["Ali Khan", 4],
+      ["Jane Doe", 5],
+    ]);
+  });
+
+  it("points the recommendation at the renamed candidates", () => {
+    const { data } = mergeBatchResults([
+      { index: 0, result: firstBatch },
+      { index: 1, result: fixtureData },
+    ]);
+    const names = data.candidates.map((c) => c.candidate_name);
+    expect(data.final_recommendation.best_candidate).toBe("Jane Doe (batch 2)");
+    expect(names).toContain(data.final_recommendation.best_candidate);
+    const { why_not_others } = data.final_recommendation.justification as DetailedJustification;
+    expect(why_not_others.map((o) => o.candidate_name)).toEqual(["John Smith", "Ali Khan"]);
+  });
+});
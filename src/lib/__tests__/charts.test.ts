@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { RADAR_SIZE, radarChartSvg, radarHeight, stackedBarChartSvg, stackedBarHeight } from "@/lib/charts";
+
+const parse = (svg: string) => new DOMParser().parseFromString(svg, "image/svg+xml");
+
+describe("chart builders", () => {
+  it("builds a radar chart with one polygon per candidate and escaped labels", () => {
+    const svg = radarChartSvg({
+      axes: ["Education", "Experience <5y", "Languages"],
+      series: [
+        { name: "Jane & John", values: [1, 0.5, null] },
+        { name: "Ali", values: [0.2, 0.4, 0.6] },
+      ],
+    });
+    const doc = parse(svg);
+    expect(doc.querySelector("parsererror")).toBeNull();
+    const root = doc.documentElement;
+    expect(root.getAttribute("width")).toBe(String(RADAR_SIZE));
+    expect(root.getAttribute("height")).toBe(String(radarHeight(2)));
+    // Four grid rings plus the two candidates.
+    expect(root.querySelectorAll("polygon")).toHaveLength(6);
+    const labels = Array.from(root.querySelectorAll("text")).map((t) => t.textContent);
+    expect(labels).toContain("Experience <5y");
+    expect(labels).toContain("Jane & John");
+  });
+
+  it("builds a stacked bar per candidate with its total", () => {
+    const svg = stackedBarChartSvg({
+      categories: ["General", "Specific"],
+      bars: [{ name: "Jane Doe", segments: [30, 55] }],
+    });
+    const root = parse(svg).documentElement;
+    expect(root.getAttribute("height")).toBe(String(stackedBarHeight(1, 2)));
+    const labels = Array.from(root.querySelectorAll("text")).map((t) => t.textContent);
+    expect(labels).toContain("1. Jane Doe");
+    expect(labels).toContain("85.00");
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CRITERIA, categoryWeight, resolveCriteria, scoreBreakdown, type CriteriaGrid } from "@/lib/criteria";
+import { fixtureData } from "@/test/fixtures";
+
+// The page maps a result to its criteria grid with `resolveCriteria(data)`.
+describe("resolveCriteria", () => {
+  it("groups the criteria by the categories the backend echoed", () => {
+    expect(resolveCriteria(fixtureData)).toEqual([
+      {
+        name: "Qualifications",
+        subcriteria: [
+          { name: "Education", weight: 20 },
+          { name: "Years of Experience", weight: 30 },
+        ],
+      },
+      { name: "Skills", subcriteria: [{ name: "Technical Skills", weight: 50 }] },
+    ]);
+  });
+
+  it("takes missing categories from the submitted grid", () => {
+    const submitted: CriteriaGrid = [{ name: "Engineering", subcriteria: [{ name: "Hydraulics", weight: 100 }] }];
+    const data = { ...fixtureData, criteria: [{ criterion: "Hydraulics", weight: 100 }] };
+    expect(resolveCriteria(data, submitted)).toEqual(submitted);
+  });
+
+  it("falls back to the default grid, then to an uncategorized group", () => {
+    const data = {
+      ...fixtureData,
+      criteria: [
+        { criterion: "Education", weight: 40 },
+        { criterion: "Team leadership", weight: 60 },
+      ],
+    };
+    const grid = resolveCriteria(data);
+    expect(grid[0]).toEqual({
+      name: DEFAULT_CRITERIA.find((c) => c.subcriteria.some((s) => s.name === "Education"))!.name,
+      subcriteria: [{ name: "Education", weight: 40 }],
+    });
+    expect(grid[1].subcriteria).toEqual([{ name: "Team leadership", weight: 60 }]);
+  });
+
+  it("returns the submitted grid for a result without criteria", () => {
+    expect(resolveCriteria({ ...fixtureData, criteria: [] })).toBe(DEFAULT_CRITERIA);
+  });
+});
+
+describe("scoreBreakdown", () => {
+  it("sums category scores and keeps the reported total", () => {
+    const grid = resolveCriteria(fixtureData);
+    const breakdown = scoreBreakdown(fixtureData.candidates[0], grid);
+    expect(breakdown.categories.map((c) => [c.name, c.weight, c.total])).toEqual([
+      ["Qualifications", 50, 45],
+      ["Skills", 50, 40],
+    ]);
+    expect(breakdown.total).toBe(85);
+    expect(grid.map(categoryWeight)).toEqual([50, 50]);
+  });
+});
@@ -0,0 +1,62 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import { MAX_CV_SIZE, MAX_CVS, MAX_TOTAL_CV_SIZE, validateCvFiles } from "@/lib/cvValidation";
+
+const pdf = (name: string, body = name) => new File([`%PDF-1.4\n${body}`], name, { type: "application/pdf" });
+
+// Reports a size without allocating it; only the first bytes are read for sniffing.
+const withSize = (file: File, size: number) => Object.defineProperty(file, "size", { value: size });
+
+describe("validateCvFiles", () => {
+  it("accepts PDF, DOCX and text CVs", async () => {
+    const docx = new File([new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0, 0])], "b.docx");
+    const txt = new File(["Jane Doe, engineer"], "c.txt");
+    const { accepted, rejected } = await validateCvFiles([], [pdf("a.pdf"), docx, txt]);
+    expect(accepted.map((f) => f.name)).toEqual(["a.pdf", "b.docx", "c.txt"]);
+    expect(rejected).toEqual([]);
+  });
+
+  it("rejects empty, unrecognized and renamed files", async () => {
+    const { accepted, rejected } = await validateCvFiles(
+      [],
+      [new File([], "empty.pdf"), new File(["GIF89a"], "photo.pdf"), new File([new Uint8Array([0x50, 0x4b, 0x03, 0x04])], "archive.zip")]
+    );
+    expect(accepted).toEqual([]);
+    expect(rejected.map((r) => r.name)).toEqual(["empty.pdf", "photo.pdf", "archive.zip"]);
+    expect(rejected[0].reason).toBe("The file is empty.");
+  });
+
+  it("rejects CVs over the per-file limit", async () => {
+    const { rejected } = await validateCvFiles(
+      [],
+      [withSize(pdf("big.pdf"), MAX_CV_SIZE * 2), withSize(pdf("edge.pdf"), MAX_CV_SIZE + 1)]
+    );
+    expect(rejected).toEqual([
+      { name: "big.pdf", reason: "The file is 20.0 MB; the limit is 10.0 MB per CV." },
+      { name: "edge.pdf", reason: "The file is over the 10.0 MB limit per CV." },
+    ]);
+  });
+
+  it("rejects duplicates of files already added or in the same drop", async () => {
+    const { accepted, rejected } = await validateCvFiles([pdf("a.pdf", "same")], [pdf("b.pdf", "same"), pdf("c.pdf"), pdf("c.pdf")]);
+    expect(accepted.map((f) => f.name)).toEqual(["c.pdf"]);
+    expect(rejected).toEqual([
+      { name: "b.pdf", reason: "Same content as a.pdf." },
+      { name: "c.pdf", reason: "Already added." },
+    ]);
+  });
+
+  it("stops at the CV count limit", async () => {
+    const existing = Array.from({ length: MAX_CVS - 1 }, (_, i) => pdf(`${i}.pdf`));
+    const { accepted, rejected } = await validateCvFiles(existing, [pdf("last.pdf"), pdf("extra.pdf")]);
+    expect(accepted.map((f) => f.name)).toEqual(["last.pdf"]);
+    expect(rejected[0].reason).toMatch(`Only ${MAX_CVS} CVs`);
+  });
+
+  it("stops at the total size limit", async () => {
+    const existing = [withSize(pdf("a.pdf"), MAX_TOTAL_CV_SIZE - MAX_CV_SIZE / 2)];
+    const { accepted, rejected } = await validateCvFiles(existing, [withSize(pdf("b.pdf"), MAX_CV_SIZE)]);
+    expect(accepted).toEqual([]);
+    expect(rejected[0].reason).toMatch("total upload limit");
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_MATCHES_PER_CRITERION,
+  extractClaims,
+  findEvidence,
+  guessCvFile,
+  segmentText,
+  splitPassages,
+  stem,
+  type EvidenceMatch,
+} from "@/lib/evidence";
+import { fixtureData } from "@/test/fixtures";
+
+const cv = [
+  "Jane Doe",
+  "Education: MSc Civil Engineering, 2010",
+  "Managing several donor funded water projects in Kenya",
+  "Hobbies: hiking",
+].join("\n");
+
+const evaluation = (criterion: string, justification: string) => ({ criterion, weight: 30, score: 20, justification });
+
+const passageText = (text: string, match: EvidenceMatch) => text.slice(match.passage.start, match.passage.end);
+
+describe("stem", () => {
+  it("compares plurals and tenses equal", () => {
+    expect(stem("Managing")).toBe(stem("managed"));
+    expect(stem("projects")).toBe(stem("project"));
+    expect(stem("2015")).toBe("2015");
+  });
+});
+
+describe("extractClaims", () => {
+  it("reads quoted phrases and key terms", () => {
+    const claims = extractClaims('Led "donor-funded water projects" since 2015 and the candidate\'s team.');
+    expect(claims.quotes).toEqual(["donor-funded water projects"]);
+    expect(claims.terms).toEqual(expect.arrayContaining(["donor", "water", "project", "2015"]));
+    expect(claims.terms).not.toContain(stem("candidate"));
+  });
+});
+
+describe("splitPassages", () => {
+  it("splits lines, and long lines into sentences", () => {
+    const long = `${"First sentence is long enough. ".repeat(15)}Second part!`;
+    const text = `Short line\n\n${long}`;
+    const passages = splitPassages(text);
+    expect(text.slice(passages[0].start, passages[0].end)).toBe("Short line");
+    // The short line, 15 repeated sentences and the closing one.
+    expect(passages).toHaveLength(17);
+    expect(text.slice(passages[16].start, passages[16].end).trim()).toBe("Second part!");
+  });
+});
+
+describe("findEvidence", () => {
+  it("finds the passage a quoted justification paraphrases", () => {
+    const matches = findEvidence(cv, [evaluation("Experience", 'The candidate "managed donor-funded water projects".')]);
+    expect(matches).toHaveLength(1);
+    expect(passageText(cv, matches[0])).toBe("Managing several donor funded water projects in Kenya");
+    expect(matches[0].stems).toEqual(expect.arrayContaining(["donor", "water"]));
+  });
+
+  it("matches key terms without quotes", () => {
+    const [match] = findEvidence(cv, [evaluation("Education", "Graduated in civil engineering in 2010.")]);
+    expect(passageText(cv, match)).toBe("Education: MSc Civil Engineering, 2010");
+  });
+
+  it("skips justifications that report no evidence", () => {
+    expect(findEvidence(cv, [evaluation("Skills", "No evidence in CV of water projects.")])).toEqual([]);
+    expect(findEvidence(cv, [evaluation("Skills", "")])).toEqual([]);
+  });
+
+  it("keeps only the strongest passages per criterion", () => {
+    const text = Array.from({ length: 5 }, (_, i) => `Water projects in region ${i}`).join("\n");
+    const matches = findEvidence(text, [evaluation("Experience", "Many water projects.")]);
+    expect(matches).toHaveLength(MAX_MATCHES_PER_CRITERION);
+  });
+});
+
+describe("segmentText", () => {
+  it("cuts the text at every match boundary", () => {
+    const match = (criterion: string, start: number, end: number): EvidenceMatch => ({
+      criterion,
+      passage: { start, end },
+      score: 1,
+      stems: [],
+    });
+    expect(segmentText("abcdef", [match("A", 2, 4), match("B", 3, 6)])).toEqual([
+      { start: 0, text: "ab", criteria: [], starts: [] },
+      { start: 2, text: "c", criteria: ["A"], starts: [0] },
+      { start: 3, text: "d", criteria: ["A", "B"], starts: [1] },
+      { start: 4, text: "ef", criteria: ["B"], starts: [] },
+    ]);
+  });
+});
+
+describe("guessCvFile", () => {
+  const [jane] = fixtureData.candidates;
+  const texts: Record<string, string> = { "applicant_2.pdf": cv, "cv_john_smith.pdf": "John Smith" };
+  const files = Object.keys(texts).map((name) => ({ name }));
+
+  it("picks the file whose name or text holds the candidate's name", () => {
+    expect(guessCvFile(jane, files, (f) => texts[f.name])?.name).toBe("applicant_2.pdf");
+    expect(guessCvFile(fixtureData.candidates[1], files, (f) => texts[f.name])?.name).toBe("cv_john_smith.pdf");
+  });
+
+  it("returns null when nothing matches", () => {
+    expect(guessCvFile(fixtureData.candidates[2], files, (f) => texts[f.name])).toBeNull();
+  });
+});
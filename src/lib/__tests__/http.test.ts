@@ -0,0 +1,73 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from "vitest";
+import { createTransport, NetworkError, ServerError } from "@/lib/http";
+
+const transport = (...responses: (Response | Error)[]) => {
+  const fetch = vi.fn(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error("No more responses.");
+    if (next instanceof Error) throw next;
+    return next;
+  });
+  return { fetch, send: createTransport({ timeout: 1000, retries: 2, retryDelay: 1, fetch }) };
+};
+
+const post = { method: "POST", body: "{}" };
+
+describe("createTransport", () => {
+  it("retries a GET on a gateway error", async () => {
+    const { fetch, send } = transport(new Response(null, { status: 502 }), new Response("{}"));
+    await expect(send("/job", {})).resolves.toBeInstanceOf(Response);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry a POST on 502 or 504, since the backend may already be running it", async () => {
+    for (const status of [502, 504]) {
+      const { fetch, send } = transport(new Response(null, { status }), new Response("{}"));
+      await expect(send("/compare", post)).rejects.toBeInstanceOf(ServerError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    }
+  });
+
+  it("retries a POST that never got a response, or got 429 or 503", async () => {
+    const { fetch, send } = transport(
+      new TypeError("Failed to fetch"),
+      new Response(null, { status: 429, headers: { "retry-after": "0" } }),
+      new Response(null, { status: 503 })
+    );
+    await expect(send("/compare", post)).rejects.toBeInstanceOf(ServerError);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after the configured retries", async () => {
+    const { fetch, send } = transport(new TypeError("a"), new TypeError("b"), new TypeError("c"), new Response("{}"));
+    await expect(send("/compare", post)).rejects.toBeInstanceOf(NetworkError);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("sends nothing once the caller has aborted", async () => {
+    const { fetch, send } = transport(new Response("{}"));
+    await expect(send("/job", {}, { signal: AbortSignal.abort() })).rejects.toThrow("aborted");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("stops the response body when the caller aborts after the headers arrived", async () => {
+    const fetch = vi.fn(
+      async (_url: RequestInfo | URL, init?: RequestInit) =>
+        new Response(
+          new ReadableStream<Uint8Array>({
+            start(stream) {
+              stream.enqueue(new TextEncoder().encode("event: progress\n\n"));
+              init?.signal?.addEventListener("abort", () => stream.error(init.signal?.reason));
+            },
+          })
+        )
+    );
+    const send = createTransport({ timeout: 1000, retries: 0, retryDelay: 1, fetch });
+    const controller = new AbortController();
+    const reader = (await send("/compare", post, { signal: controller.signal })).body!.getReader();
+    await reader.read();
+    controller.abort();
+    await expect(reader.read()).rejects.toThrow();
+  });
+});
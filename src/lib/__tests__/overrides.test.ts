@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyOverrides,
+  buildOverrideAudit,
+  countOverrides,
+  getOverride,
+  setOverride,
+  type ScoreOverrides,
+} from "@/lib/overrides";
+import { fixtureData } from "@/test/fixtures";
+
+const raised = setOverride({}, "John Smith", "Technical Skills", { score: 55, comment: " Verified at interview. " });
+
+describe("setOverride", () => {
+  it("sets and clears one override", () => {
+    expect(getOverride(raised, "John Smith", "Technical Skills")?.score).toBe(55);
+    expect(countOverrides(raised)).toBe(1);
+    expect(setOverride(raised, "John Smith", "Technical Skills", null)).toEqual({});
+  });
+
+  it("keeps comment-only overrides and drops empty ones", () => {
+    const commented = setOverride(raised, "Jane Doe", "Education", { score: null, comment: "Degree not verified." });
+    expect(countOverrides(commented)).toBe(2);
+    expect(setOverride(commented, "Jane Doe", "Education", { score: null, comment: "  " })).toEqual(raised);
+  });
+});
+
+describe("applyOverrides", () => {
+  it("returns the AI result unchanged without score overrides", () => {
+    expect(applyOverrides(fixtureData, {})).toBe(fixtureData);
+    const commentOnly: ScoreOverrides = { "Jane Doe": { Education: { score: null, comment: "Checked." } } };
+    expect(applyOverrides(fixtureData, commentOnly)).toBe(fixtureData);
+  });
+
+  it("replaces the score, moves the total and re-ranks", () => {
+    const result = applyOverrides(fixtureData, raised);
+    const john = result.candidates.find((c) => c.candidate_name === "John Smith")!;
+    expect(john.detailed_evaluation.find((d) => d.criterion === "Technical Skills")?.score).toBe(55);
+    expect(john.scores.total_score).toBe(90);
+    expect(result.comparison_matrix.map((m) => [m.candidate_name, m.total_score, m.rank])).toEqual([
+      ["John Smith", 90, 1],
+      ["Jane Doe", 85, 2],
+      ["Ali Khan", 20, 3],
+    ]);
+    expect(fixtureData.candidates[1].scores.total_score).toBe(65);
+  });
+
+  it("restores the AI result once the override is cleared", () => {
+    const cleared = setOverride(raised, "John Smith", "Technical Skills", null);
+    expect(applyOverrides(fixtureData, cleared)).toBe(fixtureData);
+  });
+});
+
+describe("buildOverrideAudit", () => {
+  it("lists each override against the AI score and the ranking change", () => {
+    const overrides = setOverride(raised, "John Smith", "Education", { score: 20, comment: "" });
+    const audit = buildOverrideAudit(fixtureData, overrides)!;
+    expect(audit.entries).toEqual([
+      { candidate_name: "John Smith", criterion: "Education", weight: 20, original_score: 15, score: 20, comment: "" },
+      {
+        candidate_name: "John Smith",
+        criterion: "Technical Skills",
+        weight: 50,
+        original_score: 30,
+        score: 55,
+        comment: "Verified at interview.",
+      },
+    ]);
+    expect(audit.ranking[0]).toEqual({
+      candidate_name: "John Smith",
+      total_score: 95,
+      rank: 1,
+      original_score: 65,
+      original_rank: 2,
+    });
+  });
+
+  it("is null without overrides", () => {
+    expect(buildOverrideAudit(fixtureData, {})).toBeNull();
+  });
+});
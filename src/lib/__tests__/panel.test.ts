@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  addEvaluator,
+  buildConsensus,
+  removeEvaluator,
+  scoringProgress,
+  setPanelScore,
+  type PanelScores,
+} from "@/lib/panel";
+import { fixtureData } from "@/test/fixtures";
+
+const panel: PanelScores = {
+  Amina: {
+    "Jane Doe": { Education: 16, "Technical Skills": 48 },
+    "John Smith": { Education: 20 },
+  },
+  Bruno: {
+    "Jane Doe": { Education: 18, "Technical Skills": 32 },
+  },
+};
+
+describe("panel editing", () => {
+  it("adds evaluators once, by trimmed name", () => {
+    const added = addEvaluator({}, " Amina ");
+    expect(added).toEqual({ Amina: {} });
+    expect(addEvaluator(added, "Amina")).toBe(added);
+    expect(addEvaluator(added, "  ")).toBe(added);
+    expect(removeEvaluator(added, "Amina")).toEqual({});
+  });
+
+  it("sets and clears scores", () => {
+    const scored = setPanelScore({ Amina: {} }, "Amina", "Ali Khan", "Education", 12);
+    expect(scored.Amina).toEqual({ "Ali Khan": { Education: 12 } });
+    expect(setPanelScore(scored, "Amina", "Ali Khan", "Education", null)).toEqual({ Amina: {} });
+  });
+
+  it("counts the criteria an evaluator has scored", () => {
+    expect(scoringProgress(fixtureData, panel, "Amina")).toEqual({ done: 3, total: 9 });
+    expect(scoringProgress(fixtureData, panel, "Nobody")).toEqual({ done: 0, total: 9 });
+  });
+});
+
+describe("buildConsensus", () => {
+  const consensus = buildConsensus(fixtureData, panel);
+  const [jane, john, ali] = consensus.candidates;
+
+  it("takes the mean per criterion and flags wide disagreement", () => {
+    expect(consensus.evaluators).toEqual(["Amina", "Bruno"]);
+    const education = jane.criteria.find((c) => c.criterion === "Education")!;
+    expect(education).toMatchObject({ scores: [16, 18], mean: 17, spread: 2, flagged: false });
+    // 16 points apart on a weight of 50 is 32%, over the 20% threshold.
+    const skills = jane.criteria.find((c) => c.criterion === "Technical Skills")!;
+    expect(skills).toMatchObject({ scores: [48, 32], mean: 40, spread: 16, flagged: true });
+    expect(jane.flags).toBe(1);
+    expect(buildConsensus(fixtureData, panel, 40).candidates[0].flags).toBe(0);
+  });
+
+  it("counts criteria nobody scored at their AI score", () => {
+    expect(jane.unscored).toBe(1);
+    expect(jane.total_score).toBe(84);
+    expect(john.unscored).toBe(2);
+    expect(john.total_score).toBe(70);
+    expect(ali).toMatchObject({ unscored: 3, total_score: 20, flags: 0 });
+    expect(ali.criteria.every((c) => c.mean == null && c.spread == null)).toBe(true);
+  });
+
+  it("ranks the consensus against the AI ranking", () => {
+    expect(consensus.ranking).toEqual([
+      { candidate_name: "Jane Doe", total_score: 84, rank: 1, ai_score: 85, ai_rank: 1, unscored: 1, flags: 1 },
+      { candidate_name: "John Smith", total_score: 70, rank: 2, ai_score: 65, ai_rank: 2, unscored: 2, flags: 0 },
+      { candidate_name: "Ali Khan", total_score: 20, rank: 3, ai_score: 20, ai_rank: 3, unscored: 3, flags: 0 },
+    ]);
+  });
+
+  it("matches the AI result when the panel has not scored anything", () => {
+    const empty = buildConsensus(fixtureData, { Amina: {} });
+    expect(empty.ranking.map((r) => [r.candidate_name, r.total_score, r.rank])).toEqual([
+      ["Jane Doe", 85, 1],
+      ["John Smith", 65, 2],
+      ["Ali Khan", 20, 3],
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+// @vitest-environment node
+import { readFile } from "node:fs/promises";
+import { saveAs } from "file-saver";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fontFamilyFor } from "@/lib/pdfFonts";
+import { generatePdfReport } from "@/lib/pdfReport";
+import type { JsonData } from "@/lib/schema";
+import { fixtureData } from "@/test/fixtures";
+
+vi.mock("file-saver", () => ({ saveAs: vi.fn() }));
+// There is no canvas in Node; every chart is drawn as a 1x1 PNG instead.
+const PIXEL = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+vi.mock("@/lib/charts", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/charts")>()),
+  svgToPng: vi.fn(async () => new Uint8Array(Buffer.from(PIXEL, "base64"))),
+}));
+
+const FONT_PACKAGE = "@expo-google-fonts/";
+
+// Serves the bundled font files from node_modules; everything else (the logo) is missing.
+const fetchFonts = vi.fn(async (input: URL | RequestInfo) => {
+  const url = String(input);
+  const at = url.indexOf(FONT_PACKAGE);
+  if (at < 0) return new Response(null, { status: 404 });
+  return new Response(new Uint8Array(await readFile(`node_modules/${url.slice(at)}`)));
+});
+
+const generate = async (data: JsonData) => {
+  await generatePdfReport(data);
+  const [blob] = vi.mocked(saveAs).mock.lastCall as [Blob, string];
+  return Buffer.from(await blob.arrayBuffer()).toString("latin1");
+};
+
+const fontsRequested = () => fetchFonts.mock.calls.map(([input]) => String(input)).filter((url) => url.endsWith(".ttf"));
+
+describe("fontFamilyFor", () => {
+  it("keeps Helvetica for Western European text", () => {
+    expect(fontFamilyFor("Café – “naïve” résumé • 100€")).toBe("helvetica");
+  });
+
+  it("picks Noto fonts for other scripts", () => {
+    expect(fontFamilyFor("Иван Петров")).toBe("NotoSans");
+    expect(fontFamilyFor("Ελένη")).toBe("NotoSans");
+    expect(fontFamilyFor("প্রকল্প প্রকৌশলী (Project Engineer)")).toBe("NotoSansBengali");
+  });
+});
+
+describe("generatePdfReport", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", fetchFonts);
+    fetchFonts.mockClear();
+  });
+
+  it("embeds no fonts for a Latin-only report", async () => {
+    const pdf = await generate(fixtureData);
+    expect(fontsRequested()).toEqual([]);
+    expect(pdf).not.toContain("/FontFile2");
+    expect(pdf).toContain("/Subtype /Image");
+  });
+
+  it("embeds Unicode fonts for Bangla and Cyrillic text", async () => {
+    const data: JsonData = {
+      ...fixtureData,
+      tor_text: "জল সরবরাহ প্রকল্পের জন্য প্রকৌশলী প্রয়োজন।",
+      candidates: fixtureData.candidates.map((c, i) => (i === 1 ? { ...c, candidate_name: "Иван Петров" } : c)),
+    };
+    const pdf = await generate(data);
+
+    expect(fontsRequested()).toHaveLength(4);
+    expect(pdf).toContain("/BaseFont /NotoSansBengali");
+    expect(pdf).toMatch(/\/BaseFont \/NotoSans\b/);
+    expect(pdf).toContain("/FontFile2");
+    expect(pdf).toContain("/Identity-H");
+    // Glyphs map back to the Bangla and Cyrillic code points, so the text stays searchable.
+    expect(pdf).toMatch(/<0995>/i);
+    expect(pdf).toMatch(/<0418>/i);
+  });
+});
@@ -0,0 +1,93 @@
+import JSZip from "jszip";
+import { saveAs } from "file-saver";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { generateDocxReport } from "@/lib/report";
+import { DEFAULT_REPORT_CONFIG } from "@/lib/reportConfig";
+import { fixtureData, legacyFixtureData } from "@/test/fixtures";
+
+vi.mock("file-saver", () => ({ saveAs: vi.fn() }));
+// jsdom cannot rasterize SVG; any bytes do for the document structure.
+vi.mock("@/lib/charts", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/charts")>()),
+  svgToPng: vi.fn(async () => new Uint8Array([0x89, 0x50, 0x4e, 0x47])),
+}));
+
+const W = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+const textOf = (node: Element) =>
+  Array.from(node.getElementsByTagNameNS(W, "t"))
+    .map((t) => t.textContent)
+    .join("");
+
+/**
+ * One line per block of the document body: headings with their level,
+ * paragraphs (images marked), and tables with their header row and size.
+ */
+const outline = (xml: string) => {
+  const body = new DOMParser().parseFromString(xml, "application/xml").getElementsByTagNameNS(W, "body")[0];
+  return Array.from(body.children).flatMap((node) => {
+    if (node.localName === "p") {
+      const style = node.getElementsByTagNameNS(W, "pStyle")[0]?.getAttributeNS(W, "val");
+      const image = node.getElementsByTagNameNS(W, "drawing").length > 0 ? "[image]" : "";
+      const text = textOf(node);
+      if (!text && !image) return [];
+      // The date is formatted in the machine's locale.
+      if (text.startsWith("Date: ")) return ["Date: <report date>"];
+      return [`${style ? `${style}: ` : ""}${image}${text}`];
+    }
+    if (node.localName === "tbl") {
+      const rows = Array.from(node.getElementsByTagNameNS(W, "tr"));
+      const header = Array.from(rows[0]?.getElementsByTagNameNS(W, "tc") ?? []).map(textOf);
+      return [`table ${rows.length}x${header.length}: ${header.join(" | ")}`];
+    }
+    return [];
+  });
+};
+
+const generate = async (...args: Parameters<typeof generateDocxReport>) => {
+  await generateDocxReport(...args);
+  const [blob, fileName] = vi.mocked(saveAs).mock.lastCall as [Blob, string];
+  const zip = await JSZip.loadAsync(blob);
+  return { fileName, outline: outline(await zip.file("word/document.xml")!.async("string")) };
+};
+
+describe("generateDocxReport", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date(2026, 0, 15));
+    // No logo: the report is produced without it.
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(null, { status: 404 })));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.mocked(saveAs).mockReset();
+  });
+
+  it("produces the full report structure", async () => {
+    const { fileName, outline } = await generate(fixtureData);
+    expect(fileName).toBe("cv_comparison_report_2026-01-15.docx");
+    expect(outline).toMatchSnapshot();
+  });
+
+  it("reports a single justification string", async () => {
+    const { outline } = await generate(legacyFixtureData);
+    const start = outline.findIndex((line) => line.endsWith("Final Recommendation"));
+    expect(outline.slice(start, start + 5)).toMatchSnapshot();
+  });
+
+  it("follows the configured sections and project details", async () => {
+    const config = {
+      ...DEFAULT_REPORT_CONFIG,
+      projectTitle: "Water Supply Review",
+      referenceNumber: "WS-7",
+      evaluators: ["A. Evaluator"],
+      signatureBlock: true,
+      sections: DEFAULT_REPORT_CONFIG.sections.map((s) => ({ ...s, enabled: s.key === "ranking" || s.key === "tor" })),
+    };
+    const { fileName, outline } = await generate(fixtureData, { config });
+    expect(fileName).toBe("water_supply_review_2026-01-15.docx");
+    expect(outline).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { NO_EVIDENCE, criterionNames, getFulfillmentForCandidate, sortMatrix } from "@/lib/results";
+import { fixtureData } from "@/test/fixtures";
+
+const [jane, john, ali] = fixtureData.candidates;
+const criteria = criterionNames(fixtureData);
+
+describe("getFulfillmentForCandidate", () => {
+  it("maps every criterion to its justification", () => {
+    expect(getFulfillmentForCandidate(jane, criteria)).toEqual({
+      Education: "MSc in Civil Engineering.",
+      "Years of Experience": "12 years in water supply.",
+      "Technical Skills": "Hydraulic modelling with EPANET.",
+    });
+  });
+
+  it("reports no evidence for the backend's no-evidence text", () => {
+    expect(getFulfillmentForCandidate(john, criteria)["Technical Skills"]).toBe(NO_EVIDENCE);
+  });
+
+  it("reports no evidence for a zero score or an empty justification", () => {
+    expect(getFulfillmentForCandidate(ali, criteria)["Technical Skills"]).toBe(NO_EVIDENCE);
+    const zeroScore = {
+      ...ali,
+      detailed_evaluation: ali.detailed_evaluation.map((d) => ({ ...d, score: 0 })),
+    };
+    expect(getFulfillmentForCandidate(zeroScore, criteria).Education).toBe(NO_EVIDENCE);
+  });
+
+  it("reports no evidence for criteria the candidate was not evaluated on", () => {
+    expect(getFulfillmentForCandidate(jane, ["Certifications"])).toEqual({ Certifications: NO_EVIDENCE });
+  });
+});
+
+describe("sortMatrix", () => {
+  it("orders rows by rank without changing the input", () => {
+    const matrix = fixtureData.comparison_matrix;
+    expect(sortMatrix(matrix).map((m) => m.candidate_name)).toEqual(["Jane Doe", "John Smith", "Ali Khan"]);
+    expect(matrix[0].candidate_name).toBe("John Smith");
+  });
+});
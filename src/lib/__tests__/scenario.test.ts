@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { resolveCriteria } from "@/lib/criteria";
+import { applyWeights, baseWeights, isBaseline, rankChange, weightSum } from "@/lib/scenario";
+import { fixtureData } from "@/test/fixtures";
+
+const grid = resolveCriteria(fixtureData);
+const base = baseWeights(grid);
+
+const totals = (rows: ReturnType<typeof applyWeights>) =>
+  Object.fromEntries(rows.map((r) => [r.candidate_name, +r.total_score.toFixed(2)]));
+
+describe("baseWeights", () => {
+  it("maps every subcriterion to its weight", () => {
+    expect(base).toEqual({ Education: 20, "Years of Experience": 30, "Technical Skills": 50 });
+    expect(weightSum(base)).toBe(100);
+  });
+
+  it("recognizes the original weights, including missing entries", () => {
+    expect(isBaseline(grid, base)).toBe(true);
+    expect(isBaseline(grid, { Education: 20 })).toBe(true);
+    expect(isBaseline(grid, { ...base, Education: 25 })).toBe(false);
+  });
+});
+
+describe("applyWeights", () => {
+  it("reproduces the original totals and ranks under the original weights", () => {
+    const rows = applyWeights(fixtureData, grid, base);
+    expect(totals(rows)).toEqual({ "Jane Doe": 85, "John Smith": 65, "Ali Khan": 20 });
+    expect(rows.map((r) => [r.candidate_name, r.rank, r.original_rank])).toEqual([
+      ["Jane Doe", 1, 1],
+      ["John Smith", 2, 2],
+      ["Ali Khan", 3, 3],
+    ]);
+    expect(rows.map(rankChange)).toEqual([0, 0, 0]);
+  });
+
+  it("normalizes the weights to 100", () => {
+    const doubled = Object.fromEntries(Object.entries(base).map(([name, w]) => [name, w * 2]));
+    expect(totals(applyWeights(fixtureData, grid, doubled))).toEqual(totals(applyWeights(fixtureData, grid, base)));
+  });
+
+  it("keeps each criterion's ratio and re-ranks under new weights", () => {
+    const data = {
+      ...fixtureData,
+      candidates: fixtureData.candidates.map((c) =>
+        c.candidate_name === "John Smith"
+          ? { ...c, detailed_evaluation: c.detailed_evaluation.map((d) => (d.criterion === "Education" ? { ...d, score: 20 } : d)) }
+          : c
+      ),
+    };
+    const rows = applyWeights(data, grid, { Education: 100, "Years of Experience": 0, "Technical Skills": 0 });
+    expect(totals(rows)).toEqual({ "John Smith": 100, "Jane Doe": 90, "Ali Khan": 50 });
+    expect(rows.map((r) => [r.candidate_name, r.original_score, rankChange(r)])).toEqual([
+      ["John Smith", 65, 1],
+      ["Jane Doe", 85, -1],
+      ["Ali Khan", 20, 0],
+    ]);
+  });
+
+  it("scores everyone 0 when every weight is 0", () => {
+    const rows = applyWeights(fixtureData, grid, { Education: 0, "Years of Experience": 0, "Technical Skills": 0 });
+    expect(rows.every((r) => r.total_score === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { parseJsonData, rankByScore, type SchemaWarning } from "@/lib/schema";
+import { fixtureData, legacyFixtureData } from "@/test/fixtures";
+
+describe("rankByScore", () => {
+  it("ranks by total score, highest first", () => {
+    expect(
+      rankByScore([
+        { candidate_name: "B", total_score: 40 },
+        { candidate_name: "A", total_score: 72.5 },
+        { candidate_name: "C", total_score: 12 },
+      ])
+    ).toEqual([
+      { candidate_name: "A", total_score: 72.5, rank: 1 },
+      { candidate_name: "B", total_score: 40, rank: 2 },
+      { candidate_name: "C", total_score: 12, rank: 3 },
+    ]);
+  });
+});
+
+// Warnings outside the fixed `scores` block, which the fixture leaves empty.
+const warningPaths = (warnings: SchemaWarning[]) =>
+  warnings.map((w) => w.path).filter((path) => !/^candidates\[\d+\]\.scores\./.test(path));
+
+describe("parseJsonData", () => {
+  it("keeps the ranking and a structured justification", () => {
+    const { data, warnings } = parseJsonData(fixtureData);
+    expect(warningPaths(warnings)).toEqual([]);
+    expect(data.comparison_matrix).toEqual(fixtureData.comparison_matrix);
+    expect(data.final_recommendation).toEqual(fixtureData.final_recommendation);
+  });
+
+  it("keeps a justification sent as a single string", () => {
+    const { data, warnings } = parseJsonData(legacyFixtureData);
+    expect(warningPaths(warnings)).toEqual([]);
+    expect(data.final_recommendation.justification).toBe("Jane Doe is the strongest candidate.");
+  });
+
+  it("replaces a justification of another shape with an empty string", () => {
+    const raw = { ...fixtureData, final_recommendation: { ...fixtureData.final_recommendation, justification: 42 } };
+    const { data, warnings } = parseJsonData(raw);
+    expect(data.final_recommendation.justification).toBe("");
+    expect(warningPaths(warnings)).toContain("final_recommendation.justification");
+  });
+
+  it("recomputes the ranking when the comparison matrix is missing", () => {
+    const { data, warnings } = parseJsonData({ ...fixtureData, comparison_matrix: undefined });
+    expect(data.comparison_matrix.map((m) => [m.candidate_name, m.rank])).toEqual([
+      ["Jane Doe", 1],
+      ["John Smith", 2],
+      ["Ali Khan", 3],
+    ]);
+    expect(warningPaths(warnings)).toContain("comparison_matrix");
+  });
+});
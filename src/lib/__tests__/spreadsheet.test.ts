@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { buildSheets, escapeFormula, toCsv } from "@/lib/spreadsheet";
+import { fixtureData } from "@/test/fixtures";
+
+describe("toCsv", () => {
+  it("quotes separators, quotes and line breaks", () => {
+    expect(toCsv([["Name", "Note"], ["Doe, Jane", 'Said "yes"\nlater'], [null, 85]])).toBe(
+      'Name,Note\r\n"Doe, Jane","Said ""yes""\nlater"\r\n,85'
+    );
+  });
+
+  it("neutralizes cells that would run as formulas", () => {
+    expect(toCsv([["=HYPERLINK(\"http://x\")", "+1", "-2", "@SUM(A1)", "\tcmd", "\rcmd", -3]])).toBe(
+      `"'=HYPERLINK(""http://x"")",'+1,'-2,'@SUM(A1),'\tcmd,"'\rcmd",-3`
+    );
+  });
+});
+
+describe("escapeFormula", () => {
+  it("leaves numbers, empty cells and plain text alone", () => {
+    expect(escapeFormula(-3)).toBe(-3);
+    expect(escapeFormula(null)).toBeNull();
+    expect(escapeFormula("Jane Doe")).toBe("Jane Doe");
+  });
+
+  it("guards candidate names from the model", () => {
+    const data = {
+      ...fixtureData,
+      candidates: fixtureData.candidates.map((c, i) => (i === 0 ? { ...c, candidate_name: "=cmd|' /C calc'!A0" } : c)),
+    };
+    const [, evaluation] = buildSheets(data);
+    expect(toCsv(evaluation.rows).split("\r\n")[1]).toMatch(/^'=cmd\|' \/C calc'!A0,/);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CRITERIA } from "@/lib/criteria";
+import type { CvPreview } from "@/lib/cvText";
+import { MAX_CVS } from "@/lib/cvValidation";
+import { canReachStep, firstIncompleteStep, validateStep, type WizardState } from "@/lib/wizard";
+
+const cv = new File(["Jane Doe"], "jane.txt", { type: "text/plain" });
+
+const complete: WizardState = {
+  tor: "Senior water engineer",
+  torBusy: false,
+  criteria: DEFAULT_CRITERIA,
+  files: [cv],
+  previews: new Map(),
+  hasResults: false,
+};
+
+describe("validateStep", () => {
+  it("requires ToR text and a finished extraction", () => {
+    expect(validateStep("tor", { ...complete, tor: "  " })).toEqual([
+      "Please enter ToR text or upload a ToR image to extract text.",
+    ]);
+    expect(validateStep("tor", { ...complete, torBusy: true })).toEqual([
+      "Please wait for the ToR text extraction to finish.",
+    ]);
+    expect(validateStep("tor", complete)).toEqual([]);
+  });
+
+  it("prefixes criteria problems", () => {
+    const errors = validateStep("criteria", { ...complete, criteria: [] });
+    expect(errors[0]).toBe("Evaluation criteria: Add at least one evaluation category.");
+    expect(errors.every((e) => e.startsWith("Evaluation criteria: "))).toBe(true);
+    expect(validateStep("criteria", complete)).toEqual([]);
+  });
+
+  it("requires between one and the maximum number of CVs, none still in OCR", () => {
+    expect(validateStep("cvs", { ...complete, files: [] })).toEqual(["Please upload at least one CV file."]);
+    expect(validateStep("cvs", { ...complete, files: Array(MAX_CVS + 1).fill(cv) })).toEqual([
+      `Maximum ${MAX_CVS} CVs allowed.`,
+    ]);
+    const previews = new Map([[cv, { status: "ocr" } as CvPreview]]);
+    expect(validateStep("cvs", { ...complete, previews })).toEqual([
+      "Please wait for CV text recognition to finish or cancel it.",
+    ]);
+  });
+});
+
+describe("firstIncompleteStep", () => {
+  it("returns the earliest incomplete step before the target", () => {
+    const state = { ...complete, tor: "", files: [] };
+    expect(firstIncompleteStep(state, "review")?.step).toBe("tor");
+    expect(firstIncompleteStep({ ...state, tor: "ToR" }, "review")?.step).toBe("cvs");
+    expect(firstIncompleteStep(state, "tor")).toBeNull();
+    expect(firstIncompleteStep(complete, "review")).toBeNull();
+  });
+});
+
+describe("canReachStep", () => {
+  it("always allows going back", () => {
+    expect(canReachStep("tor", "review", { ...complete, tor: "" })).toBe(true);
+  });
+
+  it("allows going forward once the steps before are complete", () => {
+    expect(canReachStep("review", "tor", complete)).toBe(true);
+    expect(canReachStep("review", "tor", { ...complete, files: [] })).toBe(false);
+  });
+
+  it("only opens results once there are results", () => {
+    expect(canReachStep("results", "review", complete)).toBe(false);
+    expect(canReachStep("results", "tor", { ...complete, tor: "", hasResults: true })).toBe(true);
+  });
+});
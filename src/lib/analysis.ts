@@ -0,0 +1,210 @@
+// Client side of the CV comparison endpoint.
+//
+// The backend may answer a submission in one of three ways:
+// - `text/event-stream`: Server-Sent Events named `progress`, `candidate`,
+//   `result` and `error`, ending with the full comparison in `result`;
+// - `202 Accepted` with `{ job_id, status_url? }`: a job that is polled until
+//   it reports `done` or `failed`;
+// - any other JSON body: the whole comparison at once (the original mode).
+// All three resolve to the raw comparison JSON, ready for `parseJsonData`.
+// Requests go through a `Send` transport (see `lib/http`), which handles
+// timeouts, retries and HTTP errors.
+
+import { ServerError, errorMessage, readJson, type Send } from "@/lib/http";
+
+export type CvProgressStatus = "queued" | "processing" | "done" | "error";
+
+export interface CvProgress {
+  file: string;
+  status: CvProgressStatus;
+  message?: string;
+}
+
+export type AnalysisEvent =
+  | { type: "progress"; progress: CvProgress }
+  // One candidate's evaluation, in the same shape as `candidates[]` of the result.
+  | { type: "candidate"; candidate: unknown };
+
+export interface AnalysisOptions {
+  signal?: AbortSignal;
+  onEvent?: (event: AnalysisEvent) => void;
+  pollInterval?: number;
+  // How long to wait for the submission's response headers.
+  timeout?: number;
+}
+
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super("The analysis was cancelled.");
+    this.name = "AnalysisCancelledError";
+  }
+}
+
+interface JobStatus {
+  status?: "queued" | "running" | "done" | "failed";
+  files?: CvProgress[];
+  candidates?: unknown[];
+  result?: unknown;
+  error?: string;
+}
+
+const POLL_INTERVAL = 1500;
+const PROGRESS_STATUSES: CvProgressStatus[] = ["queued", "processing", "done", "error"];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toProgress = (value: unknown): CvProgress | null => {
+  if (!isRecord(value)) return null;
+  const file = value.file ?? value.filename;
+  const status = value.status as CvProgressStatus;
+  if (typeof file !== "string" || !PROGRESS_STATUSES.includes(status)) return null;
+  return { file, status, message: typeof value.message === "string" ? value.message : undefined };
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new AnalysisCancelledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AnalysisCancelledError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Splits an SSE byte stream into `{ event, data }` messages. Aborting
+ * `signal` cancels the stream and rejects with `AnalysisCancelledError`.
+ */
+async function* readEvents(body: ReadableStream<Uint8Array>, signal?: AbortSignal) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  const onAbort = () => reader.cancel().catch(() => {});
+  signal?.addEventListener("abort", onAbort, { once: true });
+  try {
+    while (true) {
+      if (signal?.aborted) throw new AnalysisCancelledError();
+      const { done, value } = await reader.read();
+      if (signal?.aborted) throw new AnalysisCancelledError();
+      buffer += decoder.decode(value, { stream: !done }).replace(/\r\n?/g, "\n");
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary >= 0) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        let event = "message";
+        const data: string[] = [];
+        block.split("\n").forEach((line) => {
+          if (line.startsWith("event:")) event = line.slice(6).trim();
+          else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+        });
+        if (data.length > 0) yield { event, data: data.join("\n") };
+        boundary = buffer.indexOf("\n\n");
+      }
+      if (done) return;
+    }
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    reader.releaseLock();
+  }
+}
+
+const readStream = async (res: Response, { signal, onEvent }: AnalysisOptions) => {
+  if (!res.body) throw new ServerError("The server sent an empty progress stream.");
+  const candidates: unknown[] = [];
+  for await (const { event, data } of readEvents(res.body, signal)) {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(data);
+    } catch {
+      continue;
+    }
+    if (event === "progress") {
+      const progress = toProgress(payload);
+      if (progress) onEvent?.({ type: "progress", progress });
+    } else if (event === "candidate") {
+      candidates.push(payload);
+      onEvent?.({ type: "candidate", candidate: payload });
+    } else if (event === "result") {
+      return payload;
+    } else if (event === "error") {
+      throw new ServerError(errorMessage(payload, "Failed to process CVs."));
+    }
+  }
+  // The stream ended without a final result; fall back to what arrived.
+  if (candidates.length > 0) return { candidates };
+  throw new ServerError("The server closed the connection before the comparison finished.");
+};
+
+const pollJob = async (send: Send, statusUrl: string, options: AnalysisOptions) => {
+  const { signal, onEvent, pollInterval = POLL_INTERVAL } = options;
+  const seen = new Map<string, string>();
+  let received = 0;
+  try {
+    while (true) {
+      const job = (await readJson(await send(statusUrl, {}, { signal }))) as JobStatus;
+
+      (job.files ?? []).forEach((value) => {
+        const progress = toProgress(value);
+        if (!progress) return;
+        const key = `${progress.status}:${progress.message ?? ""}`;
+        if (seen.get(progress.file) === key) return;
+        seen.set(progress.file, key);
+        onEvent?.({ type: "progress", progress });
+      });
+      (job.candidates ?? []).slice(received).forEach((candidate) => {
+        onEvent?.({ type: "candidate", candidate });
+      });
+      received = Math.max(received, job.candidates?.length ?? 0);
+
+      if (job.status === "done") return job.result ?? { candidates: job.candidates ?? [] };
+      if (job.status === "failed") throw new ServerError(job.error || "Failed to process CVs.");
+      await sleep(pollInterval, signal);
+    }
+  } catch (err) {
+    if (signal?.aborted) {
+      // Best effort: let the backend stop work nobody is waiting for.
+      send(statusUrl, { method: "DELETE" }).catch(() => {});
+    }
+    throw err;
+  }
+};
+
+/**
+ * Submits CVs for comparison and resolves to the raw comparison JSON.
+ * Aborting `options.signal` rejects with `AnalysisCancelledError`.
+ */
+export const runAnalysis = async (send: Send, url: string, body: FormData, options: AnalysisOptions = {}) => {
+  const { signal, timeout } = options;
+  try {
+    const res = await send(
+      url,
+      { method: "POST", body, headers: { Accept: "text/event-stream, application/json" } },
+      { signal, timeout, idempotent: false }
+    );
+
+    if (res.headers.get("content-type")?.includes("text/event-stream")) {
+      return await readStream(res, options);
+    }
+
+    const json = await readJson(res);
+
+    if (res.status === 202 && isRecord(json) && json.job_id != null) {
+      // `url` may be relative to the page, e.g. the app's own proxy route.
+      const base = new URL(url, globalThis.location?.href);
+      const statusUrl =
+        typeof json.status_url === "string"
+          ? new URL(json.status_url, base).toString()
+          : new URL(`${encodeURIComponent(String(json.job_id))}/`, base.href.endsWith("/") ? base : `${base.href}/`).toString();
+      return await pollJob(send, statusUrl, options);
+    }
+    return json;
+  } catch (err) {
+    if (signal?.aborted) throw new AnalysisCancelledError();
+    throw err;
+  }
+};
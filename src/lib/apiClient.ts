@@ -0,0 +1,82 @@
+// Typed client for the compare-cvs backend.
+//
+// Requests always go to this app's `/api/compare` proxy route, which holds
+// the backend address and credentials and enforces the upload limits (see
+// `lib/backendProxy`). Settings come from `NEXT_PUBLIC_API_*` environment
+// variables:
+// - `NEXT_PUBLIC_API_TIMEOUT_MS`: wait for status and other short requests;
+// - `NEXT_PUBLIC_API_ANALYSIS_TIMEOUT_MS`: wait for the submission to be answered;
+// - `NEXT_PUBLIC_API_RETRIES`: retries of transient failures;
+// - `NEXT_PUBLIC_API_MOCK=1`: serve requests from `lib/mockBackend` instead.
+// Failures surface as the error classes of `lib/http`.
+
+import { runAnalysis, type AnalysisOptions } from "@/lib/analysis";
+import { PROXY_PATH } from "@/lib/apiRoutes";
+import { toApiCriteria, type CriteriaGrid } from "@/lib/criteria";
+import { ServerError, createTransport, type TransportConfig } from "@/lib/http";
+import { createMockFetch } from "@/lib/mockBackend";
+import { parseJsonData, type ParseResult } from "@/lib/schema";
+
+export interface ApiClientConfig extends TransportConfig {
+  url: string;
+  analysisTimeout: number;
+  mock: boolean;
+}
+
+export interface CompareCvsRequest {
+  tor: string;
+  criteria: CriteriaGrid;
+  cvs: File[];
+}
+
+export interface ApiClient {
+  readonly config: ApiClientConfig;
+  /** Submits CVs and resolves to the validated comparison. */
+  compareCvs: (request: CompareCvsRequest, options?: Omit<AnalysisOptions, "timeout">) => Promise<ParseResult>;
+}
+
+export const DEFAULT_API_CONFIG: ApiClientConfig = {
+  url: PROXY_PATH,
+  timeout: 30_000,
+  // Without streaming the backend answers only once every CV is scored.
+  analysisTimeout: 10 * 60_000,
+  retries: 2,
+  retryDelay: 1000,
+  mock: false,
+};
+
+const envNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Next.js only inlines `process.env.NEXT_PUBLIC_*` when referenced by full name.
+export const apiConfigFromEnv = (): ApiClientConfig => ({
+  ...DEFAULT_API_CONFIG,
+  timeout: envNumber(process.env.NEXT_PUBLIC_API_TIMEOUT_MS, DEFAULT_API_CONFIG.timeout),
+  analysisTimeout: envNumber(process.env.NEXT_PUBLIC_API_ANALYSIS_TIMEOUT_MS, DEFAULT_API_CONFIG.analysisTimeout),
+  retries: envNumber(process.env.NEXT_PUBLIC_API_RETRIES, DEFAULT_API_CONFIG.retries),
+  mock: process.env.NEXT_PUBLIC_API_MOCK === "1" || process.env.NEXT_PUBLIC_API_MOCK === "true",
+});
+
+export const createApiClient = (overrides: Partial<ApiClientConfig> = {}): ApiClient => {
+  const config = { ...apiConfigFromEnv(), ...overrides };
+  const send = createTransport(config.mock ? { ...config, fetch: config.fetch ?? createMockFetch() } : config);
+
+  return {
+    config,
+    compareCvs: async (request, options = {}) => {
+      const body = new FormData();
+      body.append("tor", request.tor); // Send typed or extracted ToR text
+      body.append("criteria", JSON.stringify(toApiCriteria(request.criteria)));
+      request.cvs.forEach((file) => body.append("cvs", file));
+
+      const json = await runAnalysis(send, config.url, body, { ...options, timeout: config.analysisTimeout });
+      try {
+        return parseJsonData(json);
+      } catch (err) {
+        throw new ServerError(err instanceof Error ? err.message : "The server returned an unreadable response.");
+      }
+    },
+  };
+};
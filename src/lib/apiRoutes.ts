@@ -0,0 +1,5 @@
+// Paths of this app's own API routes, shared by the client and the route
+// handlers. Kept apart from `lib/backendProxy` so the client bundle does not
+// pull in server code.
+
+export const PROXY_PATH = "/api/compare";
@@ -0,0 +1,240 @@
+// Server side of `app/api/compare`: forwards CV submissions from the browser
+// to the compare-cvs backend, so the backend address and its credentials
+// never reach the client. Only import this from route handlers; the client
+// gets the route's path from `lib/apiRoutes`.
+//
+// Settings come from server-only environment variables:
+// - `BACKEND_API_URL`: the backend's compare-cvs endpoint. The former
+//   browser-side `NEXT_PUBLIC_API_URL` is not read: it would publish the
+//   backend address in the client bundle. Required in production; during
+//   development it defaults to a backend on localhost;
+// - `BACKEND_API_KEY`: sent as `Authorization: Bearer <key>`, or in the
+//   header named by `BACKEND_API_KEY_HEADER` (e.g. `X-API-Key`);
+// - `BACKEND_TIMEOUT_MS`: wait for the backend's response headers.
+//
+// Jobs (`202 Accepted`) are polled through `/api/compare/<job_id>`, which the
+// proxy forwards to `<BACKEND_API_URL>/<job_id>/`.
+
+import { PROXY_PATH } from "@/lib/apiRoutes";
+import { BATCH_SIZE } from "@/lib/batch";
+import { MAX_CV_SIZE, formatSize, tooLargeReason, type RejectedCv } from "@/lib/cvValidation";
+import {
+  ApiError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+  createTransport,
+} from "@/lib/http";
+
+// Job ids are opaque tokens from the backend. Anything else, such as `..`,
+// would let a caller reach other backend paths with the proxy's credentials.
+const JOB_ID = /^[A-Za-z0-9_-]+$/;
+
+export const DEFAULT_BACKEND_URL = "http://localhost:8000/api/compare-cvs/";
+
+// One request carries at most one batch (see `lib/batch`).
+export const MAX_CVS_PER_REQUEST = BATCH_SIZE;
+// Room for the ToR text, criteria and multipart framing on top of the CVs.
+export const MAX_REQUEST_SIZE = MAX_CVS_PER_REQUEST * MAX_CV_SIZE + 2 * 1024 * 1024;
+
+export interface BackendConfig {
+  url: string;
+  apiKey?: string;
+  apiKeyHeader?: string;
+  timeout: number;
+}
+
+export const backendConfigFromEnv = (): BackendConfig => {
+  const timeout = Number(process.env.BACKEND_TIMEOUT_MS);
+  return {
+    url: process.env.BACKEND_API_URL || (process.env.NODE_ENV === "production" ? "" : DEFAULT_BACKEND_URL),
+    apiKey: process.env.BACKEND_API_KEY || undefined,
+    apiKeyHeader: process.env.BACKEND_API_KEY_HEADER || undefined,
+    timeout: Number.isFinite(timeout) && timeout > 0 ? timeout : 10 * 60_000,
+  };
+};
+
+// The browser already retries transient failures; retrying here as well
+// would multiply the attempts.
+const send = (config: BackendConfig) => createTransport({ timeout: config.timeout, retries: 0, retryDelay: 0 });
+
+const backendHeaders = (config: BackendConfig, request: Request, requestId: string) => {
+  const headers = new Headers({ "X-Request-Id": requestId });
+  const accept = request.headers.get("accept");
+  if (accept) headers.set("Accept", accept);
+  if (config.apiKey) {
+    if (config.apiKeyHeader) headers.set(config.apiKeyHeader, config.apiKey);
+    else headers.set("Authorization", `Bearer ${config.apiKey}`);
+  }
+  return headers;
+};
+
+export const jsonError = (status: number, error: string, details?: unknown, headers?: HeadersInit) =>
+  Response.json(details === undefined ? { error } : { error, details }, { status, headers });
+
+const misconfigured = () => jsonError(502, "The analysis service is misconfigured. Please contact the administrator.");
+
+/** Reports a deployment without `BACKEND_API_URL`; `null` when it is set. */
+const missingBackend = (config: BackendConfig, requestId: string) => {
+  if (config.url) return null;
+  console.error(`[${PROXY_PATH}] ${requestId} BACKEND_API_URL is not set`);
+  return misconfigured();
+};
+
+/** Maps a failed backend call to the `{ error, details }` body the client expects. */
+export const errorResponse = (err: unknown, requestId: string) => {
+  if (err instanceof DOMException && err.name === "AbortError") {
+    // The browser went away; nobody reads this response.
+    return new Response(null, { status: 499 });
+  }
+  if (err instanceof RateLimitError) {
+    const retryAfter = err.retryAfter != null ? { "Retry-After": String(Math.ceil(err.retryAfter / 1000)) } : undefined;
+    return jsonError(429, err.message, undefined, retryAfter);
+  }
+  if (err instanceof ValidationError) {
+    if (err.status === 401 || err.status === 403) {
+      console.error(`[${PROXY_PATH}] ${requestId} backend rejected the proxy credentials (${err.status})`);
+      return misconfigured();
+    }
+    return jsonError(err.status ?? 400, err.message, err.details);
+  }
+  if (err instanceof TimeoutError) return jsonError(504, "The analysis service did not respond in time.");
+  if (err instanceof NetworkError) {
+    console.error(`[${PROXY_PATH}] ${requestId} backend unreachable`);
+    return jsonError(502, "The analysis service is unavailable. Please try again later.");
+  }
+  if (err instanceof ServerError || err instanceof ApiError) {
+    return jsonError(err.status && err.status >= 500 ? err.status : 502, err.message);
+  }
+  console.error("Proxy error:", err);
+  return jsonError(500, "Unexpected error while contacting the analysis service.");
+};
+
+const logTiming = (requestId: string, label: string, started: number, status: number, extra = "") =>
+  console.info(`[${PROXY_PATH}] ${requestId} ${label} ${status} in ${Math.round(performance.now() - started)}ms${extra}`);
+
+/**
+ * Passes the backend's answer through. Event streams are piped as they
+ * arrive and logged when they end; job tickets get a status URL on this proxy.
+ */
+const relay = async (res: Response, onDone: (status: number) => void) => {
+  const type = res.headers.get("content-type") ?? "application/json";
+  if (type.includes("text/event-stream") && res.body) {
+    const body = res.body.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({ flush: () => onDone(res.status) })
+    );
+    return new Response(body, {
+      status: res.status,
+      headers: { "Content-Type": type, "Cache-Control": "no-cache", "X-Accel-Buffering": "no" },
+    });
+  }
+
+  const text = await res.text();
+  onDone(res.status);
+  if (res.status === 202) {
+    try {
+      const job = JSON.parse(text);
+      if (job && job.job_id != null) {
+        return Response.json(
+          { ...job, status_url: `${PROXY_PATH}/${encodeURIComponent(String(job.job_id))}` },
+          { status: 202 }
+        );
+      }
+    } catch {
+      // Not a job ticket; the client reports the body as it is.
+    }
+  }
+  return new Response(text, { status: res.status, headers: { "Content-Type": type } });
+};
+
+const checkUpload = (form: FormData): Response | null => {
+  const cvs = form.getAll("cvs");
+  const files = cvs.filter((f): f is File => f instanceof File);
+  if (files.length === 0 || files.length !== cvs.length) {
+    return jsonError(400, "At least one CV file is required.");
+  }
+  if (files.length > MAX_CVS_PER_REQUEST) {
+    return jsonError(413, `At most ${MAX_CVS_PER_REQUEST} CVs can be sent in one request.`);
+  }
+  const rejected: RejectedCv[] = files
+    .filter((f) => f.size > MAX_CV_SIZE)
+    .map((f) => ({ name: f.name, reason: tooLargeReason(f.size) }));
+  if (rejected.length > 0) return jsonError(413, "Some CVs are too large.", { rejected });
+  const tor = form.get("tor");
+  if (typeof tor !== "string" || !tor.trim()) return jsonError(400, "ToR text is required.");
+  return null;
+};
+
+/** Handles `POST /api/compare`: validates the upload and forwards it. */
+export const proxySubmission = async (request: Request, config = backendConfigFromEnv()) => {
+  const requestId = crypto.randomUUID();
+  const started = performance.now();
+  const unset = missingBackend(config, requestId);
+  if (unset) return unset;
+
+  // The limit is checked before anything is read; a body of unknown length
+  // would have to be buffered first.
+  const header = request.headers.get("content-length");
+  const length = header ? Number(header) : NaN;
+  if (!Number.isFinite(length)) {
+    logTiming(requestId, "POST", started, 411);
+    return jsonError(411, "The upload must state its size (Content-Length).");
+  }
+  if (length > MAX_REQUEST_SIZE) {
+    logTiming(requestId, "POST", started, 413);
+    return jsonError(413, `The upload exceeds the ${formatSize(MAX_REQUEST_SIZE)} request limit.`);
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    logTiming(requestId, "POST", started, 400);
+    return jsonError(400, "Expected a multipart form with tor, criteria and cvs fields.");
+  }
+  const invalid = checkUpload(form);
+  if (invalid) {
+    logTiming(requestId, "POST", started, invalid.status);
+    return invalid;
+  }
+
+  const files = form.getAll("cvs") as File[];
+  const summary = ` (${files.length} CVs, ${formatSize(files.reduce((acc, f) => acc + f.size, 0))})`;
+  try {
+    const res = await send(config)(
+      config.url,
+      { method: "POST", body: form, headers: backendHeaders(config, request, requestId) },
+      { signal: request.signal, idempotent: false }
+    );
+    return await relay(res, (status) => logTiming(requestId, "POST", started, status, summary));
+  } catch (err) {
+    const response = errorResponse(err, requestId);
+    logTiming(requestId, "POST", started, response.status, summary);
+    return response;
+  }
+};
+
+/** Handles `GET` and `DELETE /api/compare/<job_id>` for polled jobs. */
+export const proxyJob = async (request: Request, jobId: string, config = backendConfigFromEnv()) => {
+  if (!JOB_ID.test(jobId)) return jsonError(400, "Invalid job id.");
+  const requestId = crypto.randomUUID();
+  const started = performance.now();
+  const unset = missingBackend(config, requestId);
+  if (unset) return unset;
+  const base = config.url.endsWith("/") ? config.url : `${config.url}/`;
+  const url = new URL(`${jobId}/`, base).toString();
+  try {
+    const res = await send(config)(
+      url,
+      { method: request.method, headers: backendHeaders(config, request, requestId) },
+      { signal: request.signal }
+    );
+    return await relay(res, (status) => logTiming(requestId, `${request.method} job`, started, status));
+  } catch (err) {
+    const response = errorResponse(err, requestId);
+    logTiming(requestId, `${request.method} job`, started, response.status);
+    return response;
+  }
+};
@@ -0,0 +1,127 @@
+// Batch mode: the backend compares at most BATCH_SIZE CVs per request, so
+// larger sets are split into batches against the same ToR and criteria and
+// the answers are merged into one ranking here.
+
+import {
+  rankByScore,
+  type Candidate,
+  type FinalRecommendation,
+  type JsonData,
+  type SchemaWarning,
+} from "@/lib/schema";
+
+export const BATCH_SIZE = 10;
+export const BATCH_CONCURRENCY = 2;
+
+export type BatchStatus = "pending" | "running" | "done" | "failed";
+
+export interface Batch {
+  index: number;
+  files: File[];
+  status: BatchStatus;
+  error?: string;
+  result?: JsonData;
+  warnings?: SchemaWarning[];
+}
+
+export const createBatches = (files: File[], size = BATCH_SIZE): Batch[] =>
+  Array.from({ length: Math.ceil(files.length / size) }, (_, index) => ({
+    index,
+    files: files.slice(index * size, (index + 1) * size),
+    status: "pending",
+  }));
+
+/** Runs `task` over `items` with at most `concurrency` in flight, in order. */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  task: (item: T) => Promise<void>,
+  concurrency = BATCH_CONCURRENCY
+) => {
+  const queue = [...items];
+  const worker = async () => {
+    for (let item = queue.shift(); item !== undefined; item = queue.shift()) await task(item);
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+};
+
+const uniqueName = (name: string, taken: Set<string>, batch: number) => {
+  if (!taken.has(name)) return name;
+  let candidate = `${name} (batch ${batch + 1})`;
+  for (let n = 2; taken.has(candidate); n++) candidate = `${name} (batch ${batch + 1}, ${n})`;
+  return candidate;
+};
+
+/** Points the recommendation at the names its batch's candidates were merged under. */
+const renameRecommendation = (recommendation: FinalRecommendation, renamed: Map<string, string>): FinalRecommendation => {
+  const rename = (name: string) => renamed.get(name) ?? name;
+  const { justification } = recommendation;
+  return {
+    ...recommendation,
+    best_candidate: rename(recommendation.best_candidate),
+    justification:
+      typeof justification === "string"
+        ? justification
+        : {
+            ...justification,
+            why_not_others: justification.why_not_others.map((other) => ({
+              ...other,
+              candidate_name: rename(other.candidate_name),
+            })),
+          },
+  };
+};
+
+/**
+ * Merges finished batches into one comparison. Candidates are concatenated
+ * (renaming clashes so names stay unique keys) and ranked by total score
+ * across all batches. The final recommendation is taken from the batch
+ * holding the overall top candidate, since no batch saw every CV.
+ */
+export const mergeBatchResults = (batches: { index: number; result: JsonData }[]) => {
+  const warnings: SchemaWarning[] = [];
+  if (batches.length === 1) return { data: batches[0].result, warnings };
+
+  const taken = new Set<string>();
+  const candidates: Candidate[] = [];
+  const origin = new Map<string, number>();
+  // Per batch, the original names of the candidates that had to be renamed.
+  const renames = new Map<number, Map<string, string>>();
+  batches.forEach(({ index, result }) =>
+    result.candidates.forEach((candidate) => {
+      const candidate_name = uniqueName(candidate.candidate_name, taken, index);
+      if (candidate_name !== candidate.candidate_name) {
+        const renamed = renames.get(index) ?? new Map<string, string>();
+        renames.set(index, renamed);
+        if (!renamed.has(candidate.candidate_name)) renamed.set(candidate.candidate_name, candidate_name);
+        warnings.push({
+          path: `candidates[${candidates.length}]`,
+          message: `${candidate.candidate_name} appears in more than one batch; renamed to ${candidate_name}`,
+        });
+      }
+      taken.add(candidate_name);
+      origin.set(candidate_name, index);
+      candidates.push({ ...candidate, candidate_name });
+    })
+  );
+
+  const comparison_matrix = rankByScore(
+    candidates.map((c) => ({ candidate_name: c.candidate_name, total_score: c.scores.total_score ?? 0 }))
+  );
+  const topBatch = origin.get(comparison_matrix[0]?.candidate_name) ?? batches[0].index;
+  const recommendation = batches.find((b) => b.index === topBatch)?.result ?? batches[0].result;
+  warnings.push({
+    path: "final_recommendation",
+    message: `written for batch ${topBatch + 1} only; the ranking was recomputed across all ${batches.length} batches`,
+  });
+
+  return {
+    data: {
+      tor_text: batches[0].result.tor_text,
+      criteria: batches[0].result.criteria,
+      candidates,
+      comparison_matrix,
+      final_recommendation: renameRecommendation(recommendation.final_recommendation, renames.get(topBatch) ?? new Map()),
+    } satisfies JsonData,
+    warnings,
+  };
+};
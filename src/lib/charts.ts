@@ -0,0 +1,204 @@
+// Score charts: data preparation, SVG markup and rasterizing. The charts are
+// built as plain SVG strings with inline styling (no Tailwind classes), so the
+// same markup is shown on screen by `@/components/ScoreCharts` and embedded
+// in the DOCX and PDF reports.
+
+import { scoreBreakdown, type CriteriaGrid } from "@/lib/criteria";
+import { sortMatrix } from "@/lib/results";
+import type { JsonData } from "@/lib/schema";
+
+export const SERIES_COLORS = ["#2563eb", "#dc2626", "#16a34a", "#d97706", "#7c3aed", "#0891b2"];
+export const CATEGORY_COLORS = ["#1e3a8a", "#b91c1c", "#0f766e", "#a16207", "#6d28d9", "#be185d", "#374151"];
+
+export interface RadarSeries {
+  name: string;
+  // One value per axis, as a share of the criterion weight (0–1); null when not scored.
+  values: (number | null)[];
+}
+
+export interface StackedBar {
+  name: string;
+  segments: (number | null)[];
+}
+
+export const radarAxes = (grid: CriteriaGrid) => grid.flatMap((c) => c.subcriteria.map((s) => s.name));
+
+export const radarSeries = (data: JsonData, grid: CriteriaGrid, names: string[]): RadarSeries[] =>
+  names.flatMap((name) => {
+    const candidate = data.candidates.find((c) => c.candidate_name === name);
+    if (!candidate) return [];
+    const values = scoreBreakdown(candidate, grid).categories.flatMap((category) =>
+      category.items.map((item) =>
+        item.score != null && item.weight > 0 ? Math.min(Math.max(item.score / item.weight, 0), 1) : null
+      )
+    );
+    return [{ name, values }];
+  });
+
+/** Category totals per candidate, in ranking order. */
+export const rankingBars = (data: JsonData, grid: CriteriaGrid): StackedBar[] => {
+  const ranked = sortMatrix(data.comparison_matrix).map((m) => m.candidate_name);
+  const ordered = [
+    ...ranked.flatMap((name) => data.candidates.filter((c) => c.candidate_name === name)),
+    ...data.candidates.filter((c) => !ranked.includes(c.candidate_name)),
+  ];
+  return ordered.map((candidate) => ({
+    name: candidate.candidate_name || "Unnamed Candidate",
+    segments: scoreBreakdown(candidate, grid).categories.map((c) => c.total),
+  }));
+};
+
+export const truncateLabel = (label: string, max = 24) =>
+  label.length > max ? `${label.slice(0, max - 1)}…` : label;
+
+const FONT = "Arial, Helvetica, sans-serif";
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" })[c] ?? c);
+
+const svgDocument = (width: number, height: number, label: string, body: string[]) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ` +
+  `role="img" aria-label="${label}" font-family="${FONT}">` +
+  `<rect width="${width}" height="${height}" fill="#ffffff"/>${body.join("")}</svg>`;
+
+export const RADAR_SIZE = 440;
+
+export const radarHeight = (series: number, size = RADAR_SIZE) => size + 20 * Math.ceil(series / 2) + 10;
+
+export interface RadarChartOptions {
+  axes: string[];
+  series: RadarSeries[];
+  size?: number;
+}
+
+export const radarChartSvg = ({ axes, series, size = RADAR_SIZE }: RadarChartOptions) => {
+  const height = radarHeight(series.length, size);
+  const center = size / 2;
+  const radius = size / 2 - 90;
+  const angle = (i: number) => (Math.PI * 2 * i) / axes.length - Math.PI / 2;
+  const point = (i: number, value: number) => [
+    center + Math.cos(angle(i)) * radius * value,
+    center + Math.sin(angle(i)) * radius * value,
+  ];
+  const polygon = (values: number[]) => values.map((v, i) => point(i, v).join(",")).join(" ");
+
+  return svgDocument(size, height, "Radar chart of criterion scores", [
+    ...[0.25, 0.5, 0.75, 1].map(
+      (level) => `<polygon points="${polygon(axes.map(() => level))}" fill="none" stroke="#d1d5db" stroke-width="1"/>`
+    ),
+    ...axes.map((axis, i) => {
+      const [x, y] = point(i, 1);
+      const [lx, ly] = point(i, 1.12);
+      const anchor = Math.abs(lx - center) < 4 ? "middle" : lx > center ? "start" : "end";
+      return (
+        `<g><line x1="${center}" y1="${center}" x2="${x}" y2="${y}" stroke="#e5e7eb" stroke-width="1"/>` +
+        `<text x="${lx}" y="${ly}" font-size="11" fill="#374151" text-anchor="${anchor}" dominant-baseline="middle">` +
+        `${escapeXml(truncateLabel(axis))}</text></g>`
+      );
+    }),
+    `<text x="${center + 3}" y="${center - radius - 2}" font-size="9" fill="#9ca3af">100%</text>`,
+    ...series.map((s, i) => {
+      const color = SERIES_COLORS[i % SERIES_COLORS.length];
+      return (
+        `<polygon points="${polygon(s.values.map((v) => v ?? 0))}" fill="${color}" fill-opacity="0.15" ` +
+        `stroke="${color}" stroke-width="2"/>`
+      );
+    }),
+    ...series.map(
+      (s, i) =>
+        `<g transform="translate(${20 + (i % 2) * (size / 2)}, ${size + 5 + Math.floor(i / 2) * 20})">` +
+        `<rect width="12" height="12" fill="${SERIES_COLORS[i % SERIES_COLORS.length]}"/>` +
+        `<text x="18" y="10" font-size="12" fill="#111827">${escapeXml(truncateLabel(s.name, 28))}</text></g>`
+    ),
+  ]);
+};
+
+export const BAR_CHART_WIDTH = 640;
+
+export const stackedBarHeight = (bars: number, categories: number) =>
+  40 + bars * 32 + 20 * Math.ceil(categories / 3) + 10;
+
+const barTotal = (bar: StackedBar) => bar.segments.reduce<number>((acc, v) => acc + (v ?? 0), 0);
+
+export interface StackedBarChartOptions {
+  categories: string[];
+  bars: StackedBar[];
+  max?: number;
+  width?: number;
+}
+
+export const stackedBarChartSvg = ({ categories, bars, max, width = BAR_CHART_WIDTH }: StackedBarChartOptions) => {
+  const limit = max ?? Math.max(100, ...bars.map(barTotal));
+  const labelWidth = 160;
+  const chartWidth = width - labelWidth - 50;
+  const height = stackedBarHeight(bars.length, categories.length);
+  const scale = (value: number) => (Math.max(value, 0) / limit) * chartWidth;
+  const legendTop = 30 + bars.length * 32 + 10;
+
+  return svgDocument(width, height, "Stacked bar chart of category totals", [
+    ...[0, 0.25, 0.5, 0.75, 1].map((tick) => {
+      const x = labelWidth + tick * chartWidth;
+      return (
+        `<g><line x1="${x}" y1="20" x2="${x}" y2="${20 + bars.length * 32}" stroke="#e5e7eb"/>` +
+        `<text x="${x}" y="14" font-size="10" fill="#6b7280" text-anchor="middle">${+(tick * limit).toFixed(1)}</text></g>`
+      );
+    }),
+    ...bars.map((bar, i) => {
+      const y = 24 + i * 32;
+      let offset = labelWidth;
+      const segments = bar.segments.map((value, j) => {
+        const w = scale(value ?? 0);
+        const x = offset;
+        offset += w;
+        return `<rect x="${x}" y="${y}" width="${w}" height="24" fill="${CATEGORY_COLORS[j % CATEGORY_COLORS.length]}"/>`;
+      });
+      return (
+        `<g><text x="${labelWidth - 8}" y="${y + 12}" font-size="12" fill="#111827" text-anchor="end" ` +
+        `dominant-baseline="middle">${escapeXml(`${i + 1}. ${truncateLabel(bar.name, 20)}`)}</text>` +
+        segments.join("") +
+        `<text x="${offset + 6}" y="${y + 12}" font-size="11" fill="#374151" dominant-baseline="middle">` +
+        `${barTotal(bar).toFixed(2)}</text></g>`
+      );
+    }),
+    ...categories.map(
+      (category, i) =>
+        `<g transform="translate(${20 + (i % 3) * ((width - 40) / 3)}, ${legendTop + Math.floor(i / 3) * 20})">` +
+        `<rect width="12" height="12" fill="${CATEGORY_COLORS[i % CATEGORY_COLORS.length]}"/>` +
+        `<text x="18" y="10" font-size="11" fill="#111827">${escapeXml(truncateLabel(category, 26))}</text></g>`
+    ),
+  ]);
+};
+
+/** Draws SVG markup onto a white canvas and returns PNG bytes. Browser only. */
+export const svgToPng = (svg: string, width: number, height: number, scale = 2) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml;charset=utf-8" }));
+    const img = new window.Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        URL.revokeObjectURL(url);
+        reject(new Error("Canvas is not available."));
+        return;
+      }
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob((blob) => {
+        if (!blob) {
+          reject(new Error("Failed to render chart image."));
+          return;
+        }
+        blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject);
+      }, "image/png");
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Failed to render chart image."));
+    };
+    img.src = url;
+  });
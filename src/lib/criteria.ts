@@ -0,0 +1,172 @@
+// Evaluation criteria grid: categories of weighted sub-criteria.
+//
+// A category's weight is the sum of its sub-criteria, and the whole grid
+// must add up to 100 so scores stay comparable with `total_score`.
+
+import { legacyScoreFor, type Candidate, type JsonData } from "@/lib/schema";
+
+export interface SubCriterion {
+  name: string;
+  weight: number;
+}
+
+export interface CriteriaCategory {
+  name: string;
+  subcriteria: SubCriterion[];
+}
+
+export type CriteriaGrid = CriteriaCategory[];
+
+// Bounds of a single sub-criterion weight; it can never exceed the whole grid.
+export const MAX_WEIGHT = 100;
+export const WEIGHT_STEP = 0.5;
+
+export const DEFAULT_CRITERIA: CriteriaGrid = [
+  {
+    name: "General Qualifications",
+    subcriteria: [
+      { name: "Education", weight: 10 },
+      { name: "Years of Experience", weight: 10 },
+    ],
+  },
+  {
+    name: "Adequacy for the Assignment",
+    subcriteria: [
+      { name: "Relevant Project Experience", weight: 25 },
+      { name: "Donor Experience (WB, ADB, etc.)", weight: 15 },
+      { name: "Regional Experience", weight: 10 },
+    ],
+  },
+  {
+    name: "Specific Skills & Competencies",
+    subcriteria: [
+      { name: "Technical Skills", weight: 15 },
+      { name: "Language Proficiency", weight: 10 },
+      { name: "Certifications", weight: 5 },
+    ],
+  },
+];
+
+const UNCATEGORIZED = "Other Criteria";
+
+export const categoryWeight = (category: CriteriaCategory) =>
+  category.subcriteria.reduce((acc, s) => acc + (Number.isFinite(s.weight) ? s.weight : 0), 0);
+
+export const totalWeight = (grid: CriteriaGrid) =>
+  grid.reduce((acc, c) => acc + categoryWeight(c), 0);
+
+/** Returns one message per problem; an empty list means the grid can be submitted. */
+export const validateCriteria = (grid: CriteriaGrid): string[] => {
+  const errors: string[] = [];
+  if (grid.length === 0) {
+    errors.push("Add at least one evaluation category.");
+  }
+
+  const seen = new Set<string>();
+  grid.forEach((category, i) => {
+    const label = category.name.trim() || `Category ${i + 1}`;
+    if (!category.name.trim()) errors.push(`Category ${i + 1} needs a name.`);
+    if (category.subcriteria.length === 0) errors.push(`${label} needs at least one sub-criterion.`);
+
+    category.subcriteria.forEach((sub, j) => {
+      const name = sub.name.trim();
+      if (!name) {
+        errors.push(`${label}: sub-criterion ${j + 1} needs a name.`);
+      } else if (seen.has(name.toLowerCase())) {
+        errors.push(`"${name}" is used more than once.`);
+      } else {
+        seen.add(name.toLowerCase());
+      }
+      if (!Number.isFinite(sub.weight) || sub.weight <= 0) {
+        errors.push(`${label}: "${name || `sub-criterion ${j + 1}`}" needs a weight above 0.`);
+      }
+    });
+  });
+
+  const total = totalWeight(grid);
+  if (Math.abs(total - 100) > 0.001) {
+    errors.push(`Weights must add up to 100% (currently ${+total.toFixed(2)}%).`);
+  }
+  return errors;
+};
+
+/** Shape sent to the backend in the `criteria` form field. */
+export const toApiCriteria = (grid: CriteriaGrid) =>
+  grid.map((category) => ({
+    category: category.name.trim(),
+    weight: categoryWeight(category),
+    subcriteria: category.subcriteria.map((s) => ({ criterion: s.name.trim(), weight: s.weight })),
+  }));
+
+/**
+ * Rebuilds the grid a result was scored against. Categories come from the
+ * response when the backend echoes them, otherwise from the grid that was
+ * submitted, and finally from the default grid for legacy responses.
+ */
+export const resolveCriteria = (data: JsonData, submitted: CriteriaGrid = DEFAULT_CRITERIA): CriteriaGrid => {
+  if (data.criteria.length === 0) return submitted;
+
+  const categoryOf = (criterion: string) =>
+    [submitted, DEFAULT_CRITERIA]
+      .flat()
+      .find((c) => c.subcriteria.some((s) => s.name === criterion))?.name;
+
+  const grid: CriteriaGrid = [];
+  data.criteria.forEach(({ criterion, weight, category }) => {
+    const name = category || categoryOf(criterion) || UNCATEGORIZED;
+    let target = grid.find((c) => c.name === name);
+    if (!target) {
+      target = { name, subcriteria: [] };
+      grid.push(target);
+    }
+    target.subcriteria.push({ name: criterion, weight });
+  });
+  return grid;
+};
+
+export interface ScoreLine {
+  name: string;
+  weight: number;
+  score: number | null;
+}
+
+export interface CategoryBreakdown {
+  name: string;
+  weight: number;
+  items: ScoreLine[];
+  total: number | null;
+}
+
+export interface ScoreBreakdown {
+  categories: CategoryBreakdown[];
+  total: number | null;
+}
+
+/** Per-category scores for a candidate, read from its detailed evaluation. */
+export const scoreBreakdown = (candidate: Candidate, grid: CriteriaGrid): ScoreBreakdown => {
+  const categories = grid.map((category) => {
+    const items = category.subcriteria.map((sub) => ({
+      name: sub.name,
+      weight: sub.weight,
+      score:
+        candidate.detailed_evaluation.find((d) => d.criterion === sub.name)?.score ??
+        legacyScoreFor(candidate.scores, sub.name),
+    }));
+    const scored = items.filter((item) => item.score != null);
+    return {
+      name: category.name,
+      weight: categoryWeight(category),
+      items,
+      total: scored.length > 0 ? scored.reduce((acc, item) => acc + (item.score ?? 0), 0) : null,
+    };
+  });
+  return { categories, total: candidate.scores.total_score };
+};
+
+/** Records the grid a result was scored against in its `criteria` list. */
+export const withCriteriaGrid = (data: JsonData, submitted: CriteriaGrid): JsonData => ({
+  ...data,
+  criteria: resolveCriteria(data, submitted).flatMap((category) =>
+    category.subcriteria.map((s) => ({ criterion: s.name, weight: s.weight, category: category.name }))
+  ),
+});
@@ -0,0 +1,117 @@
+// Browser-side reading of CV files, so users can see what the backend will
+// read before submitting and OCR scanned CVs that have no text layer.
+
+import { recognizeImage, type OcrLanguage } from "@/lib/ocr";
+import { isPdf, openPdf, pageText, renderPage } from "@/lib/pdf";
+
+// CVs with less extractable text than this are flagged as likely scans.
+export const MIN_CV_TEXT = 200;
+
+export type CvPreviewStatus = "extracting" | "ready" | "low-text" | "unsupported" | "error" | "ocr";
+
+export interface CvPreview {
+  status: CvPreviewStatus;
+  text: string;
+  pageCount?: number;
+  // Set once the text came from OCR instead of the file's own text layer.
+  ocr?: boolean;
+  progress?: number;
+  message?: string;
+}
+
+const extension = (file: File) => file.name.split(".").pop()?.toLowerCase() ?? "";
+
+const isDocx = (file: File) =>
+  extension(file) === "docx" ||
+  file.type === "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+const isText = (file: File) => extension(file) === "txt" || file.type === "text/plain";
+
+export const canOcr = (file: File) => isPdf(file);
+
+const normalize = (text: string) =>
+  text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+const classify = (text: string, pageCount?: number): CvPreview => ({
+  status: text.length < MIN_CV_TEXT ? "low-text" : "ready",
+  text,
+  pageCount,
+  message:
+    text.length === 0
+      ? "No text found; this looks like a scanned document."
+      : text.length < MIN_CV_TEXT
+        ? "Very little text found; the CV may be scanned or mostly images."
+        : undefined,
+});
+
+export const extractCvText = async (file: File): Promise<CvPreview> => {
+  if (file.size === 0) {
+    return { status: "error", text: "", message: "The file is empty." };
+  }
+  try {
+    if (isPdf(file)) {
+      const pdf = await openPdf(file);
+      try {
+        const pages: string[] = [];
+        for (let n = 1; n <= pdf.numPages; n++) pages.push(await pageText(pdf, n));
+        return classify(normalize(pages.join("\n\n")), pdf.numPages);
+      } finally {
+        pdf.destroy();
+      }
+    }
+    if (isDocx(file)) {
+      const mammoth = await import("mammoth");
+      const { value } = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+      return classify(normalize(value));
+    }
+    if (isText(file)) {
+      return classify(normalize(await file.text()));
+    }
+    return {
+      status: "unsupported",
+      text: "",
+      message: "Preview is not available for this format; the backend will read the file as-is.",
+    };
+  } catch (err) {
+    console.error("CV read error:", err);
+    return { status: "error", text: "", message: "The file could not be read. It may be damaged or password protected." };
+  }
+};
+
+/** OCRs every page of a scanned PDF CV through the shared worker pool. */
+export const ocrCv = async (
+  file: File,
+  options: { languages: OcrLanguage[]; signal?: AbortSignal; onProgress?: (progress: number) => void }
+) => {
+  const pdf = await openPdf(file);
+  try {
+    const pages: string[] = [];
+    for (let n = 1; n <= pdf.numPages; n++) {
+      const image = await renderPage(pdf, n);
+      const result = await recognizeImage(image, {
+        languages: options.languages,
+        signal: options.signal,
+        onStatus: ({ status, progress }) => {
+          if (status === "recognizing text") options.onProgress?.((n - 1 + progress) / pdf.numPages);
+        },
+      });
+      pages.push(result.text);
+    }
+    return normalize(pages.join("\n\n"));
+  } finally {
+    pdf.destroy();
+  }
+};
+
+/**
+ * The file actually uploaded for a CV: the original, or a plain-text copy
+ * when the user replaced a scan with its OCR text.
+ */
+export const submissionFile = (file: File, preview?: CvPreview) =>
+  preview?.ocr && preview.text
+    ? new File([preview.text], file.name.replace(/\.[^.]+$/, "") + ".txt", { type: "text/plain" })
+    : file;
@@ -0,0 +1,127 @@
+// Checks CV files before they are added to the upload list. Drag-and-drop
+// bypasses the file input's `accept` filter, so the type is sniffed from the
+// file's first bytes rather than trusted from its name or MIME type.
+
+// Sets larger than one request's worth are sent in batches (see `lib/batch`).
+export const MAX_CVS = 80;
+export const MAX_CV_SIZE = 10 * 1024 * 1024;
+export const MAX_TOTAL_CV_SIZE = 200 * 1024 * 1024;
+
+export type CvFileType = "pdf" | "docx" | "doc" | "txt";
+
+export interface RejectedCv {
+  name: string;
+  reason: string;
+}
+
+export interface CvValidationResult {
+  accepted: File[];
+  rejected: RejectedCv[];
+}
+
+const SNIFF_LENGTH = 4096;
+
+const startsWith = (bytes: Uint8Array, signature: number[]) =>
+  signature.every((byte, i) => bytes[i] === byte);
+
+const extension = (file: File) => file.name.split(".").pop()?.toLowerCase() ?? "";
+
+export const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+/** Why a CV of `size` bytes is over `MAX_CV_SIZE`. */
+export const tooLargeReason = (size: number) =>
+  // Just over the limit both sizes round to the same figure.
+  formatSize(size) === formatSize(MAX_CV_SIZE)
+    ? `The file is over the ${formatSize(MAX_CV_SIZE)} limit per CV.`
+    : `The file is ${formatSize(size)}; the limit is ${formatSize(MAX_CV_SIZE)} per CV.`;
+
+/** Detects the CV format from its leading bytes; `null` when it is none we accept. */
+export const sniffCvType = async (file: File): Promise<CvFileType | null> => {
+  const bytes = new Uint8Array(await file.slice(0, SNIFF_LENGTH).arrayBuffer());
+  if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46, 0x2d])) return "pdf"; // %PDF-
+  // DOCX is a ZIP container; any other ZIP renamed to .docx fails on the backend anyway.
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return extension(file) === "docx" ? "docx" : null;
+  if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return "doc"; // OLE2
+  // Plain text: no NUL bytes and valid UTF-8 in the sampled prefix.
+  if (extension(file) === "txt" && !bytes.includes(0)) {
+    try {
+      new TextDecoder("utf-8", { fatal: true }).decode(bytes.subarray(0, lastCompleteChar(bytes)));
+      return "txt";
+    } catch {
+      return null;
+    }
+  }
+  return null;
+};
+
+// The sample may cut a multi-byte UTF-8 character in half; drop the partial tail.
+const lastCompleteChar = (bytes: Uint8Array) => {
+  for (let i = bytes.length - 1; i >= Math.max(0, bytes.length - 4); i--) {
+    if ((bytes[i] & 0xc0) === 0xc0) return i;
+    if ((bytes[i] & 0x80) === 0) break;
+  }
+  return bytes.length;
+};
+
+const hashes = new WeakMap<File, Promise<string>>();
+
+/** SHA-256 of the file's contents, cached per `File` object. */
+export const contentHash = (file: File) => {
+  let hash = hashes.get(file);
+  if (!hash) {
+    hash = file
+      .arrayBuffer()
+      .then((buffer) => crypto.subtle.digest("SHA-256", buffer))
+      .then((digest) => Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join(""));
+    hashes.set(file, hash);
+  }
+  return hash;
+};
+
+/**
+ * Validates `incoming` files against the ones already in the list, in order:
+ * emptiness, size, type, duplicate content, then the total size and count
+ * limits. Every file that is not accepted gets a reason.
+ */
+export const validateCvFiles = async (existing: File[], incoming: File[]): Promise<CvValidationResult> => {
+  const accepted: File[] = [];
+  const rejected: RejectedCv[] = [];
+  const seen = new Map<string, string>();
+  for (const file of existing) seen.set(await contentHash(file), file.name);
+  let total = existing.reduce((acc, f) => acc + f.size, 0);
+
+  for (const file of incoming) {
+    const reject = (reason: string) => rejected.push({ name: file.name, reason });
+    if (file.size === 0) {
+      reject("The file is empty.");
+      continue;
+    }
+    if (file.size > MAX_CV_SIZE) {
+      reject(tooLargeReason(file.size));
+      continue;
+    }
+    if (!(await sniffCvType(file))) {
+      reject("Unsupported or unrecognized format. Upload a PDF, DOC, DOCX or TXT file.");
+      continue;
+    }
+    const hash = await contentHash(file);
+    const duplicateOf = seen.get(hash);
+    if (duplicateOf) {
+      reject(duplicateOf === file.name ? "Already added." : `Same content as ${duplicateOf}.`);
+      continue;
+    }
+    if (existing.length + accepted.length >= MAX_CVS) {
+      reject(`Only ${MAX_CVS} CVs can be compared at once; this file was not added.`);
+      continue;
+    }
+    if (total + file.size > MAX_TOTAL_CV_SIZE) {
+      reject(`Adding this file would exceed the ${formatSize(MAX_TOTAL_CV_SIZE)} total upload limit.`);
+      continue;
+    }
+    seen.set(hash, file.name);
+    total += file.size;
+    accepted.push(file);
+  }
+  return { accepted, rejected };
+};
@@ -0,0 +1,106 @@
+// The evaluation being prepared, autosaved so a refresh or a closed tab
+// resumes where the user left off. The draft record holds the step, ToR text,
+// criteria and the list of CVs; the CV files themselves live in their own
+// store, so saving a ToR keystroke does not rewrite megabytes of files.
+//
+// There is one draft at a time. It is kept after submitting, pointing at the
+// saved evaluation, until the user starts a new one.
+
+import type { CriteriaGrid } from "@/lib/criteria";
+import { getOne, put, remove } from "@/lib/idb";
+import { newId } from "@/lib/history";
+import type { WizardStep } from "@/lib/wizard";
+
+const DRAFT_ID = "current";
+
+export interface DraftFileMeta {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  lastModified: number;
+}
+
+export interface DraftFields {
+  step: WizardStep;
+  tor: string;
+  criteria: CriteriaGrid;
+  // The evaluation saved from this draft, reopened on resume.
+  evaluationId: string | null;
+}
+
+interface DraftRecord extends DraftFields {
+  id: typeof DRAFT_ID;
+  updatedAt: number;
+  files: DraftFileMeta[];
+}
+
+interface DraftFile {
+  id: string;
+  file: File;
+}
+
+export interface RestoredDraft extends DraftFields {
+  updatedAt: number;
+  files: File[];
+  // CVs listed in the draft whose contents could not be read back.
+  missing: string[];
+}
+
+// Stable ids for the `File` objects in the list, so unchanged files are not stored again.
+const fileIds = new WeakMap<File, string>();
+
+const idOf = (file: File) => {
+  let id = fileIds.get(file);
+  if (!id) {
+    id = newId();
+    fileIds.set(file, id);
+  }
+  return id;
+};
+
+const metaOf = (file: File): DraftFileMeta => ({
+  id: idOf(file),
+  name: file.name,
+  type: file.type,
+  size: file.size,
+  lastModified: file.lastModified,
+});
+
+export const loadDraft = async (): Promise<RestoredDraft | null> => {
+  const record = await getOne<DraftRecord>("drafts", DRAFT_ID);
+  if (!record) return null;
+  const stored = await Promise.all(record.files.map((meta) => getOne<DraftFile>("draftFiles", meta.id)));
+  const files: File[] = [];
+  const missing: string[] = [];
+  record.files.forEach((meta, i) => {
+    const file = stored[i]?.file;
+    if (!file) {
+      missing.push(meta.name);
+      return;
+    }
+    fileIds.set(file, meta.id);
+    files.push(file);
+  });
+  const { step, tor, criteria, evaluationId, updatedAt } = record;
+  return { step, tor, criteria, evaluationId: evaluationId ?? null, updatedAt, files, missing };
+};
+
+/** Saves the draft, storing newly added CVs and dropping removed ones. */
+export const saveDraft = async (fields: DraftFields, files: File[]) => {
+  const previous = await getOne<DraftRecord>("drafts", DRAFT_ID);
+  const metas = files.map(metaOf);
+  const current = new Set(metas.map((m) => m.id));
+  const known = new Set(previous?.files.map((m) => m.id) ?? []);
+
+  await Promise.all(files.filter((file) => !known.has(idOf(file))).map((file) => put("draftFiles", { id: idOf(file), file })));
+  const record: DraftRecord = { ...fields, id: DRAFT_ID, updatedAt: Date.now(), files: metas };
+  await put("drafts", record);
+  await Promise.all((previous?.files ?? []).filter((m) => !current.has(m.id)).map((m) => remove("draftFiles", m.id)));
+};
+
+export const clearDraft = async () => {
+  const previous = await getOne<DraftRecord>("drafts", DRAFT_ID);
+  await remove("drafts", DRAFT_ID);
+  await Promise.all((previous?.files ?? []).map((m) => remove("draftFiles", m.id)));
+};
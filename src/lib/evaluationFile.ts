@@ -0,0 +1,151 @@
+// JSON export and import of a finished evaluation, so results can be shared
+// or reopened without calling the backend again. The file wraps the
+// comparison with the inputs it was produced from; a bare compare-cvs
+// response is accepted on import too.
+
+import { saveAs } from "file-saver";
+import { DEFAULT_CRITERIA, resolveCriteria, validateCriteria, type CriteriaGrid } from "@/lib/criteria";
+import type { NewEvaluation } from "@/lib/history";
+import type { ScoreOverrides } from "@/lib/overrides";
+import type { PanelScores } from "@/lib/panel";
+import { parseJsonData, type JsonData, type SchemaWarning } from "@/lib/schema";
+
+export const EVALUATION_FORMAT = "cv-comparison-evaluation";
+export const EVALUATION_VERSION = 1;
+
+export interface EvaluationFile {
+  format: typeof EVALUATION_FORMAT;
+  version: number;
+  exportedAt: string;
+  name?: string;
+  tor: string;
+  fileNames: string[];
+  criteria: CriteriaGrid;
+  data: JsonData;
+  overrides?: ScoreOverrides;
+  panel?: PanelScores;
+}
+
+export interface ImportedEvaluation {
+  evaluation: NewEvaluation;
+  warnings: SchemaWarning[];
+}
+
+const fileSlug = (name: string) =>
+  name
+    .replace(/[^a-zA-Z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 60)
+    .toLowerCase() || "evaluation";
+
+export const exportEvaluationJson = (evaluation: NewEvaluation) => {
+  const file: EvaluationFile = {
+    format: EVALUATION_FORMAT,
+    version: EVALUATION_VERSION,
+    exportedAt: new Date().toISOString(),
+    name: evaluation.name,
+    tor: evaluation.tor,
+    fileNames: evaluation.fileNames,
+    criteria: evaluation.criteria,
+    data: evaluation.data,
+    overrides: evaluation.overrides,
+    panel: evaluation.panel,
+  };
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: "application/json" });
+  saveAs(blob, `${fileSlug(evaluation.name || "cv_comparison")}.json`);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const readCriteria = (value: unknown, data: JsonData): CriteriaGrid => {
+  if (Array.isArray(value)) {
+    const grid = value as CriteriaGrid;
+    try {
+      if (validateCriteria(grid).length === 0) return grid;
+    } catch {
+      // Malformed grid; fall through to the criteria recorded in the data.
+    }
+  }
+  return resolveCriteria(data, DEFAULT_CRITERIA);
+};
+
+// Keeps only well-formed overrides of candidates and criteria present in the data.
+const readOverrides = (value: unknown, data: JsonData): ScoreOverrides | undefined => {
+  if (!isObject(value)) return undefined;
+  const overrides: ScoreOverrides = {};
+  data.candidates.forEach((candidate) => {
+    const forCandidate = value[candidate.candidate_name];
+    if (!isObject(forCandidate)) return;
+    candidate.detailed_evaluation.forEach(({ criterion }) => {
+      const item = forCandidate[criterion];
+      if (!isObject(item)) return;
+      const score = typeof item.score === "number" && Number.isFinite(item.score) ? item.score : null;
+      const comment = typeof item.comment === "string" ? item.comment : "";
+      if (score == null && !comment.trim()) return;
+      overrides[candidate.candidate_name] = { ...overrides[candidate.candidate_name], [criterion]: { score, comment } };
+    });
+  });
+  return Object.keys(overrides).length > 0 ? overrides : undefined;
+};
+
+// Keeps every named evaluator, with their numeric scores for candidates in the data.
+const readPanel = (value: unknown, data: JsonData): PanelScores | undefined => {
+  if (!isObject(value)) return undefined;
+  const panel: PanelScores = {};
+  Object.entries(value).forEach(([evaluator, scores]) => {
+    if (!evaluator.trim() || !isObject(scores)) return;
+    panel[evaluator] = {};
+    data.candidates.forEach(({ candidate_name }) => {
+      const forCandidate = scores[candidate_name];
+      if (!isObject(forCandidate)) return;
+      const valid = Object.entries(forCandidate).filter(
+        (entry): entry is [string, number] => typeof entry[1] === "number" && Number.isFinite(entry[1])
+      );
+      if (valid.length > 0) panel[evaluator][candidate_name] = Object.fromEntries(valid);
+    });
+  });
+  return Object.keys(panel).length > 0 ? panel : undefined;
+};
+
+/**
+ * Reads an exported evaluation (or a raw API response) and validates its
+ * comparison with `parseJsonData`. Throws with a user-facing message when
+ * the file is not an evaluation at all.
+ */
+export const readEvaluationFile = async (file: File): Promise<ImportedEvaluation> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not a valid JSON file.`);
+  }
+  if (!isObject(raw)) throw new Error(`${file.name} does not contain an evaluation.`);
+
+  const wrapped = raw.format === EVALUATION_FORMAT;
+  if (wrapped && typeof raw.version === "number" && raw.version > EVALUATION_VERSION) {
+    throw new Error(`${file.name} was exported by a newer version of this tool.`);
+  }
+
+  let parsed;
+  try {
+    parsed = parseJsonData(wrapped ? raw.data : raw);
+  } catch (err) {
+    throw new Error(`${file.name} does not contain an evaluation: ${err instanceof Error ? err.message : err}`);
+  }
+
+  const tor = wrapped && typeof raw.tor === "string" ? raw.tor : parsed.data.tor_text;
+  return {
+    evaluation: {
+      name: wrapped && typeof raw.name === "string" ? raw.name : file.name.replace(/\.json$/i, ""),
+      tor,
+      fileNames:
+        wrapped && Array.isArray(raw.fileNames) ? raw.fileNames.filter((n): n is string => typeof n === "string") : [],
+      criteria: readCriteria(wrapped ? raw.criteria : undefined, parsed.data),
+      data: parsed.data,
+      overrides: wrapped ? readOverrides(raw.overrides, parsed.data) : undefined,
+      panel: wrapped ? readPanel(raw.panel, parsed.data) : undefined,
+    },
+    warnings: parsed.warnings,
+  };
+};
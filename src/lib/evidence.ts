@@ -0,0 +1,192 @@
+// Links evaluation justifications back to the CV text they were drawn from.
+//
+// Justifications are free prose, so matching is heuristic: the CV is split
+// into passages (lines, long lines into sentences) and each passage is scored
+// against a criterion's claims. Quoted phrases count most and are matched
+// fuzzily on word stems, so "managed donor-funded projects" still finds
+// "Managing several donor funded water projects"; other key terms add to the
+// score per hit.
+
+import type { Candidate, DetailedEvaluation } from "@/lib/schema";
+
+export interface Passage {
+  start: number;
+  end: number;
+}
+
+export interface Claims {
+  quotes: string[];
+  terms: string[];
+}
+
+export interface EvidenceMatch {
+  criterion: string;
+  passage: Passage;
+  score: number;
+  // Stems of the claims found in the passage, for highlighting within it.
+  stems: string[];
+}
+
+// Share of a quote's words a passage must contain to count as quoting it.
+const QUOTE_MATCH = 0.6;
+const MIN_SCORE = 0.35;
+const MAX_PASSAGE = 400;
+export const MAX_MATCHES_PER_CRITERION = 3;
+
+const STOPWORDS = new Set(
+  (
+    "the and for with from that this have has had was were are been being into over under than then them they " +
+    "their there which while what when where who whom will would could should also such very more most some " +
+    "only other about above below between both each few many much not nor own same can did does doing just " +
+    // Evaluation wording that says nothing about the CV itself.
+    "candidate candidates demonstrates demonstrated shows showing evidence evident strong good relevant " +
+    "cv resume mentioned mentions indicates indicated however although overall lacks limited no none"
+  ).split(" ")
+);
+
+const NO_EVIDENCE = /^no (evidence|work)/i;
+
+const fold = (text: string) =>
+  text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+/** A crude stem so plurals and tenses of a word compare equal. */
+export const stem = (word: string) => {
+  const w = fold(word).replace(/[^a-z0-9]/g, "");
+  if (/^\d+$/.test(w)) return w;
+  return w.replace(/(ing|ed|es|s)$/, "").slice(0, 8);
+};
+
+const words = (text: string) => text.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+const keyStems = (text: string) =>
+  words(text)
+    .filter((w) => /^\d+$/.test(w) || (w.length >= 4 && !STOPWORDS.has(fold(w))))
+    .map(stem)
+    .filter(Boolean);
+
+export const extractClaims = (justification: string): Claims => {
+  // Single quotes are left out; they are mostly apostrophes.
+  const quotes = [...justification.matchAll(/["\u201c]([^"\u201d]{6,200})["\u201d]/g)]
+    .map((m) => m[1].trim())
+    .filter((q) => keyStems(q).length > 0);
+  return { quotes, terms: [...new Set(keyStems(justification))] };
+};
+
+/** Splits CV text into lines, and lines longer than a paragraph into sentences. */
+export const splitPassages = (text: string): Passage[] => {
+  const passages: Passage[] = [];
+  const pattern = /[^\n]+/g;
+  for (const line of text.matchAll(pattern)) {
+    const start = line.index ?? 0;
+    if (line[0].trim().length === 0) continue;
+    if (line[0].length <= MAX_PASSAGE) {
+      passages.push({ start, end: start + line[0].length });
+      continue;
+    }
+    for (const sentence of line[0].matchAll(/[^.!?;]+[.!?;]*/g)) {
+      if (sentence[0].trim().length === 0) continue;
+      const offset = start + (sentence.index ?? 0);
+      passages.push({ start: offset, end: offset + sentence[0].length });
+    }
+  }
+  return passages;
+};
+
+const scorePassage = (passageStems: Set<string>, claims: Claims) => {
+  const found = new Set<string>();
+  let quoteScore = 0;
+  claims.quotes.forEach((quote) => {
+    const stems = keyStems(quote);
+    const hits = stems.filter((s) => passageStems.has(s));
+    const ratio = hits.length / stems.length;
+    if (ratio >= QUOTE_MATCH) {
+      quoteScore = Math.max(quoteScore, ratio);
+      hits.forEach((s) => found.add(s));
+    }
+  });
+  const termHits = claims.terms.filter((t) => passageStems.has(t));
+  termHits.forEach((t) => found.add(t));
+  // A single shared word is too weak on its own unless it is a number.
+  const termScore =
+    termHits.length >= 2 || termHits.some((t) => /^\d+$/.test(t))
+      ? termHits.length / Math.min(claims.terms.length, 6)
+      : 0;
+  return { score: quoteScore * 2 + termScore, stems: [...found] };
+};
+
+/** The best supporting passages in `text` for each criterion, strongest first. */
+export const findEvidence = (text: string, evaluations: DetailedEvaluation[]): EvidenceMatch[] => {
+  const passages = splitPassages(text).map((passage) => ({
+    passage,
+    stems: new Set(keyStems(text.slice(passage.start, passage.end))),
+  }));
+
+  return evaluations.flatMap((evaluation) => {
+    if (!evaluation.justification || NO_EVIDENCE.test(evaluation.justification)) return [];
+    const claims = extractClaims(evaluation.justification);
+    if (claims.quotes.length === 0 && claims.terms.length === 0) return [];
+    return passages
+      .map(({ passage, stems }) => ({ criterion: evaluation.criterion, passage, ...scorePassage(stems, claims) }))
+      .filter((match) => match.score >= MIN_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_MATCHES_PER_CRITERION);
+  });
+};
+
+export interface TextSegment {
+  start: number;
+  text: string;
+  // Criteria whose evidence covers this segment; empty for plain text.
+  criteria: string[];
+  // Indexes of the matches starting here, used as scroll targets.
+  starts: number[];
+}
+
+/** Cuts `text` at every match boundary so overlapping matches can be shown together. */
+export const segmentText = (text: string, matches: EvidenceMatch[]): TextSegment[] => {
+  const cuts = [...new Set([0, text.length, ...matches.flatMap((m) => [m.passage.start, m.passage.end])])].sort(
+    (a, b) => a - b
+  );
+  const segments: TextSegment[] = [];
+  for (let i = 0; i < cuts.length - 1; i++) {
+    const [start, end] = [cuts[i], cuts[i + 1]];
+    const covering = matches.filter((m) => m.passage.start <= start && m.passage.end >= end);
+    segments.push({
+      start,
+      text: text.slice(start, end),
+      criteria: [...new Set(covering.map((m) => m.criterion))],
+      starts: matches.flatMap((m, index) => (m.passage.start === start ? [index] : [])),
+    });
+  }
+  return segments;
+};
+
+/**
+ * Picks the uploaded CV most likely to belong to a candidate: the file whose
+ * name or text contains the most parts of the candidate's name.
+ */
+export const guessCvFile = <T extends { name: string }>(
+  candidate: Candidate,
+  files: T[],
+  textOf: (file: T) => string
+): T | null => {
+  const parts = words(candidate.candidate_name)
+    .filter((w) => w.length >= 2)
+    .map(fold);
+  if (parts.length === 0) return null;
+  let best: T | null = null;
+  let bestScore = 0;
+  files.forEach((file) => {
+    const name = fold(file.name);
+    const head = fold(textOf(file).slice(0, 2000));
+    const score = parts.reduce((acc, p) => acc + (name.includes(p) ? 2 : 0) + (head.includes(p) ? 1 : 0), 0);
+    if (score > bestScore) {
+      best = file;
+      bestScore = score;
+    }
+  });
+  return best;
+};
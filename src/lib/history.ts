@@ -0,0 +1,64 @@
+// Saved evaluations, persisted in IndexedDB so a finished run survives a
+// refresh and can be reopened or re-exported later.
+
+import type { CriteriaGrid } from "@/lib/criteria";
+import { getAll, getOne, put, remove, update } from "@/lib/idb";
+import type { ScoreOverrides } from "@/lib/overrides";
+import type { PanelScores } from "@/lib/panel";
+import type { JsonData } from "@/lib/schema";
+
+export interface EvaluationRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  tor: string;
+  fileNames: string[];
+  criteria: CriteriaGrid;
+  data: JsonData;
+  // Evaluator overrides, applied on top of the AI scores in `data`.
+  overrides?: ScoreOverrides;
+  // Independent scores of the evaluation panel, by evaluator.
+  panel?: PanelScores;
+}
+
+export type NewEvaluation = Omit<EvaluationRecord, "id" | "name" | "createdAt"> & { name?: string };
+
+export const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const defaultName = (tor: string) => {
+  const firstLine = tor.trim().split("\n")[0].trim();
+  if (!firstLine) return "Untitled evaluation";
+  return firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine;
+};
+
+/** Newest first. */
+export const listEvaluations = async () => {
+  const records = await getAll<EvaluationRecord>("evaluations");
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getEvaluation = (id: string) => getOne<EvaluationRecord>("evaluations", id);
+
+export const saveEvaluation = async (input: NewEvaluation) => {
+  const record: EvaluationRecord = {
+    ...input,
+    id: newId(),
+    name: input.name?.trim() || defaultName(input.tor),
+    createdAt: Date.now(),
+  };
+  await put("evaluations", record);
+  return record;
+};
+
+export const updateEvaluation = async (id: string, patch: Partial<Omit<EvaluationRecord, "id">>) => {
+  const updated = await update<EvaluationRecord>("evaluations", id, (record) =>
+    record ? { ...record, ...patch } : undefined
+  );
+  if (!updated) throw new Error("This evaluation no longer exists.");
+  return updated;
+};
+
+export const renameEvaluation = (id: string, name: string) =>
+  updateEvaluation(id, { name: name.trim() || "Untitled evaluation" });
+
+export const deleteEvaluation = (id: string) => remove("evaluations", id);
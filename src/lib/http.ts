@@ -0,0 +1,207 @@
+// HTTP transport for the backend API: per-request timeout, retry with
+// exponential backoff for transient failures, and one error class per kind
+// of failure so callers can tell a bad request from an outage.
+//
+// Error bodies are read as JSON when possible (`{ error, details }`); a
+// proxy's HTML error page becomes a `ServerError` with the HTTP status
+// instead of a JSON parse error.
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    // Whether the same request may succeed if sent again.
+    readonly retryable = false
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/** The request never got a response: offline, DNS, CORS or a dropped connection. */
+export class NetworkError extends ApiError {
+  constructor(message = "Could not reach the server. Check your connection and try again.") {
+    super(message, undefined, true);
+    this.name = "NetworkError";
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(readonly timeout: number) {
+    super(`The server did not respond within ${Math.round(timeout / 1000)} seconds.`, undefined, true);
+    this.name = "TimeoutError";
+  }
+}
+
+/** The server rejected the request itself (4xx); sending it again will not help. */
+export class ValidationError extends ApiError {
+  constructor(message: string, status: number, readonly details?: unknown) {
+    super(message, status, false);
+    this.name = "ValidationError";
+  }
+}
+
+export class RateLimitError extends ApiError {
+  constructor(message: string, readonly retryAfter?: number) {
+    super(message, 429, true);
+    this.name = "RateLimitError";
+  }
+}
+
+/** 5xx, or a response that is not the JSON the API promises. */
+export class ServerError extends ApiError {
+  constructor(message: string, status?: number) {
+    super(message, status, status != null && [502, 503, 504].includes(status));
+    this.name = "ServerError";
+  }
+}
+
+export interface TransportConfig {
+  timeout: number;
+  retries: number;
+  // First backoff delay; doubled on each attempt, with jitter.
+  retryDelay: number;
+  fetch?: typeof fetch;
+}
+
+export interface SendOptions {
+  signal?: AbortSignal;
+  timeout?: number;
+  // Non-idempotent requests are only retried when the server cannot have
+  // acted on them: no response at all, 429 or 503. A 502 or 504 may come
+  // from a gateway while the backend is still working on the first attempt.
+  idempotent?: boolean;
+}
+
+export type Send = (url: string, init?: RequestInit, options?: SendOptions) => Promise<Response>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const errorMessage = (body: unknown, fallback: string) =>
+  isRecord(body) && typeof body.error === "string" && body.error ? body.error : fallback;
+
+/** Seconds or an HTTP date, as milliseconds from now. */
+const retryAfterMs = (header: string | null) => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/** Turns a non-2xx response into the matching `ApiError`. */
+export const errorFromResponse = async (res: Response): Promise<ApiError> => {
+  let body: unknown = null;
+  try {
+    body = await res.json();
+  } catch {
+    // Not JSON, e.g. a gateway's HTML error page.
+  }
+  const statusText = `${res.status}${res.statusText ? ` ${res.statusText}` : ""}`;
+  if (res.status === 429) {
+    return new RateLimitError(
+      errorMessage(body, "Too many requests. Please wait a moment and try again."),
+      retryAfterMs(res.headers.get("retry-after"))
+    );
+  }
+  if (res.status >= 400 && res.status < 500) {
+    return new ValidationError(
+      errorMessage(body, `The request was rejected (${statusText}).`),
+      res.status,
+      isRecord(body) ? body.details : undefined
+    );
+  }
+  return new ServerError(
+    body
+      ? errorMessage(body, `The server failed to process the request (${statusText}).`)
+      : `The server returned an unexpected response (${statusText}).`,
+    res.status
+  );
+};
+
+/** Reads a 2xx body as JSON, reporting anything else as a server fault. */
+export const readJson = async (res: Response): Promise<unknown> => {
+  const text = await res.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ServerError(`The server returned an unexpected response (${res.status}, not JSON).`, res.status);
+  }
+};
+
+const abortError = () => new DOMException("The request was aborted.", "AbortError");
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Creates the `send` function used for every API call. The timeout covers
+ * the wait for response headers only, so long event streams are not cut off.
+ * Aborting `options.signal` rejects with the fetch `AbortError`, also while
+ * the response body is still being read.
+ */
+export const createTransport = (config: TransportConfig): Send => {
+  const fetchImpl = config.fetch ?? ((input, init) => fetch(input, init));
+
+  const attempt = async (url: string, init: RequestInit, options: SendOptions) => {
+    // An abort listener added now would never fire.
+    if (options.signal?.aborted) throw abortError();
+    const timeout = options.timeout ?? config.timeout;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+    try {
+      const res = await fetchImpl(url, { ...init, signal: controller.signal });
+      if (!res.ok) throw await errorFromResponse(res);
+      return res;
+    } catch (err) {
+      options.signal?.removeEventListener("abort", onAbort);
+      if (options.signal?.aborted) throw abortError();
+      if (timedOut) throw new TimeoutError(timeout);
+      if (err instanceof ApiError) throw err;
+      throw new NetworkError();
+    } finally {
+      // The abort listener stays on a response: the caller's signal must still
+      // stop the body, e.g. an event stream that runs for minutes.
+      clearTimeout(timer);
+    }
+  };
+
+  return async (url, init = {}, options = {}) => {
+    const idempotent = options.idempotent ?? (init.method ?? "GET").toUpperCase() === "GET";
+    for (let n = 0; ; n++) {
+      try {
+        return await attempt(url, init, options);
+      } catch (err) {
+        const retry =
+          err instanceof ApiError &&
+          err.retryable &&
+          n < config.retries &&
+          (idempotent ||
+            err instanceof NetworkError ||
+            err instanceof RateLimitError ||
+            (err instanceof ServerError && err.status === 503));
+        if (!retry) throw err;
+        const backoff = config.retryDelay * 2 ** n * (0.75 + Math.random() * 0.5);
+        await wait(err instanceof RateLimitError && err.retryAfter != null ? err.retryAfter : backoff, options.signal);
+      }
+    }
+  };
+};
@@ -0,0 +1,83 @@
+// Minimal promise wrapper around the browser's IndexedDB.
+//
+// Every store the app uses is declared in STORES; bump DB_VERSION whenever
+// one is added so `onupgradeneeded` creates it for existing users.
+
+const DB_NAME = "cv-comparison";
+const DB_VERSION = 2;
+const STORES = ["evaluations", "drafts", "draftFiles"] as const;
+
+export type StoreName = (typeof STORES)[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("Local storage is not available in this browser."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      STORES.forEach((name) => {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name, { keyPath: "id" });
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a later call to retry if opening failed (e.g. private mode).
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+};
+
+const run = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  action: (objectStore: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = action(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error ?? request.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Storage transaction aborted."));
+  });
+};
+
+export const getAll = <T>(store: StoreName) => run<T[]>(store, "readonly", (s) => s.getAll());
+
+export const getOne = <T>(store: StoreName, id: string) =>
+  run<T | undefined>(store, "readonly", (s) => s.get(id));
+
+export const put = <T>(store: StoreName, value: T) => run(store, "readwrite", (s) => s.put(value));
+
+export const remove = (store: StoreName, id: string) => run(store, "readwrite", (s) => s.delete(id));
+
+/**
+ * Reads a record and writes back what `change` returns, in one transaction so
+ * two updates fired together cannot overwrite each other. Nothing is written
+ * when `change` returns undefined; the result is what was written.
+ */
+export const update = async <T>(store: StoreName, id: string, change: (value: T | undefined) => T | undefined) => {
+  const db = await openDb();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(store, "readwrite");
+    const objectStore = tx.objectStore(store);
+    let result: T | undefined;
+    const request = objectStore.get(id);
+    request.onsuccess = () => {
+      result = change(request.result as T | undefined);
+      if (result !== undefined) objectStore.put(result);
+    };
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error ?? request.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Storage transaction aborted."));
+  });
+};
@@ -0,0 +1,155 @@
+// In-browser stand-in for the Python compare-cvs service, enabled with
+// `NEXT_PUBLIC_API_MOCK=1`. It answers the submission with the same event
+// stream the real backend sends, so the progress, streaming and parsing code
+// paths all run, and scores every CV deterministically from its file name.
+
+import { DEFAULT_CRITERIA, toApiCriteria } from "@/lib/criteria";
+import { rankByScore } from "@/lib/schema";
+
+type ApiCriteria = ReturnType<typeof toApiCriteria>;
+
+export interface MockBackendOptions {
+  // Pause between streamed events, in milliseconds.
+  delay?: number;
+}
+
+/** Stable 0..1 value per text, so a CV scores the same on every run. */
+const unit = (text: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0) / 4294967295;
+};
+
+const candidateName = (fileName: string) =>
+  fileName
+    .replace(/\.[^.]+$/, "")
+    .replace(/[_\-.]+/g, " ")
+    .replace(/\b(cv|resume)\b/gi, "")
+    .trim()
+    .replace(/\s+/g, " ")
+    .replace(/\b\w/g, (c) => c.toUpperCase()) || "Unnamed Candidate";
+
+const recommendationFor = (total: number) =>
+  total >= 75 ? "Highly Suitable" : total >= 50 ? "Suitable" : "Not Suitable";
+
+const mockCandidate = (fileName: string, criteria: ApiCriteria) => {
+  const detailed_evaluation = criteria.flatMap((category) =>
+    category.subcriteria.map(({ criterion, weight }) => {
+      // Between 40% and 95% of the weight, in half points.
+      const score = Math.round(weight * (0.4 + unit(`${fileName}|${criterion}`) * 0.55) * 2) / 2;
+      return {
+        criterion,
+        weight,
+        score,
+        justification: `Mock evaluation: ${fileName} meets ${Math.round((score / weight) * 100)}% of "${criterion}".`,
+      };
+    })
+  );
+  const total_score = detailed_evaluation.reduce((acc, e) => acc + e.score, 0);
+  return {
+    candidate_name: candidateName(fileName),
+    recommendation: recommendationFor(total_score),
+    scores: { total_score },
+    summary_justification: {
+      key_strengths: "Generated by the mock backend.",
+      key_weaknesses: "Scores are derived from the file name, not the CV content.",
+    },
+    detailed_evaluation,
+  };
+};
+
+/** A complete compare-cvs response for the given CV file names, as the backend would send it. */
+export const mockComparison = (fileNames: string[], criteria: ApiCriteria = toApiCriteria(DEFAULT_CRITERIA), tor = "") => {
+  const candidates = fileNames.map((name) => mockCandidate(name, criteria));
+  const comparison_matrix = rankByScore(
+    candidates.map((c) => ({ candidate_name: c.candidate_name, total_score: c.scores.total_score }))
+  );
+  const [best, ...others] = comparison_matrix;
+  return {
+    tor_text: tor,
+    criteria: criteria.flatMap((category) =>
+      category.subcriteria.map((s) => ({ criterion: s.criterion, weight: s.weight, category: category.category }))
+    ),
+    candidates,
+    comparison_matrix,
+    final_recommendation: {
+      best_candidate: best?.candidate_name ?? "None",
+      final_decision: best ? recommendationFor(best.total_score) : "Not Evaluated",
+      justification: {
+        detailed_explanation: "This recommendation was produced by the mock backend for development and testing.",
+        why_he: best ? `${best.candidate_name} has the highest mock score (${best.total_score.toFixed(2)}).` : "",
+        why_not_others: others.map((m) => ({
+          candidate_name: m.candidate_name,
+          reason: `Lower mock score (${m.total_score.toFixed(2)}).`,
+        })),
+      },
+    },
+  };
+};
+
+const readCriteria = (value: FormDataEntryValue | null): ApiCriteria => {
+  if (typeof value !== "string") return toApiCriteria(DEFAULT_CRITERIA);
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) && parsed.length > 0 ? parsed : toApiCriteria(DEFAULT_CRITERIA);
+  } catch {
+    return toApiCriteria(DEFAULT_CRITERIA);
+  }
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+
+/** A `fetch` replacement that serves compare-cvs submissions locally. */
+export const createMockFetch = ({ delay = 300 }: MockBackendOptions = {}): typeof fetch =>
+  async (_input, init) => {
+    const signal = init?.signal ?? undefined;
+    if (signal?.aborted) throw new DOMException("The request was aborted.", "AbortError");
+    if ((init?.method ?? "GET").toUpperCase() !== "POST" || !(init?.body instanceof FormData)) {
+      return json({ error: "The mock backend only accepts CV submissions." }, 404);
+    }
+
+    const form = init.body;
+    const tor = form.get("tor");
+    const files = form.getAll("cvs").filter((f): f is File => f instanceof File);
+    if (typeof tor !== "string" || !tor.trim()) return json({ error: "ToR text is required." }, 400);
+    if (files.length === 0) return json({ error: "At least one CV is required." }, 400);
+
+    const criteria = readCriteria(form.get("criteria"));
+    const result = mockComparison(
+      files.map((f) => f.name),
+      criteria,
+      tor
+    );
+    const events: [string, unknown][] = [
+      ...files.map((f): [string, unknown] => ["progress", { file: f.name, status: "queued" }]),
+      ...files.flatMap((f, i): [string, unknown][] => [
+        ["progress", { file: f.name, status: "processing" }],
+        ["candidate", result.candidates[i]],
+        ["progress", { file: f.name, status: "done" }],
+      ]),
+      ["result", result],
+    ];
+
+    const encoder = new TextEncoder();
+    let next = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        if (next >= events.length) {
+          controller.close();
+          return;
+        }
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        if (signal?.aborted) {
+          controller.error(new DOMException("The request was aborted.", "AbortError"));
+          return;
+        }
+        const [event, data] = events[next++];
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      },
+    });
+    return new Response(stream, { status: 200, headers: { "content-type": "text/event-stream" } });
+  };
@@ -0,0 +1,231 @@
+// Tesseract.js OCR service for turning ToR scans into text.
+//
+// Workers are expensive to start (engine + language data), so they are kept
+// in a small shared pool and reused across uploads. A worker is terminated
+// when its job is cancelled or fails (its state is then unknown), and after
+// sitting idle for a while.
+
+import { createWorker, type Page } from "tesseract.js";
+
+export const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+export const IMAGE_TYPES = ["image/jpeg", "image/png", "image/jpg"];
+
+export const OCR_LANGUAGES = [
+  { code: "eng", label: "English" },
+  { code: "fra", label: "French" },
+  { code: "spa", label: "Spanish" },
+  { code: "ben", label: "Bangla" },
+] as const;
+
+export type OcrLanguage = (typeof OCR_LANGUAGES)[number]["code"];
+
+// Words recognized below this confidence (0–100) are flagged for review.
+export const LOW_CONFIDENCE = 70;
+
+export interface OcrStatus {
+  status: string;
+  progress: number;
+}
+
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  // Whitespace that follows the word: a space, a line break or a paragraph break.
+  after: " " | "\n" | "\n\n";
+  corrected?: boolean;
+}
+
+export interface OcrResult {
+  text: string;
+  confidence: number;
+  words: OcrWord[];
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  "loading tesseract core": "Loading OCR engine",
+  "initializing tesseract": "Starting OCR engine",
+  "loading language traineddata": "Downloading language data",
+  "initializing api": "Preparing recognition",
+  "recognizing text": "Recognizing text",
+};
+
+export const describeStatus = (status: string) => STATUS_LABELS[status] ?? status;
+
+const wordsFromPage = (page: Page): OcrWord[] => {
+  const words: OcrWord[] = [];
+  (page.blocks ?? []).forEach((block) =>
+    block.paragraphs.forEach((paragraph) => {
+      paragraph.lines.forEach((line) => {
+        line.words.forEach((word) => words.push({ text: word.text, confidence: word.confidence, after: " " }));
+        if (words.length > 0) words[words.length - 1].after = "\n";
+      });
+      if (words.length > 0) words[words.length - 1].after = "\n\n";
+    })
+  );
+  return words;
+};
+
+export const joinWords = (words: OcrWord[]) =>
+  words
+    .map((w) => w.text + w.after)
+    .join("")
+    .trim();
+
+type Worker = Awaited<ReturnType<typeof createWorker>>;
+
+interface PooledWorker {
+  worker: Promise<Worker>;
+  languages: string;
+  busy: boolean;
+  onStatus?: (status: OcrStatus) => void;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+interface QueuedJob {
+  languages: string;
+  resolve: (entry: PooledWorker) => void;
+}
+
+const IDLE_TIMEOUT = 5 * 60 * 1000;
+const POOL_SIZE =
+  typeof navigator !== "undefined" && navigator.hardwareConcurrency > 2 ? 2 : 1;
+
+const pool: PooledWorker[] = [];
+const queue: QueuedJob[] = [];
+
+export class OcrCancelledError extends Error {
+  constructor() {
+    super("Text recognition was cancelled.");
+    this.name = "OcrCancelledError";
+  }
+}
+
+const languageKey = (languages: OcrLanguage[]) => (languages.length > 0 ? languages : ["eng"]).join("+");
+
+const spawn = (languages: string) => {
+  const entry = { languages, busy: true } as PooledWorker;
+  entry.worker = createWorker(languages, 1, {
+    logger: (m) => entry.onStatus?.({ status: m.status, progress: m.progress }),
+  });
+  pool.push(entry);
+  return entry;
+};
+
+const claim = (entry: PooledWorker, languages: string) => {
+  entry.busy = true;
+  clearTimeout(entry.idleTimer);
+  if (entry.languages !== languages) {
+    entry.languages = languages;
+    entry.worker = entry.worker.then(async (worker) => {
+      await worker.reinitialize(languages);
+      return worker;
+    });
+  }
+  return entry;
+};
+
+const dispatch = () => {
+  while (queue.length > 0) {
+    const job = queue[0];
+    const idle =
+      pool.find((e) => !e.busy && e.languages === job.languages) ?? pool.find((e) => !e.busy);
+    if (idle) {
+      queue.shift();
+      job.resolve(claim(idle, job.languages));
+    } else if (pool.length < POOL_SIZE) {
+      queue.shift();
+      job.resolve(spawn(job.languages));
+    } else {
+      return;
+    }
+  }
+};
+
+const discard = (entry: PooledWorker) => {
+  const index = pool.indexOf(entry);
+  if (index < 0) return;
+  pool.splice(index, 1);
+  clearTimeout(entry.idleTimer);
+  entry.onStatus = undefined;
+  entry.worker.then((worker) => worker.terminate()).catch(() => {});
+  dispatch();
+};
+
+const release = (entry: PooledWorker) => {
+  entry.busy = false;
+  entry.onStatus = undefined;
+  entry.idleTimer = setTimeout(() => discard(entry), IDLE_TIMEOUT);
+  dispatch();
+};
+
+const acquire = (languages: string, signal?: AbortSignal) =>
+  new Promise<PooledWorker>((resolve, reject) => {
+    const job: QueuedJob = {
+      languages,
+      resolve: (entry) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(entry);
+      },
+    };
+    const onAbort = () => {
+      const index = queue.indexOf(job);
+      if (index >= 0) queue.splice(index, 1);
+      reject(new OcrCancelledError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    queue.push(job);
+    dispatch();
+  });
+
+/** Rejects as soon as `signal` aborts, without waiting for `promise`. */
+const abortable = <T>(promise: Promise<T>, signal?: AbortSignal) =>
+  signal
+    ? new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(new OcrCancelledError());
+        signal.addEventListener("abort", onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+      })
+    : promise;
+
+export interface RecognizeOptions {
+  languages: OcrLanguage[];
+  signal?: AbortSignal;
+  // Engine stages (language download, recognition, ...) with 0–1 progress.
+  onStatus?: (status: OcrStatus) => void;
+}
+
+/**
+ * Recognizes one image on a pooled worker. `image` may be a function that
+ * produces the image; it is only called once a worker is free, so pages
+ * waiting for the pool are not all rendered into memory at once. Aborting
+ * `signal` rejects with `OcrCancelledError` and terminates the worker if the
+ * job had started.
+ */
+export const recognizeImage = async (
+  image: Blob | (() => Promise<Blob>),
+  { languages, signal, onStatus }: RecognizeOptions
+) => {
+  if (signal?.aborted) throw new OcrCancelledError();
+  const entry = await acquire(languageKey(languages), signal);
+  entry.onStatus = onStatus;
+  try {
+    const source = typeof image === "function" ? await abortable(image(), signal) : image;
+    const worker = await abortable(entry.worker, signal);
+    const { data } = await abortable(worker.recognize(source, {}, { text: true, blocks: true }), signal);
+    release(entry);
+    const words = wordsFromPage(data);
+    return {
+      text: words.length > 0 ? joinWords(words) : data.text.trim(),
+      confidence: data.confidence,
+      words,
+    } satisfies OcrResult;
+  } catch (err) {
+    discard(entry);
+    throw err;
+  }
+};
+
+/** Terminates the pooled workers that are not running a job. */
+export const terminateIdleWorkers = () => {
+  pool.filter((entry) => !entry.busy).forEach(discard);
+};
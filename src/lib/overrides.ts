@@ -0,0 +1,134 @@
+// Evaluator overrides of the scores in `detailed_evaluation`.
+//
+// The AI result is kept untouched; overrides are stored next to it and
+// applied on top, so the original score stays available for display and for
+// the audit trail in the report. An override may carry a comment only, to
+// annotate a criterion without changing its score.
+
+import { rankByScore, type JsonData } from "@/lib/schema";
+import { sortMatrix } from "@/lib/results";
+import type { ScenarioRow } from "@/lib/scenario";
+
+export interface ScoreOverride {
+  // Points out of the criterion weight; null keeps the AI score.
+  score: number | null;
+  comment: string;
+}
+
+// Candidate name -> criterion -> override.
+export type ScoreOverrides = Record<string, Record<string, ScoreOverride>>;
+
+export interface OverrideAuditEntry {
+  candidate_name: string;
+  criterion: string;
+  weight: number;
+  original_score: number;
+  score: number | null;
+  comment: string;
+}
+
+export interface OverrideAudit {
+  entries: OverrideAuditEntry[];
+  // Totals and ranks with the overrides against the AI result.
+  ranking: ScenarioRow[];
+}
+
+export const getOverride = (overrides: ScoreOverrides, candidate: string, criterion: string) =>
+  overrides[candidate]?.[criterion];
+
+/** Sets or clears one override; empty overrides are dropped so they do not show in the audit. */
+export const setOverride = (
+  overrides: ScoreOverrides,
+  candidate: string,
+  criterion: string,
+  override: ScoreOverride | null
+): ScoreOverrides => {
+  const forCandidate = { ...overrides[candidate] };
+  if (override && (override.score != null || override.comment.trim())) {
+    forCandidate[criterion] = override;
+  } else {
+    delete forCandidate[criterion];
+  }
+  const next = { ...overrides, [candidate]: forCandidate };
+  if (Object.keys(forCandidate).length === 0) delete next[candidate];
+  return next;
+};
+
+export const countOverrides = (overrides: ScoreOverrides) =>
+  Object.values(overrides).reduce((acc, criteria) => acc + Object.keys(criteria).length, 0);
+
+/**
+ * Returns the result with overridden criterion scores, candidate totals moved
+ * by the same difference and the comparison matrix re-ranked. Without score
+ * overrides the data is returned as is, keeping the AI ranking.
+ */
+export const applyOverrides = (data: JsonData, overrides: ScoreOverrides): JsonData => {
+  const deltas = new Map<string, number>();
+
+  const candidates = data.candidates.map((candidate) => {
+    const forCandidate = overrides[candidate.candidate_name];
+    if (!forCandidate) return candidate;
+    let delta = 0;
+    const detailed_evaluation = candidate.detailed_evaluation.map((item) => {
+      const override = forCandidate[item.criterion];
+      if (override?.score == null || override.score === item.score) return item;
+      delta += override.score - item.score;
+      return { ...item, score: override.score };
+    });
+    if (delta === 0) return candidate;
+    deltas.set(candidate.candidate_name, delta);
+    return {
+      ...candidate,
+      detailed_evaluation,
+      scores: {
+        ...candidate.scores,
+        total_score:
+          candidate.scores.total_score != null
+            ? candidate.scores.total_score + delta
+            : detailed_evaluation.reduce((acc, item) => acc + item.score, 0),
+      },
+    };
+  });
+
+  if (deltas.size === 0) return data;
+  return {
+    ...data,
+    candidates,
+    comparison_matrix: rankByScore(
+      data.comparison_matrix.map((m) => ({
+        candidate_name: m.candidate_name,
+        total_score: m.total_score + (deltas.get(m.candidate_name) ?? 0),
+      }))
+    ),
+  };
+};
+
+/** Every override with the AI score it replaces, plus the resulting change in ranking. */
+export const buildOverrideAudit = (data: JsonData, overrides: ScoreOverrides): OverrideAudit | null => {
+  const entries = data.candidates.flatMap((candidate) =>
+    candidate.detailed_evaluation.flatMap((item) => {
+      const override = getOverride(overrides, candidate.candidate_name, item.criterion);
+      if (!override) return [];
+      return [{
+        candidate_name: candidate.candidate_name,
+        criterion: item.criterion,
+        weight: item.weight,
+        original_score: item.score,
+        score: override.score,
+        comment: override.comment.trim(),
+      }];
+    })
+  );
+  if (entries.length === 0) return null;
+
+  const original = sortMatrix(data.comparison_matrix);
+  const ranking = sortMatrix(applyOverrides(data, overrides).comparison_matrix).map((row) => {
+    const match = original.find((m) => m.candidate_name === row.candidate_name);
+    return {
+      ...row,
+      original_score: match?.total_score ?? null,
+      original_rank: match?.rank ?? null,
+    };
+  });
+  return { entries, ranking };
+};
@@ -0,0 +1,154 @@
+// Independent scoring by a panel of named evaluators against one AI result,
+// and the consensus drawn from it.
+//
+// Each evaluator scores criteria in the same points-out-of-weight scale as
+// `detailed_evaluation`. The consensus takes the mean per criterion and flags
+// criteria whose spread (highest minus lowest score) exceeds a share of the
+// criterion weight. Criteria nobody scored fall back to the AI score, so a
+// partly scored panel still produces a total comparable with the AI one.
+
+import { rankByScore, type JsonData } from "@/lib/schema";
+import { sortMatrix } from "@/lib/results";
+
+// Candidate name -> criterion -> score.
+export type EvaluatorScores = Record<string, Record<string, number>>;
+
+// Evaluator name -> their scores.
+export type PanelScores = Record<string, EvaluatorScores>;
+
+// Spread above this percentage of the criterion weight is flagged.
+export const DEFAULT_DISAGREEMENT_THRESHOLD = 20;
+
+export interface ConsensusCriterion {
+  criterion: string;
+  weight: number;
+  ai_score: number;
+  // One entry per evaluator, in `evaluators` order; null when not scored.
+  scores: (number | null)[];
+  mean: number | null;
+  spread: number | null;
+  flagged: boolean;
+}
+
+export interface ConsensusCandidate {
+  candidate_name: string;
+  criteria: ConsensusCriterion[];
+  total_score: number;
+  // Criteria without any panel score, counted at their AI score.
+  unscored: number;
+  flags: number;
+}
+
+export interface ConsensusRow {
+  candidate_name: string;
+  total_score: number;
+  rank: number;
+  ai_score: number | null;
+  ai_rank: number | null;
+  unscored: number;
+  flags: number;
+}
+
+export interface Consensus {
+  evaluators: string[];
+  candidates: ConsensusCandidate[];
+  ranking: ConsensusRow[];
+}
+
+export const evaluatorNames = (panel: PanelScores) => Object.keys(panel);
+
+export const addEvaluator = (panel: PanelScores, name: string): PanelScores => {
+  const trimmed = name.trim();
+  if (!trimmed || trimmed in panel) return panel;
+  return { ...panel, [trimmed]: {} };
+};
+
+export const removeEvaluator = (panel: PanelScores, name: string): PanelScores => {
+  const next = { ...panel };
+  delete next[name];
+  return next;
+};
+
+/** Sets one evaluator's score for a criterion; null clears it. */
+export const setPanelScore = (
+  panel: PanelScores,
+  evaluator: string,
+  candidate: string,
+  criterion: string,
+  score: number | null
+): PanelScores => {
+  const forCandidate = { ...panel[evaluator]?.[candidate] };
+  if (score == null) {
+    delete forCandidate[criterion];
+  } else {
+    forCandidate[criterion] = score;
+  }
+  const scores = { ...panel[evaluator], [candidate]: forCandidate };
+  if (Object.keys(forCandidate).length === 0) delete scores[candidate];
+  return { ...panel, [evaluator]: scores };
+};
+
+/** Criteria the evaluator has scored, out of all criteria of all candidates. */
+export const scoringProgress = (data: JsonData, panel: PanelScores, evaluator: string) => {
+  const scores = panel[evaluator] ?? {};
+  const total = data.candidates.reduce((acc, c) => acc + c.detailed_evaluation.length, 0);
+  const done = data.candidates.reduce(
+    (acc, c) => acc + c.detailed_evaluation.filter((d) => scores[c.candidate_name]?.[d.criterion] != null).length,
+    0
+  );
+  return { done, total };
+};
+
+const mean = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+
+export const buildConsensus = (
+  data: JsonData,
+  panel: PanelScores,
+  threshold = DEFAULT_DISAGREEMENT_THRESHOLD
+): Consensus => {
+  const evaluators = evaluatorNames(panel);
+
+  const candidates = data.candidates.map((candidate) => {
+    const criteria = candidate.detailed_evaluation.map((item) => {
+      const scores = evaluators.map((name) => panel[name][candidate.candidate_name]?.[item.criterion] ?? null);
+      const present = scores.filter((s): s is number => s != null);
+      const spread = present.length > 1 ? Math.max(...present) - Math.min(...present) : present.length === 1 ? 0 : null;
+      return {
+        criterion: item.criterion,
+        weight: item.weight,
+        ai_score: item.score,
+        scores,
+        mean: present.length > 0 ? mean(present) : null,
+        spread,
+        flagged: spread != null && item.weight > 0 && (spread / item.weight) * 100 > threshold,
+      };
+    });
+    return {
+      candidate_name: candidate.candidate_name,
+      criteria,
+      // Moved from the AI total by the panel's differences, as with overrides.
+      total_score:
+        (candidate.scores.total_score ?? criteria.reduce((acc, c) => acc + c.ai_score, 0)) +
+        criteria.reduce((acc, c) => acc + (c.mean != null ? c.mean - c.ai_score : 0), 0),
+      unscored: criteria.filter((c) => c.mean == null).length,
+      flags: criteria.filter((c) => c.flagged).length,
+    };
+  });
+
+  const aiRanking = sortMatrix(data.comparison_matrix);
+  const ranking = rankByScore(candidates).map((row) => {
+    const candidate = candidates.find((c) => c.candidate_name === row.candidate_name);
+    const ai = aiRanking.find((m) => m.candidate_name === row.candidate_name);
+    return {
+      candidate_name: row.candidate_name,
+      total_score: row.total_score,
+      rank: row.rank,
+      ai_score: ai?.total_score ?? null,
+      ai_rank: ai?.rank ?? null,
+      unscored: candidate?.unscored ?? 0,
+      flags: candidate?.flags ?? 0,
+    };
+  });
+
+  return { evaluators, candidates, ranking };
+};
@@ -0,0 +1,50 @@
+// In-browser PDF reading with pdf.js: embedded text per page, and page
+// rasterizing for scans that have no text layer. pdf.js is imported lazily
+// (it touches browser globals on load and is large).
+
+import type { PDFDocumentProxy } from "pdfjs-dist";
+
+// Pages with less embedded text than this are treated as scanned images.
+export const MIN_PAGE_TEXT = 20;
+
+const loadPdfJs = async () => {
+  const pdfjs = await import("pdfjs-dist");
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString();
+  }
+  return pdfjs;
+};
+
+export const openPdf = async (file: Blob): Promise<PDFDocumentProxy> => {
+  const pdfjs = await loadPdfJs();
+  return pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+};
+
+/** Embedded text of a 1-based page, with lines kept where pdf.js reports breaks. */
+export const pageText = async (pdf: PDFDocumentProxy, pageNumber: number) => {
+  const page = await pdf.getPage(pageNumber);
+  const content = await page.getTextContent();
+  return content.items
+    .map((item) => ("str" in item ? item.str + (item.hasEOL ? "\n" : "") : ""))
+    .join("")
+    .replace(/[ \t]+\n/g, "\n")
+    .trim();
+};
+
+/** Renders a 1-based page to a PNG blob, at a scale that suits OCR (~200 DPI). */
+export const renderPage = async (pdf: PDFDocumentProxy, pageNumber: number, scale = 2.5) => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available.");
+  await page.render({ canvasContext: ctx, viewport }).promise;
+  page.cleanup();
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to render PDF page."))), "image/png")
+  );
+};
+
+export const isPdf = (file: File) => file.type === "application/pdf" || /\.pdf$/i.test(file.name);
@@ -0,0 +1,93 @@
+// Unicode fonts for the PDF report. jsPDF's built-in Helvetica only encodes
+// WinAnsi (Western European) text, so a Bangla ToR or a Cyrillic candidate
+// name would print as garbage. Noto Sans covers Latin, Greek and Cyrillic and
+// Noto Sans Bengali covers Bangla; each is fetched and embedded only when the
+// report holds text that needs it, so plain English reports stay small.
+//
+// jsPDF does no complex-script shaping: Bangla conjuncts print as their
+// component letters, which is legible where Helvetica printed nothing usable.
+
+import type { jsPDF } from "jspdf";
+
+export type PdfFontFamily = "helvetica" | "NotoSans" | "NotoSansBengali";
+
+export type PdfFontStyle = "normal" | "bold";
+
+type EmbeddedFamily = Exclude<PdfFontFamily, "helvetica">;
+
+const fontUrls = (family: EmbeddedFamily): Record<PdfFontStyle, URL> =>
+  family === "NotoSansBengali"
+    ? {
+        normal: new URL("@expo-google-fonts/noto-sans-bengali/400Regular/NotoSansBengali_400Regular.ttf", import.meta.url),
+        bold: new URL("@expo-google-fonts/noto-sans-bengali/700Bold/NotoSansBengali_700Bold.ttf", import.meta.url),
+      }
+    : {
+        normal: new URL("@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf", import.meta.url),
+        bold: new URL("@expo-google-fonts/noto-sans/700Bold/NotoSans_700Bold.ttf", import.meta.url),
+      };
+
+const BENGALI = /[\u0980-\u09FF]/;
+// What Helvetica can show: Latin-1 plus the punctuation WinAnsi adds in 0x80-0x9F.
+const WIN_ANSI =
+  /^[\t\n\r\u0020-\u007E\u00A0-\u00FF\u0152\u0153\u0160\u0161\u0178\u017D\u017E\u0192\u02C6\u02DC\u2013\u2014\u2018-\u201A\u201C-\u201E\u2020-\u2022\u2026\u2030\u2039\u203A\u20AC\u2122]*$/;
+
+/**
+ * The font a piece of text needs; Helvetica whenever it can show all of it.
+ * Text mixing Bangla with another non-Latin script gets the Bangla font.
+ */
+export const fontFamilyFor = (text: string): PdfFontFamily =>
+  BENGALI.test(text) ? "NotoSansBengali" : WIN_ANSI.test(text) ? "helvetica" : "NotoSans";
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fetchFont = async (url: URL) => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Font request failed with status ${res.status}.`);
+  return toBase64(new Uint8Array(await res.arrayBuffer()));
+};
+
+/**
+ * Embeds the fonts `texts` need into `doc` and returns the font picker for
+ * the report. A font that fails to load falls back to Helvetica rather than
+ * costing the user the whole report.
+ */
+export const loadPdfFonts = async (doc: jsPDF, texts: string[]) => {
+  // A string holding Bangla may also hold other non-Latin text that needs Noto Sans.
+  const combined = texts.join("\n");
+  const needed = new Set([fontFamilyFor(combined), fontFamilyFor(combined.replace(new RegExp(BENGALI, "g"), ""))]);
+  const families = (["NotoSans", "NotoSansBengali"] as const).filter((family) => needed.has(family));
+  const loaded = new Set<PdfFontFamily>(["helvetica"]);
+
+  await Promise.all(
+    families.map(async (family) => {
+      try {
+        const urls = fontUrls(family);
+        const [normal, bold] = await Promise.all([fetchFont(urls.normal), fetchFont(urls.bold)]);
+        (
+          [
+            ["normal", normal],
+            ["bold", bold],
+          ] as const
+        ).forEach(([style, data]) => {
+          const file = `${family}-${style}.ttf`;
+          doc.addFileToVFS(file, data);
+          doc.addFont(file, family, style);
+        });
+        loaded.add(family);
+      } catch (err) {
+        console.error("PDF font load error:", err);
+      }
+    })
+  );
+
+  return (text: string): PdfFontFamily => {
+    const family = fontFamilyFor(text);
+    return loaded.has(family) ? family : "helvetica";
+  };
+};
@@ -0,0 +1,366 @@
+// Browser-side PDF version of the evaluation report, with the same content
+// as `generateDocxReport` plus a cover page, a table of contents and page
+// numbers.
+//
+// jsPDF writes pages in order, so the contents pages are reserved up front
+// (the number of entries is known before rendering) and filled in once every
+// heading's page number is known.
+
+import { saveAs } from "file-saver";
+import type { JsonData } from "@/lib/schema";
+import { categoryWeight, resolveCriteria, scoreBreakdown } from "@/lib/criteria";
+import { criterionNames, getFulfillmentForCandidate, sortMatrix } from "@/lib/results";
+import { applyWeights, baseWeights, rankChange } from "@/lib/scenario";
+import { loadReportLogo, renderReportCharts, reportDate, type ChartImage, type ReportOptions } from "@/lib/report";
+import { loadPdfFonts } from "@/lib/pdfFonts";
+import {
+  DEFAULT_REPORT_CONFIG,
+  enabledSections,
+  reportFileName,
+  reportTitle,
+  type ReportSectionKey,
+} from "@/lib/reportConfig";
+const MARGIN = 20;
+const FOOTER_HEIGHT = 12;
+const TOC_LINE = 7;
+const TOC_ENTRIES_PER_PAGE = 32;
+// Chart images are rendered at 96 dpi CSS pixels.
+const PX_TO_MM = 25.4 / 96;
+
+interface TocEntry {
+  title: string;
+  level: 1 | 2;
+  page: number;
+}
+
+const score = (value: number | null | undefined) => (value != null ? value.toFixed(2) : "N/A");
+
+export const generatePdfReport = async (reportData: JsonData, options: ReportOptions = {}) => {
+  const config = options.config ?? DEFAULT_REPORT_CONFIG;
+  const title = reportTitle(config);
+  const sections = enabledSections(config);
+  const grid = resolveCriteria(reportData);
+  const sortedMatrix = sortMatrix(reportData.comparison_matrix);
+  const allCriteria = criterionNames(reportData);
+  const [{ jsPDF }, { autoTable }, charts, logo] = await Promise.all([
+    import("jspdf"),
+    import("jspdf-autotable"),
+    sections.includes("candidates") || sections.includes("ranking")
+      ? renderReportCharts(reportData, grid)
+      : { ranking: null, overlay: null, perCandidate: {} as Record<string, ChartImage | null> },
+    loadReportLogo(),
+  ]);
+
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  // Every string in the report comes from these, so they decide which fonts to embed.
+  const fontFor = await loadPdfFonts(doc, [JSON.stringify(reportData), JSON.stringify(options), JSON.stringify(config)]);
+  const pageWidth = () => doc.internal.pageSize.getWidth();
+  const pageHeight = () => doc.internal.pageSize.getHeight();
+  const bodyWidth = () => pageWidth() - MARGIN * 2;
+  const toc: TocEntry[] = [];
+  let y = MARGIN;
+
+  const newPage = (orientation: "portrait" | "landscape" = "portrait") => {
+    doc.addPage("a4", orientation);
+    y = MARGIN;
+  };
+
+  const ensure = (height: number) => {
+    if (y + height > pageHeight() - MARGIN - FOOTER_HEIGHT) newPage();
+  };
+
+  const heading = (title: string, level: 1 | 2 | 3) => {
+    const size = level === 1 ? 18 : level === 2 ? 14 : 12;
+    ensure(size * 0.8 + 8);
+    y += level === 1 ? 0 : 4;
+    doc.setFont(fontFor(title), "bold").setFontSize(size).setTextColor(level === 1 ? "#1e3a8a" : "#111827");
+    doc.text(title, MARGIN, y + size * 0.35);
+    if (level < 3) toc.push({ title, level: level as 1 | 2, page: doc.getNumberOfPages() });
+    y += size * 0.35 + 5;
+  };
+
+  const paragraph = (text: string, { bold = false, indent = 0, bullet = false, size = 10 } = {}) => {
+    doc.setFont(fontFor(text), bold ? "bold" : "normal").setFontSize(size).setTextColor("#1f2937");
+    const x = MARGIN + indent + (bullet ? 4 : 0);
+    const lines: string[] = doc.splitTextToSize(text, bodyWidth() - indent - (bullet ? 4 : 0));
+    const lineHeight = size * 0.45;
+    lines.forEach((line, i) => {
+      ensure(lineHeight);
+      if (bullet && i === 0) doc.text("•", MARGIN + indent, y + lineHeight * 0.75);
+      doc.text(line, x, y + lineHeight * 0.75);
+      y += lineHeight;
+    });
+    y += 2;
+  };
+
+  const chart = (image: ChartImage | null, maxWidth = 160) => {
+    if (!image) return;
+    const width = Math.min(maxWidth, bodyWidth(), image.width * PX_TO_MM);
+    const height = (image.height / image.width) * width;
+    ensure(height + 4);
+    doc.addImage(image.data, "PNG", (pageWidth() - width) / 2, y, width, height);
+    y += height + 4;
+  };
+
+  const table = (head: string[], body: string[][], fontSize = 9) => {
+    autoTable(doc, {
+      head: [head],
+      body,
+      startY: y,
+      margin: { left: MARGIN, right: MARGIN, top: MARGIN, bottom: MARGIN + FOOTER_HEIGHT },
+      styles: { fontSize, cellPadding: 2, overflow: "linebreak", valign: "top" },
+      headStyles: { fillColor: "#2563eb", textColor: "#ffffff" },
+      alternateRowStyles: { fillColor: "#f3f4f6" },
+      didParseCell: (data) => {
+        data.cell.styles.font = fontFor(data.cell.text.join("\n"));
+      },
+      didDrawPage: (data) => {
+        if (data.cursor) y = data.cursor.y;
+      },
+    });
+    y += 6;
+  };
+
+  // Cover page
+  if (logo) {
+    const width = 60;
+    const height = (logo.height / logo.width) * width;
+    doc.addImage(logo.data, "PNG", (pageWidth() - width) / 2, 60, width, height);
+  }
+  doc.setFont(fontFor(title), "bold").setFontSize(26).setTextColor("#1e3a8a");
+  const titleLines: string[] = doc.splitTextToSize(title, bodyWidth());
+  doc.text(titleLines, pageWidth() / 2, 130, { align: "center" });
+  doc.setFontSize(12).setTextColor("#374151");
+  const coverLines = [
+    config.referenceNumber.trim() && `Reference: ${config.referenceNumber.trim()}`,
+    `${reportData.candidates.length} candidate${reportData.candidates.length === 1 ? "" : "s"} evaluated`,
+    `Recommended: ${reportData.final_recommendation?.best_candidate || "None"}`,
+    config.evaluators.length > 0 && `Evaluators: ${config.evaluators.join(", ")}`,
+    `Generated ${reportDate()}`,
+  ].filter((line): line is string => !!line);
+  const coverTop = 130 + titleLines.length * 11 + 4;
+  coverLines.forEach((line, i) =>
+    doc.setFont(fontFor(line), "normal").text(line, pageWidth() / 2, coverTop + i * 8, { align: "center" })
+  );
+
+  // Contents pages, filled in at the end.
+  const tocCounts: Record<ReportSectionKey, number> = {
+    tor: 1,
+    criteria: 1,
+    candidates: 1 + reportData.candidates.length,
+    ranking: 1 + (charts.ranking || charts.overlay ? 1 : 0) + (options.scenario ? 1 : 0),
+    recommendation: 1,
+    fulfillment: 1,
+  };
+  const tocCount =
+    sections.reduce((acc, key) => acc + tocCounts[key], 0) +
+    (options.overrides ? 2 : 0) +
+    (config.signatureBlock ? 1 : 0);
+  const tocPages = Math.ceil(tocCount / TOC_ENTRIES_PER_PAGE);
+  for (let i = 0; i < tocPages; i++) newPage();
+
+  const renderers: Record<ReportSectionKey, () => void> = {
+    tor: () => {
+      newPage();
+      heading("Terms of Reference", 1);
+      paragraph(reportData.tor_text || "No ToR text provided.");
+    },
+    criteria: () => {
+      newPage();
+      heading("Evaluation Criteria", 1);
+      grid.forEach((category) => {
+        heading(`${category.name} - ${categoryWeight(category)}%`, 3);
+        category.subcriteria.forEach((sub) => paragraph(`${sub.name}: ${sub.weight}%`, { bullet: true }));
+      });
+    },
+    candidates: () => {
+      newPage();
+      heading("Candidates", 1);
+      reportData.candidates.forEach((candidate, i) => {
+        if (i > 0) ensure(60);
+        heading(candidate.candidate_name || "Unnamed Candidate", 2);
+        paragraph(`Recommendation: ${candidate.recommendation || "Not Evaluated"}`);
+        paragraph(`Total Score: ${score(candidate.scores?.total_score)}`);
+        paragraph(`Strengths: ${candidate.summary_justification?.key_strengths || "None provided."}`);
+        paragraph(`Weaknesses: ${candidate.summary_justification?.key_weaknesses || "None provided."}`);
+        heading("Scores", 3);
+        scoreBreakdown(candidate, grid).categories.forEach((category) => {
+          paragraph(`${category.name} - ${category.weight}%`, { bullet: true });
+          category.items.forEach((item) => paragraph(`${item.name}: ${score(item.score)}`, { bullet: true, indent: 6 }));
+        });
+        chart(charts.perCandidate[candidate.candidate_name] ?? null, 95);
+        heading("Detailed Evaluation", 3);
+        table(
+          ["Criterion", "Weight", "Score", "Justification"],
+          candidate.detailed_evaluation.map((item) => [
+            item.criterion,
+            `${item.weight}%`,
+            score(item.score),
+            item.justification || "None provided.",
+          ])
+        );
+      });
+    },
+    ranking: () => {
+      newPage();
+      heading("Comparison Ranking", 1);
+      table(
+        ["Candidate Name", "Total Score", "Rank"],
+        sortedMatrix.map((m) => [m.candidate_name || "Unnamed Candidate", score(m.total_score), m.rank?.toString() || "N/A"])
+      );
+      if (charts.ranking || charts.overlay) {
+        heading("Score Charts", 2);
+        chart(charts.ranking);
+        chart(charts.overlay, 115);
+      }
+      if (options.scenario) {
+        const base = baseWeights(grid);
+        const scenario = options.scenario;
+        heading("What-if Scenario", 2);
+        paragraph("Ranking recomputed from the criterion scores with the following adjusted weights (normalized to 100):");
+        Object.keys(base).forEach((name) =>
+          paragraph(
+            scenario[name] != null && scenario[name] !== base[name]
+              ? `${name}: ${scenario[name]}% (original ${base[name]}%)`
+              : `${name}: ${base[name]}%`,
+            { bullet: true }
+          )
+        );
+        table(
+          ["Rank", "Candidate Name", "Adjusted Score", "Original Score", "Rank Change"],
+          applyWeights(reportData, grid, scenario).map((row) => {
+            const change = rankChange(row);
+            return [
+              row.rank.toString(),
+              row.candidate_name || "Unnamed Candidate",
+              row.total_score.toFixed(2),
+              score(row.original_score),
+              change == null ? "N/A" : change > 0 ? `+${change}` : change.toString(),
+            ];
+          })
+        );
+      }
+    },
+    recommendation: () => {
+      newPage();
+      heading("Final Recommendation", 1);
+      const recommendation = reportData.final_recommendation;
+      paragraph(`Best Candidate: ${recommendation?.best_candidate || "None"}`, { bold: true });
+      paragraph(`Decision: ${recommendation?.final_decision || "Not Evaluated"}`);
+      if (typeof recommendation?.justification === "string") {
+        heading("Justification", 3);
+        paragraph(recommendation.justification || "No justification provided.");
+      } else {
+        heading("Detailed Explanation", 3);
+        paragraph(recommendation?.justification?.detailed_explanation || "No detailed explanation provided.");
+        heading("Why Recommended Candidate", 3);
+        paragraph(recommendation?.justification?.why_he || "No reason provided for recommended candidate.");
+        heading("Why Not Other Candidates", 3);
+        (recommendation?.justification?.why_not_others || []).forEach((other) => {
+          paragraph(`Candidate: ${other.candidate_name || "Unnamed Candidate"}`, { bullet: true });
+          paragraph(`Reason: ${other.reason || "No reason provided."}`, { bullet: true, indent: 6 });
+        });
+      }
+    },
+    fulfillment: () => {
+      // The fulfillment matrix has a column per criterion, so it gets a landscape page.
+      newPage("landscape");
+      heading("CV Comparison Table", 1);
+      table(
+        ["Candidate Name", ...allCriteria],
+        reportData.candidates.map((candidate) => {
+          const fulfillment = getFulfillmentForCandidate(candidate, allCriteria);
+          return [candidate.candidate_name || "Unnamed Candidate", ...allCriteria.map((crit) => fulfillment[crit] || "N/A")];
+        }),
+        allCriteria.length > 8 ? 6 : 7
+      );
+    },
+  };
+  sections.forEach((key) => renderers[key]());
+
+  if (options.overrides) {
+    newPage();
+    heading("Evaluator Overrides", 1);
+    paragraph("Scores changed or annotated by the evaluation panel. Totals and ranks in this report include these overrides.");
+    table(
+      ["Candidate Name", "Criterion", "AI Score", "Panel Score", "Comment"],
+      options.overrides.entries.map((entry) => [
+        entry.candidate_name || "Unnamed Candidate",
+        `${entry.criterion} (${entry.weight}%)`,
+        entry.original_score.toFixed(2),
+        entry.score != null ? entry.score.toFixed(2) : "Unchanged",
+        entry.comment || "-",
+      ])
+    );
+    heading("Effect on Ranking", 2);
+    table(
+      ["Rank", "Candidate Name", "Panel Score", "AI Score", "Rank Change"],
+      options.overrides.ranking.map((row) => {
+        const change = rankChange(row);
+        return [
+          row.rank.toString(),
+          row.candidate_name || "Unnamed Candidate",
+          row.total_score.toFixed(2),
+          score(row.original_score),
+          change == null ? "N/A" : change > 0 ? `+${change}` : change.toString(),
+        ];
+      })
+    );
+  }
+
+  if (config.signatureBlock) {
+    newPage();
+    heading("Sign-off", 1);
+    table(
+      ["Evaluator", "Signature", "Date"],
+      (config.evaluators.length > 0 ? config.evaluators : ["", ""]).map((name) => [name, "", ""]),
+      10
+    );
+  }
+
+  // Table of contents
+  toc.slice(0, tocPages * TOC_ENTRIES_PER_PAGE).forEach((entry, i) => {
+    const tocPage = 2 + Math.floor(i / TOC_ENTRIES_PER_PAGE);
+    doc.setPage(tocPage);
+    const lineY = MARGIN + 18 + (i % TOC_ENTRIES_PER_PAGE) * TOC_LINE;
+    if (i % TOC_ENTRIES_PER_PAGE === 0) {
+      doc.setFont("helvetica", "bold").setFontSize(18).setTextColor("#1e3a8a");
+      doc.text(i === 0 ? "Contents" : "Contents (continued)", MARGIN, MARGIN + 6);
+    }
+    const indent = entry.level === 1 ? 0 : 6;
+    const style = entry.level === 1 ? "bold" : "normal";
+    doc.setFont(fontFor(entry.title), style).setFontSize(11).setTextColor("#1f2937");
+    const label = doc.splitTextToSize(entry.title, bodyWidth() - indent - 20)[0] as string;
+    doc.textWithLink(label, MARGIN + indent, lineY, { pageNumber: entry.page });
+    const dotsFrom = MARGIN + indent + doc.getTextWidth(label) + 2;
+    doc.setFont("helvetica", style).text(String(entry.page), pageWidth() - MARGIN, lineY, { align: "right" });
+    doc.setDrawColor("#d1d5db").setLineDashPattern([0.5, 1], 0);
+    const dotsTo = pageWidth() - MARGIN - doc.getTextWidth(String(entry.page)) - 2;
+    if (dotsTo > dotsFrom) doc.line(dotsFrom, lineY, dotsTo, lineY);
+    doc.setLineDashPattern([], 0);
+  });
+
+  // Header and page numbers on every page but the cover.
+  const total = doc.getNumberOfPages();
+  for (let page = 2; page <= total; page++) {
+    doc.setPage(page);
+    if (config.headerFooter) {
+      let x = MARGIN;
+      if (logo) {
+        const height = 7;
+        doc.addImage(logo.data, "PNG", x, 6, (logo.width / logo.height) * height, height);
+        x += (logo.width / logo.height) * height + 4;
+      }
+      const reference = config.referenceNumber.trim();
+      const header = reference ? `${title}  ·  Ref. ${reference}` : title;
+      doc.setFont(fontFor(header), "bold").setFontSize(9).setTextColor("#374151");
+      doc.text(header, x, 11);
+    }
+    doc.setFont(fontFor(title), "normal").setFontSize(9).setTextColor("#6b7280");
+    doc.text(title, MARGIN, pageHeight() - MARGIN / 2);
+    doc.setFont("helvetica", "normal");
+    doc.text(`Page ${page} of ${total}`, pageWidth() - MARGIN, pageHeight() - MARGIN / 2, { align: "right" });
+  }
+
+  saveAs(doc.output("blob"), reportFileName(config, "pdf"));
+};
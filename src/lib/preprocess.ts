@@ -0,0 +1,212 @@
+// Canvas-based image cleanup applied to ToR scans before OCR.
+//
+// Order matters: skew is estimated on the grayscale image, cropping runs on
+// the straightened page, and binarization comes last so the crop and skew
+// estimates use the same Otsu threshold as the final output.
+
+export interface PreprocessOptions {
+  grayscale: boolean;
+  deskew: boolean;
+  crop: boolean;
+  threshold: boolean;
+}
+
+export const DEFAULT_PREPROCESS: PreprocessOptions = {
+  grayscale: true,
+  deskew: true,
+  crop: true,
+  threshold: false,
+};
+
+const MAX_SKEW = 10;
+const CROP_PADDING = 16;
+
+const toCanvas = async (image: Blob) => {
+  const bitmap = await createImageBitmap(image);
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available.");
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas;
+};
+
+const context = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is not available.");
+  return ctx;
+};
+
+const luminance = (data: Uint8ClampedArray) => {
+  const gray = new Uint8ClampedArray(data.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+/** Otsu's method: the gray level that best separates ink from paper. */
+export const otsuThreshold = (gray: Uint8ClampedArray) => {
+  const histogram = new Array<number>(256).fill(0);
+  gray.forEach((v) => histogram[v]++);
+  const total = gray.length;
+  const sumAll = histogram.reduce((acc, count, level) => acc + count * level, 0);
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 0;
+  let threshold = 127;
+  for (let level = 0; level < 256; level++) {
+    weightBackground += histogram[level];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += level * histogram[level];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const between = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = level;
+    }
+  }
+  return threshold;
+};
+
+/**
+ * Estimates page skew in degrees by projecting ink pixels onto rotated
+ * rows: text lines line up (and the row histogram is spikiest) at the
+ * angle that cancels the skew.
+ */
+export const estimateSkew = (gray: Uint8ClampedArray, width: number, height: number, threshold: number) => {
+  const step = Math.max(1, Math.floor(Math.sqrt((width * height) / 40000)));
+  const points: [number, number][] = [];
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      if (gray[y * width + x] < threshold) points.push([x, y]);
+    }
+  }
+  if (points.length < 50) return 0;
+
+  const spikiness = (degrees: number) => {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const bins = new Map<number, number>();
+    points.forEach(([x, y]) => {
+      const row = Math.round((y * cos - x * sin) / step);
+      bins.set(row, (bins.get(row) ?? 0) + 1);
+    });
+    let score = 0;
+    bins.forEach((count) => (score += count * count));
+    return score;
+  };
+
+  const search = (from: number, to: number, increment: number) => {
+    let bestAngle = from;
+    let bestScore = -1;
+    for (let angle = from; angle <= to + 1e-9; angle += increment) {
+      const score = spikiness(angle);
+      if (score > bestScore) {
+        bestScore = score;
+        bestAngle = angle;
+      }
+    }
+    return bestAngle;
+  };
+
+  const coarse = search(-MAX_SKEW, MAX_SKEW, 1);
+  return search(coarse - 1, coarse + 1, 0.1);
+};
+
+const rotate = (canvas: HTMLCanvasElement, degrees: number) => {
+  const radians = (degrees * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+  const rotated = document.createElement("canvas");
+  rotated.width = Math.ceil(canvas.width * cos + canvas.height * sin);
+  rotated.height = Math.ceil(canvas.width * sin + canvas.height * cos);
+  const ctx = context(rotated);
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, rotated.width, rotated.height);
+  ctx.translate(rotated.width / 2, rotated.height / 2);
+  ctx.rotate(-radians);
+  ctx.drawImage(canvas, -canvas.width / 2, -canvas.height / 2);
+  return rotated;
+};
+
+const contentBounds = (gray: Uint8ClampedArray, width: number, height: number, threshold: number) => {
+  let top = height;
+  let left = width;
+  let bottom = -1;
+  let right = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] < threshold) {
+        if (y < top) top = y;
+        if (y > bottom) bottom = y;
+        if (x < left) left = x;
+        if (x > right) right = x;
+      }
+    }
+  }
+  if (bottom < 0) return null;
+  return {
+    x: Math.max(0, left - CROP_PADDING),
+    y: Math.max(0, top - CROP_PADDING),
+    width: Math.min(width, right + CROP_PADDING) - Math.max(0, left - CROP_PADDING),
+    height: Math.min(height, bottom + CROP_PADDING) - Math.max(0, top - CROP_PADDING),
+  };
+};
+
+const grayData = (canvas: HTMLCanvasElement) =>
+  luminance(context(canvas).getImageData(0, 0, canvas.width, canvas.height).data);
+
+/** Returns a cleaned-up PNG of `image`; with every option off it is returned unchanged. */
+export const preprocessImage = async (image: Blob, options: PreprocessOptions): Promise<Blob> => {
+  if (!options.grayscale && !options.deskew && !options.crop && !options.threshold) return image;
+
+  let canvas = await toCanvas(image);
+  let gray = grayData(canvas);
+  const threshold = otsuThreshold(gray);
+
+  if (options.deskew) {
+    const skew = estimateSkew(gray, canvas.width, canvas.height, threshold);
+    if (Math.abs(skew) >= 0.2) {
+      canvas = rotate(canvas, skew);
+      gray = grayData(canvas);
+    }
+  }
+
+  if (options.crop) {
+    const bounds = contentBounds(gray, canvas.width, canvas.height, threshold);
+    if (bounds && (bounds.width < canvas.width || bounds.height < canvas.height)) {
+      const cropped = document.createElement("canvas");
+      cropped.width = bounds.width;
+      cropped.height = bounds.height;
+      context(cropped).drawImage(canvas, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+      canvas = cropped;
+      gray = grayData(canvas);
+    }
+  }
+
+  if (options.grayscale || options.threshold) {
+    const ctx = context(canvas);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    for (let i = 0; i < gray.length; i++) {
+      const value = options.threshold ? (gray[i] < threshold ? 0 : 255) : gray[i];
+      imageData.data[i * 4] = value;
+      imageData.data[i * 4 + 1] = value;
+      imageData.data[i * 4 + 2] = value;
+    }
+    ctx.putImageData(imageData, 0, 0);
+  }
+
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to prepare image."))), "image/png")
+  );
+};
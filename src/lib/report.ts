@@ -0,0 +1,557 @@
+import { saveAs } from "file-saver";
+import type { JsonData } from "@/lib/schema";
+import { categoryWeight, resolveCriteria, scoreBreakdown, type CriteriaGrid } from "@/lib/criteria";
+import { criterionNames, getFulfillmentForCandidate, sortMatrix } from "@/lib/results";
+import { applyWeights, baseWeights, rankChange, type WeightMap } from "@/lib/scenario";
+import type { OverrideAudit } from "@/lib/overrides";
+import {
+  BAR_CHART_WIDTH,
+  RADAR_SIZE,
+  radarAxes,
+  radarChartSvg,
+  radarHeight,
+  radarSeries,
+  rankingBars,
+  stackedBarChartSvg,
+  stackedBarHeight,
+  svgToPng,
+} from "@/lib/charts";
+import {
+  DEFAULT_REPORT_CONFIG,
+  enabledSections,
+  reportFileName,
+  reportTitle,
+  type ReportConfig,
+  type ReportSectionKey,
+} from "@/lib/reportConfig";
+
+export interface ChartImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+const renderChart = async (svg: string, width: number, height: number): Promise<ChartImage | null> => {
+  try {
+    return { data: await svgToPng(svg, width, height), width, height };
+  } catch (err) {
+    // A missing chart should not cost the user the whole report.
+    console.error("Chart render error:", err);
+    return null;
+  }
+};
+
+export const renderReportCharts = async (reportData: JsonData, grid: CriteriaGrid) => {
+  const axes = radarAxes(grid);
+  const radarFor = (names: string[]) => {
+    const series = radarSeries(reportData, grid, names);
+    return axes.length >= 3 && series.length > 0
+      ? renderChart(radarChartSvg({ axes, series }), RADAR_SIZE, radarHeight(series.length))
+      : Promise.resolve(null);
+  };
+
+  const bars = rankingBars(reportData, grid);
+  const ranking = await renderChart(
+    stackedBarChartSvg({ categories: grid.map((c) => c.name), bars }),
+    BAR_CHART_WIDTH,
+    stackedBarHeight(bars.length, grid.length)
+  );
+  const overlay = await radarFor(
+    sortMatrix(reportData.comparison_matrix)
+      .slice(0, 4)
+      .map((m) => m.candidate_name)
+  );
+  const perCandidate: Record<string, ChartImage | null> = {};
+  for (const candidate of reportData.candidates) {
+    perCandidate[candidate.candidate_name] = await radarFor([candidate.candidate_name]);
+  }
+  return { ranking, overlay, perCandidate };
+};
+
+export interface ReportOptions {
+  // Adjusted criterion weights from the what-if panel, reported after the ranking.
+  scenario?: WeightMap;
+  config?: ReportConfig;
+  // Evaluator overrides already applied to the report data, listed as an audit trail.
+  overrides?: OverrideAudit;
+}
+
+const LOGO_URL = "/max.png";
+
+/** Fetches the company logo for the page header; the report is still produced without it. */
+export const loadReportLogo = async (): Promise<ChartImage | null> => {
+  try {
+    const res = await fetch(LOGO_URL);
+    if (!res.ok) return null;
+    const data = new Uint8Array(await res.arrayBuffer());
+    // PNG IHDR: width and height are big-endian at bytes 16 and 20.
+    const view = new DataView(data.buffer);
+    return { data, width: view.getUint32(16), height: view.getUint32(20) };
+  } catch (err) {
+    console.error("Logo load error:", err);
+    return null;
+  }
+};
+
+export const reportDate = (date = new Date()) =>
+  date.toLocaleDateString(undefined, { year: "numeric", month: "long", day: "numeric" });
+
+export const generateDocxReport = async (reportData: JsonData, options: ReportOptions = {}) => {
+  const config = options.config ?? DEFAULT_REPORT_CONFIG;
+  const title = reportTitle(config);
+  const grid = resolveCriteria(reportData);
+  const sortedMatrix = sortMatrix(reportData.comparison_matrix);
+  const allCriteria = criterionNames(reportData);
+  const {
+    Document,
+    Packer,
+    Paragraph,
+    HeadingLevel,
+    AlignmentType,
+    Table,
+    TableRow,
+    TableCell,
+    WidthType,
+    BorderStyle,
+    ImageRun,
+    Header,
+    Footer,
+    TextRun,
+    PageNumber,
+  } = await import('docx');
+
+  const sections = enabledSections(config);
+  const needsCharts = sections.includes("candidates") || sections.includes("ranking");
+  const [charts, logo] = await Promise.all([
+    needsCharts ? renderReportCharts(reportData, grid) : null,
+    config.headerFooter ? loadReportLogo() : null,
+  ]);
+  // Scale charts to fit the page body (~600px) while keeping their aspect ratio.
+  const chartParagraph = (image: ChartImage | null, maxWidth = 600) => {
+    if (!image) return [];
+    const ratio = Math.min(1, maxWidth / image.width);
+    return [
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [
+          new ImageRun({
+            type: "png",
+            data: image.data,
+            transformation: { width: image.width * ratio, height: image.height * ratio },
+          }),
+        ],
+      }),
+    ];
+  };
+
+  const tableBorders = {
+    top: { style: BorderStyle.SINGLE, size: 1 },
+    bottom: { style: BorderStyle.SINGLE, size: 1 },
+    left: { style: BorderStyle.SINGLE, size: 1 },
+    right: { style: BorderStyle.SINGLE, size: 1 },
+    insideHorizontal: { style: BorderStyle.SINGLE, size: 1 },
+    insideVertical: { style: BorderStyle.SINGLE, size: 1 },
+  };
+
+  const titleBlock = [
+    new Paragraph({
+      text: title,
+      heading: HeadingLevel.TITLE,
+      alignment: AlignmentType.CENTER,
+    }),
+    ...[
+      config.referenceNumber.trim() && `Reference: ${config.referenceNumber.trim()}`,
+      config.evaluators.length > 0 && `Evaluators: ${config.evaluators.join(", ")}`,
+      `Date: ${reportDate()}`,
+    ]
+      .filter((line): line is string => !!line)
+      .map(text => new Paragraph({ text, alignment: AlignmentType.CENTER })),
+  ];
+
+  const renderers: Record<ReportSectionKey, () => (InstanceType<typeof Paragraph> | InstanceType<typeof Table>)[]> = {
+    tor: () => [
+      new Paragraph({
+        text: "Terms of Reference",
+        heading: HeadingLevel.HEADING_1,
+      }),
+      new Paragraph({
+        text: reportData.tor_text || "No ToR text provided.",
+      }),
+    ],
+    criteria: () => [
+      new Paragraph({
+        text: "Evaluation Criteria",
+        heading: HeadingLevel.HEADING_1,
+      }),
+      ...grid.flatMap(category => [
+        new Paragraph({
+          text: `${category.name} - ${categoryWeight(category)}%`,
+          heading: HeadingLevel.HEADING_2,
+        }),
+        ...category.subcriteria.map(subitem => 
+          new Paragraph({
+            text: `${subitem.name}: ${subitem.weight}%`,
+            bullet: { level: 0 },
+          })
+        ),
+      ]),
+    ],
+    candidates: () => [
+      new Paragraph({
+        text: "Candidates",
+        heading: HeadingLevel.HEADING_1,
+      }),
+      ...reportData.candidates.flatMap(candidate => [
+        new Paragraph({
+          text: candidate.candidate_name || "Unnamed Candidate",
+          heading: HeadingLevel.HEADING_2,
+        }),
+        new Paragraph({
+          text: `Recommendation: ${candidate.recommendation || "Not Evaluated"}`,
+        }),
+        new Paragraph({
+          text: `Total Score: ${candidate.scores?.total_score?.toFixed(2) || "N/A"}`,
+        }),
+        new Paragraph({
+          text: `Strengths: ${candidate.summary_justification?.key_strengths || "None provided."}`,
+        }),
+        new Paragraph({
+          text: `Weaknesses: ${candidate.summary_justification?.key_weaknesses || "None provided."}`,
+        }),
+        new Paragraph({
+          text: "Scores",
+          heading: HeadingLevel.HEADING_3,
+        }),
+        ...scoreBreakdown(candidate, grid).categories.flatMap(category => [
+          new Paragraph({
+            text: `${category.name} - ${category.weight}%`,
+            bullet: { level: 0 },
+          }),
+          ...category.items.map(item =>
+            new Paragraph({
+              text: `${item.name}: ${item.score?.toFixed(2) ?? "N/A"}`,
+              bullet: { level: 1 },
+            })
+          ),
+        ]),
+        ...chartParagraph(charts?.perCandidate[candidate.candidate_name] ?? null, 360),
+        new Paragraph({
+          text: "Detailed Evaluation",
+          heading: HeadingLevel.HEADING_3,
+        }),
+        ...candidate.detailed_evaluation.map(evalItem => 
+          new Paragraph({
+            text: `${evalItem.criterion}: Score ${evalItem.score?.toFixed(2) || "N/A"} (Weight: ${evalItem.weight}%) - Justification: ${evalItem.justification || "None provided."}`,
+            bullet: { level: 0 },
+          })
+        ),
+      ]),
+    ],
+    ranking: () => [
+      new Paragraph({
+        text: "Comparison Ranking",
+        heading: HeadingLevel.HEADING_1,
+      }),
+      new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        borders: tableBorders,
+        rows: [
+          new TableRow({
+            children: [
+              new TableCell({ children: [new Paragraph("Candidate Name")] }),
+              new TableCell({ children: [new Paragraph("Total Score")] }),
+              new TableCell({ children: [new Paragraph("Rank")] }),
+            ],
+          }),
+          ...sortedMatrix.map(m => 
+            new TableRow({
+              children: [
+                new TableCell({ children: [new Paragraph(m.candidate_name || "Unnamed Candidate")] }),
+                new TableCell({ children: [new Paragraph(m.total_score?.toFixed(2) || "N/A")] }),
+                new TableCell({ children: [new Paragraph(m.rank?.toString() || "N/A")] }),
+              ],
+            })
+          ),
+        ],
+      }),
+      ...(charts?.ranking || charts?.overlay
+        ? [
+            new Paragraph({
+              text: "Score Charts",
+              heading: HeadingLevel.HEADING_2,
+            }),
+            ...chartParagraph(charts.ranking),
+            ...chartParagraph(charts.overlay, 440),
+          ]
+        : []),
+      ...(options.scenario
+        ? (() => {
+            const base = baseWeights(grid);
+            const scenario = options.scenario;
+            return [
+              new Paragraph({
+                text: "What-if Scenario",
+                heading: HeadingLevel.HEADING_2,
+              }),
+              new Paragraph({
+                text: "Ranking recomputed from the criterion scores with the following adjusted weights (normalized to 100):",
+              }),
+              ...Object.keys(base).map(name =>
+                new Paragraph({
+                  text: scenario[name] != null && scenario[name] !== base[name]
+                    ? `${name}: ${scenario[name]}% (original ${base[name]}%)`
+                    : `${name}: ${base[name]}%`,
+                  bullet: { level: 0 },
+                })
+              ),
+              new Table({
+                width: { size: 100, type: WidthType.PERCENTAGE },
+                rows: [
+                  new TableRow({
+                    children: ["Rank", "Candidate Name", "Adjusted Score", "Original Score", "Rank Change"].map(
+                      header => new TableCell({ children: [new Paragraph(header)] })
+                    ),
+                  }),
+                  ...applyWeights(reportData, grid, scenario).map(row => {
+                    const change = rankChange(row);
+                    return new TableRow({
+                      children: [
+                        row.rank.toString(),
+                        row.candidate_name || "Unnamed Candidate",
+                        row.total_score.toFixed(2),
+                        row.original_score?.toFixed(2) ?? "N/A",
+                        change == null ? "N/A" : change > 0 ? `+${change}` : change.toString(),
+                      ].map(text => new TableCell({ children: [new Paragraph(text)] })),
+                    });
+                  }),
+                ],
+              }),
+            ];
+          })()
+        : []),
+    ],
+    recommendation: () => [
+      new Paragraph({
+        text: "Final Recommendation",
+        heading: HeadingLevel.HEADING_1,
+      }),
+      new Paragraph({
+        text: `Best Candidate: ${reportData.final_recommendation?.best_candidate || "None"}`,
+      }),
+      new Paragraph({
+        text: `Decision: ${reportData.final_recommendation?.final_decision || "Not Evaluated"}`,
+      }),
+      ...(typeof reportData.final_recommendation?.justification === "string"
+        ? [
+            new Paragraph({
+              text: "Justification",
+              heading: HeadingLevel.HEADING_2,
+            }),
+            new Paragraph({
+              text: reportData.final_recommendation.justification || "No justification provided.",
+            }),
+          ]
+        : [
+            new Paragraph({
+              text: "Detailed Explanation",
+              heading: HeadingLevel.HEADING_2,
+            }),
+            new Paragraph({
+              text: reportData.final_recommendation?.justification?.detailed_explanation || "No detailed explanation provided.",
+            }),
+            new Paragraph({
+              text: "Why Recommended Candidate",
+              heading: HeadingLevel.HEADING_2,
+            }),
+            new Paragraph({
+              text: reportData.final_recommendation?.justification?.why_he || "No reason provided for recommended candidate.",
+            }),
+            new Paragraph({
+              text: "Why Not Other Candidates",
+              heading: HeadingLevel.HEADING_2,
+            }),
+            ...(reportData.final_recommendation?.justification?.why_not_others || []).map(other => [
+              new Paragraph({
+                text: `Candidate: ${other.candidate_name || "Unnamed Candidate"}`,
+                bullet: { level: 0 },
+              }),
+              new Paragraph({
+                text: `Reason: ${other.reason || "No reason provided."}`,
+                bullet: { level: 1 },
+              }),
+            ]).flat(),
+          ]
+      ),
+    ],
+    fulfillment: () => [
+      new Paragraph({
+        text: "CV Comparison Table",
+        heading: HeadingLevel.HEADING_1,
+      }),
+      new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        borders: tableBorders,
+        rows: [
+          new TableRow({
+            children: [
+              new TableCell({ children: [new Paragraph("Candidate Name")] }),
+              ...allCriteria.map(crit => new TableCell({ children: [new Paragraph(crit)] })),
+            ],
+          }),
+          ...reportData.candidates.map(candidate => {
+            const fulfillment = getFulfillmentForCandidate(candidate, allCriteria);
+            return new TableRow({
+              children: [
+                new TableCell({ children: [new Paragraph(candidate.candidate_name || "Unnamed Candidate")] }),
+                ...allCriteria.map(crit => new TableCell({ children: [new Paragraph(fulfillment[crit] || "N/A")] })),
+              ],
+            });
+          }),
+        ],
+      }),
+    ],
+  };
+
+  const overrideAudit = options.overrides
+    ? [
+        new Paragraph({
+          text: "Evaluator Overrides",
+          heading: HeadingLevel.HEADING_1,
+        }),
+        new Paragraph({
+          text: "Scores changed or annotated by the evaluation panel. Totals and ranks in this report include these overrides.",
+        }),
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          borders: tableBorders,
+          rows: [
+            new TableRow({
+              children: ["Candidate Name", "Criterion", "AI Score", "Panel Score", "Comment"].map(
+                header => new TableCell({ children: [new Paragraph(header)] })
+              ),
+            }),
+            ...options.overrides.entries.map(entry =>
+              new TableRow({
+                children: [
+                  entry.candidate_name || "Unnamed Candidate",
+                  `${entry.criterion} (${entry.weight}%)`,
+                  entry.original_score.toFixed(2),
+                  entry.score?.toFixed(2) ?? "Unchanged",
+                  entry.comment || "-",
+                ].map(text => new TableCell({ children: [new Paragraph(text)] })),
+              })
+            ),
+          ],
+        }),
+        new Paragraph({
+          text: "Effect on Ranking",
+          heading: HeadingLevel.HEADING_2,
+        }),
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          borders: tableBorders,
+          rows: [
+            new TableRow({
+              children: ["Rank", "Candidate Name", "Panel Score", "AI Score", "Rank Change"].map(
+                header => new TableCell({ children: [new Paragraph(header)] })
+              ),
+            }),
+            ...options.overrides.ranking.map(row => {
+              const change = rankChange(row);
+              return new TableRow({
+                children: [
+                  row.rank.toString(),
+                  row.candidate_name || "Unnamed Candidate",
+                  row.total_score.toFixed(2),
+                  row.original_score?.toFixed(2) ?? "N/A",
+                  change == null ? "N/A" : change > 0 ? `+${change}` : change.toString(),
+                ].map(text => new TableCell({ children: [new Paragraph(text)] })),
+              });
+            }),
+          ],
+        }),
+      ]
+    : [];
+
+  // One row per evaluator with space to sign and date.
+  const signatureBlock = config.signatureBlock
+    ? [
+        new Paragraph({
+          text: "Sign-off",
+          heading: HeadingLevel.HEADING_1,
+        }),
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          borders: tableBorders,
+          rows: [
+            new TableRow({
+              children: ["Evaluator", "Signature", "Date"].map(
+                header => new TableCell({ children: [new Paragraph(header)] })
+              ),
+            }),
+            ...(config.evaluators.length > 0 ? config.evaluators : ["", ""]).map(name =>
+              new TableRow({
+                height: { value: 700, rule: "atLeast" },
+                children: [name, "", ""].map(text => new TableCell({ children: [new Paragraph(text)] })),
+              })
+            ),
+          ],
+        }),
+      ]
+    : [];
+
+  const header = config.headerFooter
+    ? new Header({
+        children: [
+          new Paragraph({
+            children: [
+              ...(logo
+                ? [
+                    new ImageRun({
+                      type: "png",
+                      data: logo.data,
+                      transformation: { width: 80, height: (logo.height / logo.width) * 80 },
+                    }),
+                    new TextRun("   "),
+                  ]
+                : []),
+              new TextRun({ text: title, bold: true }),
+              ...(config.referenceNumber.trim() ? [new TextRun(`  ·  Ref. ${config.referenceNumber.trim()}`)] : []),
+            ],
+          }),
+        ],
+      })
+    : undefined;
+
+  const footer = config.headerFooter
+    ? new Footer({
+        children: [
+          new Paragraph({
+            alignment: AlignmentType.RIGHT,
+            children: [
+              new TextRun({ children: ["Page ", PageNumber.CURRENT, " of ", PageNumber.TOTAL_PAGES], size: 18 }),
+            ],
+          }),
+        ],
+      })
+    : undefined;
+
+  const doc = new Document({
+    sections: [
+      {
+        properties: {},
+        headers: header ? { default: header } : undefined,
+        footers: footer ? { default: footer } : undefined,
+        children: [
+          ...titleBlock,
+          ...sections.flatMap(key => renderers[key]()),
+          ...overrideAudit,
+          ...signatureBlock,
+        ],
+      },
+    ],
+  });
+
+  const blob = await Packer.toBlob(doc);
+  saveAs(blob, reportFileName(config, "docx"));
+};
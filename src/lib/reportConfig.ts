@@ -0,0 +1,100 @@
+// Report builder settings shared by the DOCX and PDF reports: which sections
+// appear and in what order, the project details printed on the title page
+// and the generated file name. Kept in localStorage so evaluator names and
+// the preferred layout carry over between evaluations.
+
+export type ReportSectionKey = "tor" | "criteria" | "candidates" | "ranking" | "recommendation" | "fulfillment";
+
+export const REPORT_SECTION_LABELS: Record<ReportSectionKey, string> = {
+  tor: "Terms of Reference",
+  criteria: "Evaluation Criteria",
+  candidates: "Candidate Details",
+  ranking: "Comparison Ranking",
+  recommendation: "Final Recommendation",
+  fulfillment: "CV Comparison Table",
+};
+
+export interface ReportSection {
+  key: ReportSectionKey;
+  enabled: boolean;
+}
+
+export interface ReportConfig {
+  projectTitle: string;
+  referenceNumber: string;
+  evaluators: string[];
+  // Ordered; disabled sections are kept so their position is remembered.
+  sections: ReportSection[];
+  signatureBlock: boolean;
+  // Company logo and project title in the page header, page numbers in the footer.
+  headerFooter: boolean;
+}
+
+export const DEFAULT_REPORT_TITLE = "CV Comparison Report";
+
+export const DEFAULT_REPORT_CONFIG: ReportConfig = {
+  projectTitle: "",
+  referenceNumber: "",
+  evaluators: [],
+  sections: (Object.keys(REPORT_SECTION_LABELS) as ReportSectionKey[]).map((key) => ({ key, enabled: true })),
+  signatureBlock: false,
+  headerFooter: true,
+};
+
+const STORAGE_KEY = "cv-comparison:report-config";
+
+export const reportTitle = (config: ReportConfig) => config.projectTitle.trim() || DEFAULT_REPORT_TITLE;
+
+export const enabledSections = (config: ReportConfig) =>
+  config.sections.filter((s) => s.enabled).map((s) => s.key);
+
+export const moveSection = (config: ReportConfig, index: number, offset: -1 | 1): ReportConfig => {
+  const target = index + offset;
+  if (target < 0 || target >= config.sections.length) return config;
+  const sections = [...config.sections];
+  [sections[index], sections[target]] = [sections[target], sections[index]];
+  return { ...config, sections };
+};
+
+const slug = (text: string) =>
+  text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-zA-Z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 60)
+    .toLowerCase();
+
+/** e.g. `water_supply_review_2026-10-19.docx`; falls back to the default title. */
+export const reportFileName = (config: ReportConfig, extension: "docx" | "pdf", date = new Date()) => {
+  const day = [date.getFullYear(), date.getMonth() + 1, date.getDate()].map((n) => String(n).padStart(2, "0")).join("-");
+  return `${slug(config.projectTitle) || "cv_comparison_report"}_${day}.${extension}`;
+};
+
+/** Restores saved settings, adding sections introduced since they were saved. */
+export const loadReportConfig = (): ReportConfig => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as Partial<ReportConfig> | null;
+    if (!saved) return DEFAULT_REPORT_CONFIG;
+    const sections = (saved.sections ?? []).filter((s) => s.key in REPORT_SECTION_LABELS);
+    DEFAULT_REPORT_CONFIG.sections.forEach((s) => {
+      if (!sections.some((saved) => saved.key === s.key)) sections.push(s);
+    });
+    return {
+      ...DEFAULT_REPORT_CONFIG,
+      ...saved,
+      evaluators: Array.isArray(saved.evaluators) ? saved.evaluators : [],
+      sections,
+    };
+  } catch {
+    return DEFAULT_REPORT_CONFIG;
+  }
+};
+
+export const saveReportConfig = (config: ReportConfig) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (err) {
+    console.error("Report settings save error:", err);
+  }
+};
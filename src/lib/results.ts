@@ -0,0 +1,63 @@
+import { categoryWeight, scoreBreakdown, totalWeight, type CriteriaGrid } from "@/lib/criteria";
+import type { Candidate, ComparisonMatrix, JsonData } from "@/lib/schema";
+
+export const NO_EVIDENCE = "No work here";
+
+export const sortMatrix = (matrix: ComparisonMatrix[]) => [...matrix].sort((a, b) => a.rank - b.rank);
+
+export const criterionNames = (data: JsonData) => data.criteria.map((c) => c.criterion);
+
+/** Maps each criterion to the candidate's supporting justification, if any. */
+export const getFulfillmentForCandidate = (candidate: Candidate, criteria: string[]) => {
+  const fulfillmentMap: { [key: string]: string } = {};
+  criteria.forEach((crit) => {
+    const evalItem = candidate.detailed_evaluation.find((de) => de.criterion === crit);
+    if (evalItem && evalItem.score > 0 && evalItem.justification && evalItem.justification !== "No evidence in CV.") {
+      fulfillmentMap[crit] = evalItem.justification;
+    } else {
+      fulfillmentMap[crit] = NO_EVIDENCE;
+    }
+  });
+  return fulfillmentMap;
+};
+
+export interface ComparisonRow {
+  kind: "category" | "criterion" | "total";
+  name: string;
+  weight: number | null;
+  scores: (number | null)[];
+  best: number | null;
+}
+
+const bestOf = (scores: (number | null)[]) => {
+  const present = scores.filter((s): s is number => s != null);
+  return present.length > 0 ? Math.max(...present) : null;
+};
+
+/**
+ * Criterion-by-candidate score matrix: one row per category, one per
+ * sub-criterion and a final total row, with candidates as columns.
+ */
+export const buildComparisonRows = (candidates: Candidate[], grid: CriteriaGrid): ComparisonRow[] => {
+  const breakdowns = candidates.map((c) => scoreBreakdown(c, grid));
+  const rows: ComparisonRow[] = [];
+
+  grid.forEach((category, i) => {
+    const categoryScores = breakdowns.map((b) => b.categories[i].total);
+    rows.push({
+      kind: "category",
+      name: category.name,
+      weight: categoryWeight(category),
+      scores: categoryScores,
+      best: bestOf(categoryScores),
+    });
+    category.subcriteria.forEach((sub, j) => {
+      const scores = breakdowns.map((b) => b.categories[i].items[j].score);
+      rows.push({ kind: "criterion", name: sub.name, weight: sub.weight, scores, best: bestOf(scores) });
+    });
+  });
+
+  const totals = breakdowns.map((b) => b.total);
+  rows.push({ kind: "total", name: "Total Score", weight: totalWeight(grid), scores: totals, best: bestOf(totals) });
+  return rows;
+};
@@ -0,0 +1,60 @@
+// What-if reweighting of an existing result.
+//
+// Each criterion score is points out of its weight, so score / weight is how
+// well the candidate met it. A scenario keeps those ratios and applies new
+// weights, normalized to 100 so totals stay comparable with the original.
+
+import type { CriteriaGrid } from "@/lib/criteria";
+import { scoreBreakdown } from "@/lib/criteria";
+import { sortMatrix } from "@/lib/results";
+import type { JsonData } from "@/lib/schema";
+
+export type WeightMap = Record<string, number>;
+
+export interface ScenarioRow {
+  candidate_name: string;
+  total_score: number;
+  rank: number;
+  original_score: number | null;
+  original_rank: number | null;
+}
+
+export const baseWeights = (grid: CriteriaGrid): WeightMap =>
+  Object.fromEntries(grid.flatMap((c) => c.subcriteria.map((s) => [s.name, s.weight])));
+
+export const weightSum = (weights: WeightMap) => Object.values(weights).reduce((acc, w) => acc + w, 0);
+
+export const isBaseline = (grid: CriteriaGrid, weights: WeightMap) => {
+  const base = baseWeights(grid);
+  return Object.keys(base).every((name) => Math.abs((weights[name] ?? base[name]) - base[name]) < 1e-9);
+};
+
+/** Recomputes every candidate's total under `weights` and re-ranks them. */
+export const applyWeights = (data: JsonData, grid: CriteriaGrid, weights: WeightMap): ScenarioRow[] => {
+  const sumOfWeights = weightSum(weights);
+  const original = sortMatrix(data.comparison_matrix);
+
+  const rows = data.candidates.map((candidate) => {
+    const points = scoreBreakdown(candidate, grid).categories
+      .flatMap((c) => c.items)
+      .reduce((acc, item) => {
+        if (item.score == null || item.weight <= 0) return acc;
+        return acc + (item.score / item.weight) * (weights[item.name] ?? item.weight);
+      }, 0);
+    const match = original.find((m) => m.candidate_name === candidate.candidate_name);
+    return {
+      candidate_name: candidate.candidate_name,
+      total_score: sumOfWeights > 0 ? (points / sumOfWeights) * 100 : 0,
+      rank: 0,
+      original_score: match?.total_score ?? candidate.scores.total_score,
+      original_rank: match?.rank ?? null,
+    };
+  });
+
+  return rows
+    .sort((a, b) => b.total_score - a.total_score)
+    .map((row, i) => ({ ...row, rank: i + 1 }));
+};
+
+/** Positive when the candidate moved up under the scenario. */
+export const rankChange = (row: ScenarioRow) => (row.original_rank != null ? row.original_rank - row.rank : null);
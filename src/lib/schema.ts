@@ -0,0 +1,437 @@
+// Types and runtime validation for the compare-cvs API response.
+//
+// The backend is an LLM pipeline, so the payload shape drifts: blocks go
+// missing, numbers arrive as strings, ranks are omitted. `parseJsonData`
+// never trusts the input; it normalizes what it can, recovers what is
+// derivable from other fields and records a warning for everything else.
+
+export interface Scores {
+  general_qualifications: {
+    education: number | null;
+    years_of_experience: number | null;
+    total: number | null;
+  };
+  adequacy_for_assignment: {
+    relevant_project_experience: number | null;
+    donor_experience: number | null;
+    regional_experience: number | null;
+    total: number | null;
+  };
+  specific_skills_competencies: {
+    technical_skills: number | null;
+    language_proficiency: number | null;
+    certifications: number | null;
+    total: number | null;
+  };
+  total_score: number | null;
+}
+
+export interface DetailedEvaluation {
+  criterion: string;
+  weight: number;
+  score: number;
+  justification: string;
+}
+
+export interface Candidate {
+  candidate_name: string;
+  recommendation: string;
+  scores: Scores;
+  summary_justification: {
+    key_strengths: string;
+    key_weaknesses: string;
+  };
+  detailed_evaluation: DetailedEvaluation[];
+}
+
+export interface ComparisonMatrix {
+  candidate_name: string;
+  total_score: number;
+  rank: number;
+}
+
+export interface WhyNotOther {
+  candidate_name: string;
+  reason: string;
+}
+
+export interface DetailedJustification {
+  detailed_explanation: string;
+  why_he: string;
+  why_not_others: WhyNotOther[];
+}
+
+export interface FinalRecommendation {
+  best_candidate: string;
+  final_decision: string;
+  justification: string | DetailedJustification;
+}
+
+export interface JsonData {
+  tor_text: string;
+  criteria: { criterion: string; weight: number; category?: string }[];
+  candidates: Candidate[];
+  comparison_matrix: ComparisonMatrix[];
+  final_recommendation: FinalRecommendation;
+}
+
+export interface SchemaWarning {
+  path: string;
+  message: string;
+}
+
+export interface ParseResult {
+  data: JsonData;
+  warnings: SchemaWarning[];
+}
+
+type Raw = Record<string, unknown>;
+
+// Sub-score fields of `Scores` keyed by the criterion name the backend uses
+// in `detailed_evaluation`, so missing scores can be rebuilt from it.
+const SCORE_FIELDS = {
+  general_qualifications: {
+    education: "Education",
+    years_of_experience: "Years of Experience",
+  },
+  adequacy_for_assignment: {
+    relevant_project_experience: "Relevant Project Experience",
+    donor_experience: "Donor Experience (WB, ADB, etc.)",
+    regional_experience: "Regional Experience",
+  },
+  specific_skills_competencies: {
+    technical_skills: "Technical Skills",
+    language_proficiency: "Language Proficiency",
+    certifications: "Certifications",
+  },
+} as const;
+
+/** Looks up a sub-score of the fixed `Scores` layout by its criterion name. */
+export const legacyScoreFor = (scores: Scores, criterion: string): number | null => {
+  for (const group of Object.keys(SCORE_FIELDS) as (keyof typeof SCORE_FIELDS)[]) {
+    const match = Object.entries(SCORE_FIELDS[group]).find(([, name]) => name === criterion);
+    if (match) {
+      return (scores[group] as Record<string, number | null>)[match[0]] ?? null;
+    }
+  }
+  return null;
+};
+
+const isObject = (value: unknown): value is Raw =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value.replace("%", "").trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const sum = (values: (number | null)[]) =>
+  values.some((v) => v != null) ? values.reduce<number>((acc, v) => acc + (v ?? 0), 0) : null;
+
+class Reader {
+  readonly warnings: SchemaWarning[] = [];
+
+  warn(path: string, message: string) {
+    this.warnings.push({ path, message });
+  }
+
+  string(source: Raw, key: string, path: string, fallback = ""): string {
+    const value = source[key];
+    if (typeof value === "string") return value;
+    if (typeof value === "number") return String(value);
+    if (value === undefined || value === null) {
+      this.warn(`${path}.${key}`, "missing");
+    } else {
+      this.warn(`${path}.${key}`, `expected text, got ${typeof value}`);
+    }
+    return fallback;
+  }
+
+  number(source: Raw, key: string, path: string): number | null {
+    const value = source[key];
+    const parsed = toNumber(value);
+    if (parsed == null) {
+      this.warn(`${path}.${key}`, value == null ? "missing" : `not a number (${JSON.stringify(value)})`);
+    }
+    return parsed;
+  }
+
+  array(source: Raw, key: string, path: string): unknown[] {
+    const value = source[key];
+    if (Array.isArray(value)) return value;
+    this.warn(`${path}.${key}`, value == null ? "missing" : "expected a list");
+    return [];
+  }
+
+  object(source: Raw, key: string, path: string): Raw | null {
+    const value = source[key];
+    if (isObject(value)) return value;
+    this.warn(`${path}.${key}`, value == null ? "missing" : "expected an object");
+    return null;
+  }
+}
+
+const parseCriteria = (r: Reader, root: Raw): JsonData["criteria"] =>
+  r.array(root, "criteria", "criteria").flatMap((item, i) => {
+    const path = `criteria[${i}]`;
+    if (!isObject(item)) {
+      r.warn(path, "dropped: not an object");
+      return [];
+    }
+    const criterion = r.string(item, "criterion", path);
+    if (!criterion) {
+      r.warn(path, "dropped: no criterion name");
+      return [];
+    }
+    const weight = r.number(item, "weight", path) ?? 0;
+    return typeof item.category === "string" && item.category.trim()
+      ? [{ criterion, weight, category: item.category.trim() }]
+      : [{ criterion, weight }];
+  });
+
+const parseEvaluation = (r: Reader, raw: unknown, path: string): DetailedEvaluation | null => {
+  if (!isObject(raw)) {
+    r.warn(path, "dropped: not an object");
+    return null;
+  }
+  const criterion = r.string(raw, "criterion", path);
+  if (!criterion) {
+    r.warn(path, "dropped: no criterion name");
+    return null;
+  }
+  return {
+    criterion,
+    weight: r.number(raw, "weight", path) ?? 0,
+    score: r.number(raw, "score", path) ?? 0,
+    justification: r.string(raw, "justification", path),
+  };
+};
+
+const parseScores = (
+  r: Reader,
+  raw: Raw | null,
+  evaluations: DetailedEvaluation[],
+  path: string
+): Scores => {
+  const fromEvaluation = (criterion: string) =>
+    evaluations.find((e) => e.criterion === criterion)?.score ?? null;
+
+  // Responses scored against a custom grid carry no fixed category blocks;
+  // only warn about them when the backend sent the fixed layout.
+  const legacy = raw != null && Object.keys(SCORE_FIELDS).some((group) => isObject(raw[group]));
+
+  const readGroup = <G extends keyof typeof SCORE_FIELDS>(group: G) => {
+    const groupPath = `${path}.${group}`;
+    const source = raw && isObject(raw[group]) ? (raw[group] as Raw) : null;
+    if (legacy && !source) r.warn(groupPath, "missing; rebuilt from detailed evaluation");
+
+    const fields = {} as Record<keyof (typeof SCORE_FIELDS)[G], number | null>;
+    for (const [field, criterion] of Object.entries(SCORE_FIELDS[group])) {
+      let value = source ? toNumber(source[field]) : null;
+      if (value == null) {
+        value = fromEvaluation(criterion);
+        if (source) {
+          r.warn(
+            `${groupPath}.${field}`,
+            value == null ? "missing" : "missing; taken from detailed evaluation"
+          );
+        }
+      }
+      fields[field as keyof (typeof SCORE_FIELDS)[G]] = value;
+    }
+    const total = (source ? toNumber(source.total) : null) ?? sum(Object.values(fields) as (number | null)[]);
+    return { ...fields, total };
+  };
+
+  const general_qualifications = readGroup("general_qualifications");
+  const adequacy_for_assignment = readGroup("adequacy_for_assignment");
+  const specific_skills_competencies = readGroup("specific_skills_competencies");
+
+  let total_score = raw ? toNumber(raw.total_score) : null;
+  if (total_score == null) {
+    total_score = legacy
+      ? sum([
+          general_qualifications.total,
+          adequacy_for_assignment.total,
+          specific_skills_competencies.total,
+        ])
+      : sum(evaluations.map((e) => e.score));
+    if (raw) {
+      r.warn(
+        `${path}.total_score`,
+        total_score == null ? "missing" : "missing; recomputed from criterion scores"
+      );
+    }
+  }
+
+  return {
+    general_qualifications,
+    adequacy_for_assignment,
+    specific_skills_competencies,
+    total_score,
+  } as Scores;
+};
+
+const parseCandidate = (r: Reader, raw: unknown, i: number): Candidate | null => {
+  const path = `candidates[${i}]`;
+  if (!isObject(raw)) {
+    r.warn(path, "dropped: not an object");
+    return null;
+  }
+
+  const detailed_evaluation = r
+    .array(raw, "detailed_evaluation", path)
+    .map((item, j) => parseEvaluation(r, item, `${path}.detailed_evaluation[${j}]`))
+    .filter((item): item is DetailedEvaluation => item !== null);
+
+  const rawScores = isObject(raw.scores) ? raw.scores : null;
+  if (!rawScores) r.warn(`${path}.scores`, "missing; rebuilt from detailed evaluation");
+
+  const summary = r.object(raw, "summary_justification", path);
+  const summaryPath = `${path}.summary_justification`;
+
+  return {
+    candidate_name: r.string(raw, "candidate_name", path, `Candidate ${i + 1}`),
+    recommendation: r.string(raw, "recommendation", path, "Not Evaluated"),
+    scores: parseScores(r, rawScores, detailed_evaluation, `${path}.scores`),
+    summary_justification: {
+      key_strengths: summary ? r.string(summary, "key_strengths", summaryPath) : "",
+      key_weaknesses: summary ? r.string(summary, "key_weaknesses", summaryPath) : "",
+    },
+    detailed_evaluation,
+  };
+};
+
+export const rankByScore = (rows: { candidate_name: string; total_score: number }[]): ComparisonMatrix[] =>
+  [...rows]
+    .sort((a, b) => b.total_score - a.total_score)
+    .map((row, i) => ({ ...row, rank: i + 1 }));
+
+const parseComparisonMatrix = (r: Reader, root: Raw, candidates: Candidate[]): ComparisonMatrix[] => {
+  const scoreOf = (name: string) =>
+    candidates.find((c) => c.candidate_name === name)?.scores.total_score ?? 0;
+
+  if (!Array.isArray(root.comparison_matrix)) {
+    r.warn("comparison_matrix", "missing; ranking recomputed from candidate scores");
+    return rankByScore(candidates.map((c) => ({ candidate_name: c.candidate_name, total_score: c.scores.total_score ?? 0 })));
+  }
+
+  let ranksMissing = false;
+  const rows = root.comparison_matrix.flatMap((item, i) => {
+    const path = `comparison_matrix[${i}]`;
+    if (!isObject(item)) {
+      r.warn(path, "dropped: not an object");
+      return [];
+    }
+    const candidate_name = r.string(item, "candidate_name", path);
+    const total_score = toNumber(item.total_score) ?? scoreOf(candidate_name);
+    const rank = toNumber(item.rank);
+    if (rank == null) ranksMissing = true;
+    return [{ candidate_name, total_score, rank: rank ?? 0 }];
+  });
+
+  const unranked = candidates.filter((c) => !rows.some((row) => row.candidate_name === c.candidate_name));
+  unranked.forEach((c) => {
+    r.warn("comparison_matrix", `${c.candidate_name} was not ranked; added from candidate scores`);
+    rows.push({ candidate_name: c.candidate_name, total_score: c.scores.total_score ?? 0, rank: 0 });
+  });
+
+  if (ranksMissing || unranked.length > 0) {
+    if (ranksMissing) r.warn("comparison_matrix", "some ranks missing; ranking recomputed from total scores");
+    return rankByScore(rows);
+  }
+  return rows;
+};
+
+const parseFinalRecommendation = (r: Reader, root: Raw): FinalRecommendation => {
+  const raw = r.object(root, "final_recommendation", "") ?? {};
+  const path = "final_recommendation";
+  const recommendation = {
+    best_candidate: r.string(raw, "best_candidate", path, "None"),
+    final_decision: r.string(raw, "final_decision", path, "Not Evaluated"),
+  };
+
+  const justification = raw.justification;
+  if (typeof justification === "string") {
+    return { ...recommendation, justification };
+  }
+  if (!isObject(justification)) {
+    r.warn(`${path}.justification`, justification == null ? "missing" : "unexpected shape");
+    return { ...recommendation, justification: "" };
+  }
+
+  const jPath = `${path}.justification`;
+  const why_not_others = Array.isArray(justification.why_not_others)
+    ? justification.why_not_others.flatMap((item, i) => {
+        const itemPath = `${jPath}.why_not_others[${i}]`;
+        if (!isObject(item)) {
+          r.warn(itemPath, "dropped: not an object");
+          return [];
+        }
+        return [{
+          candidate_name: r.string(item, "candidate_name", itemPath),
+          reason: r.string(item, "reason", itemPath),
+        }];
+      })
+    : [];
+
+  return {
+    ...recommendation,
+    justification: {
+      detailed_explanation: r.string(justification, "detailed_explanation", jPath),
+      why_he: r.string(justification, "why_he", jPath),
+      why_not_others,
+    },
+  };
+};
+
+/**
+ * Validates and normalizes a raw compare-cvs response.
+ * Throws only when nothing usable is present; otherwise returns the
+ * recovered data together with a warning per field that had to be fixed.
+ */
+export const parseJsonData = (raw: unknown): ParseResult => {
+  if (!isObject(raw)) {
+    throw new Error("The server returned an unreadable response.");
+  }
+
+  const r = new Reader();
+  const candidates = r
+    .array(raw, "candidates", "")
+    .map((item, i) => parseCandidate(r, item, i))
+    .filter((c): c is Candidate => c !== null);
+
+  if (candidates.length === 0) {
+    throw new Error("The server response did not contain any candidate evaluations.");
+  }
+
+  const data: JsonData = {
+    tor_text: r.string(raw, "tor_text", ""),
+    criteria: parseCriteria(r, raw),
+    candidates,
+    comparison_matrix: parseComparisonMatrix(r, raw, candidates),
+    final_recommendation: parseFinalRecommendation(r, raw),
+  };
+
+  if (data.criteria.length === 0) {
+    const seen = new Map<string, number>();
+    candidates.forEach((c) =>
+      c.detailed_evaluation.forEach((e) => {
+        if (!seen.has(e.criterion)) seen.set(e.criterion, e.weight);
+      })
+    );
+    data.criteria = [...seen].map(([criterion, weight]) => ({ criterion, weight }));
+    if (data.criteria.length > 0) {
+      r.warn("criteria", "rebuilt from candidate evaluations");
+    }
+  }
+
+  return {
+    data,
+    warnings: r.warnings.map((w) => ({ ...w, path: w.path.replace(/^\./, "") })),
+  };
+};
@@ -0,0 +1,141 @@
+// Spreadsheet exports of a comparison: the ranking with every sub-score, the
+// detailed evaluation rows and the fulfillment matrix, as one XLSX workbook
+// or as one CSV file per sheet.
+
+import { saveAs } from "file-saver";
+import type { JsonData } from "@/lib/schema";
+import { categoryWeight, resolveCriteria, scoreBreakdown } from "@/lib/criteria";
+import { criterionNames, getFulfillmentForCandidate, sortMatrix } from "@/lib/results";
+
+export type Cell = string | number | null;
+
+export type SheetKey = "ranking" | "evaluation" | "fulfillment";
+
+export interface Sheet {
+  key: SheetKey;
+  name: string;
+  // The first row is the header.
+  rows: Cell[][];
+  // Columns holding long text, wrapped and widened in the workbook.
+  textColumns: number[];
+}
+
+export const SHEET_LABELS: Record<SheetKey, string> = {
+  ranking: "Ranking",
+  evaluation: "Detailed Evaluation",
+  fulfillment: "Fulfillment Matrix",
+};
+
+const rankingSheet = (data: JsonData): Sheet => {
+  const grid = resolveCriteria(data);
+  const header: Cell[] = ["Rank", "Candidate", "Recommendation", "Total Score"];
+  grid.forEach((category) => {
+    header.push(`${category.name} (${categoryWeight(category)}%)`);
+    category.subcriteria.forEach((sub) => header.push(`${sub.name} (${sub.weight}%)`));
+  });
+
+  const rows = sortMatrix(data.comparison_matrix).map((entry) => {
+    const candidate = data.candidates.find((c) => c.candidate_name === entry.candidate_name);
+    const row: Cell[] = [entry.rank, entry.candidate_name, candidate?.recommendation ?? null, entry.total_score];
+    if (!candidate) return row;
+    scoreBreakdown(candidate, grid).categories.forEach((category) => {
+      row.push(category.total);
+      category.items.forEach((item) => row.push(item.score));
+    });
+    return row;
+  });
+  return { key: "ranking", name: SHEET_LABELS.ranking, rows: [header, ...rows], textColumns: [] };
+};
+
+const evaluationSheet = (data: JsonData): Sheet => {
+  const categoryOf = new Map(
+    resolveCriteria(data).flatMap((category) => category.subcriteria.map((sub) => [sub.name, category.name]))
+  );
+  const rows = data.candidates.flatMap((candidate) =>
+    candidate.detailed_evaluation.map((item): Cell[] => [
+      candidate.candidate_name,
+      categoryOf.get(item.criterion) ?? null,
+      item.criterion,
+      item.weight,
+      item.score,
+      item.justification,
+    ])
+  );
+  return {
+    key: "evaluation",
+    name: SHEET_LABELS.evaluation,
+    rows: [["Candidate", "Category", "Criterion", "Weight", "Score", "Justification"], ...rows],
+    textColumns: [5],
+  };
+};
+
+const fulfillmentSheet = (data: JsonData): Sheet => {
+  const criteria = criterionNames(data);
+  const rows = data.candidates.map((candidate) => {
+    const fulfillment = getFulfillmentForCandidate(candidate, criteria);
+    return [candidate.candidate_name, ...criteria.map((crit) => fulfillment[crit])];
+  });
+  return {
+    key: "fulfillment",
+    name: SHEET_LABELS.fulfillment,
+    rows: [["Candidate", ...criteria], ...rows],
+    textColumns: criteria.map((_, i) => i + 1),
+  };
+};
+
+export const buildSheets = (data: JsonData): Sheet[] => [
+  rankingSheet(data),
+  evaluationSheet(data),
+  fulfillmentSheet(data),
+];
+
+// Text a spreadsheet would run as a formula when opening a CSV. Names and
+// justifications are model output from uploaded CV text, so they are quoted
+// rather than trusted. XLSX needs no quoting: exceljs writes strings as text
+// cells, which are never evaluated.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/** Prefixes text cells that would start a formula with `'`, so they open as plain text. */
+export const escapeFormula = (value: Cell): Cell =>
+  typeof value === "string" && FORMULA_START.test(value) ? `'${value}` : value;
+
+const csvCell = (value: Cell) => {
+  if (value == null) return "";
+  const text = String(escapeFormula(value));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: Cell[][]) => rows.map((row) => row.map(csvCell).join(",")).join("\r\n");
+
+export const exportCsv = (data: JsonData, key: SheetKey) => {
+  const sheet = buildSheets(data).find((s) => s.key === key);
+  if (!sheet) return;
+  // The BOM makes Excel open the file as UTF-8 instead of the system code page.
+  const blob = new Blob(["\uFEFF", toCsv(sheet.rows)], { type: "text/csv;charset=utf-8" });
+  saveAs(blob, `cv_comparison_${key}.csv`);
+};
+
+export const exportXlsx = async (data: JsonData) => {
+  const { Workbook } = await import("exceljs");
+  const workbook = new Workbook();
+  workbook.created = new Date();
+
+  buildSheets(data).forEach((sheet) => {
+    const worksheet = workbook.addWorksheet(sheet.name, { views: [{ state: "frozen", ySplit: 1, xSplit: 1 }] });
+    worksheet.addRows(sheet.rows);
+    worksheet.getRow(1).font = { bold: true };
+    worksheet.getRow(1).alignment = { vertical: "middle", wrapText: true };
+    worksheet.columns.forEach((column, i) => {
+      const isText = sheet.textColumns.includes(i);
+      const longest = sheet.rows.reduce((acc, row) => Math.max(acc, String(row[i] ?? "").length), 0);
+      column.width = isText ? 60 : Math.min(Math.max(longest + 2, 10), 40);
+      if (isText) column.alignment = { vertical: "top", wrapText: true };
+    });
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  saveAs(
+    new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }),
+    "cv_comparison_scores.xlsx"
+  );
+};
@@ -0,0 +1,67 @@
+// Steps of the evaluation workflow and what each needs before the user can
+// move past it. The review step re-checks every earlier step, so a draft
+// restored from an older session cannot be submitted half-filled.
+
+import { validateCriteria, type CriteriaGrid } from "@/lib/criteria";
+import type { CvPreview } from "@/lib/cvText";
+import { MAX_CVS } from "@/lib/cvValidation";
+
+export type WizardStep = "tor" | "criteria" | "cvs" | "review" | "results";
+
+export const WIZARD_STEPS: { key: WizardStep; label: string }[] = [
+  { key: "tor", label: "Terms of Reference" },
+  { key: "criteria", label: "Criteria" },
+  { key: "cvs", label: "CVs" },
+  { key: "review", label: "Review & Submit" },
+  { key: "results", label: "Results" },
+];
+
+export interface WizardState {
+  tor: string;
+  // Text is still being extracted from an uploaded ToR.
+  torBusy: boolean;
+  criteria: CriteriaGrid;
+  files: File[];
+  previews: Map<File, CvPreview>;
+  hasResults: boolean;
+}
+
+export const stepIndex = (step: WizardStep) => WIZARD_STEPS.findIndex((s) => s.key === step);
+
+export const isWizardStep = (value: unknown): value is WizardStep => WIZARD_STEPS.some((s) => s.key === value);
+
+const CHECKS: Record<WizardStep, (state: WizardState) => string[]> = {
+  tor: ({ tor, torBusy }) => {
+    if (torBusy) return ["Please wait for the ToR text extraction to finish."];
+    if (!tor.trim()) return ["Please enter ToR text or upload a ToR image to extract text."];
+    return [];
+  },
+  criteria: ({ criteria }) => validateCriteria(criteria).map((message) => `Evaluation criteria: ${message}`),
+  cvs: ({ files, previews }) => {
+    if (files.length === 0) return ["Please upload at least one CV file."];
+    if (files.length > MAX_CVS) return [`Maximum ${MAX_CVS} CVs allowed.`];
+    if (files.some((file) => previews.get(file)?.status === "ocr")) {
+      return ["Please wait for CV text recognition to finish or cancel it."];
+    }
+    return [];
+  },
+  review: () => [],
+  results: ({ hasResults }) => (hasResults ? [] : ["Submit the CVs to see results."]),
+};
+
+/** Problems that keep the user on `step`; empty when it is complete. */
+export const validateStep = (step: WizardStep, state: WizardState) => CHECKS[step](state);
+
+/** The first step before `step` that is incomplete, with its problems. */
+export const firstIncompleteStep = (state: WizardState, before: WizardStep = "results") => {
+  for (const { key } of WIZARD_STEPS.slice(0, stepIndex(before))) {
+    const errors = validateStep(key, state);
+    if (errors.length > 0) return { step: key, errors };
+  }
+  return null;
+};
+
+/** Earlier steps are always reachable; later ones once everything before them is complete. */
+export const canReachStep = (step: WizardStep, current: WizardStep, state: WizardState) =>
+  stepIndex(step) <= stepIndex(current) ||
+  (step === "results" ? state.hasResults : firstIncompleteStep(state, step) === null);
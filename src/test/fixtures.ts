@@ -0,0 +1,92 @@
+// Comparison results shared by the tests, in the shape `parseJsonData` returns.
+
+import type { Candidate, JsonData } from "@/lib/schema";
+
+const emptyScores = (total_score: number | null): Candidate["scores"] => ({
+  general_qualifications: { education: null, years_of_experience: null, total: null },
+  adequacy_for_assignment: {
+    relevant_project_experience: null,
+    donor_experience: null,
+    regional_experience: null,
+    total: null,
+  },
+  specific_skills_competencies: {
+    technical_skills: null,
+    language_proficiency: null,
+    certifications: null,
+    total: null,
+  },
+  total_score,
+});
+
+const candidate = (
+  candidate_name: string,
+  recommendation: string,
+  scores: [number, number, number],
+  justifications: [string, string, string]
+): Candidate => {
+  const criteria = [
+    { criterion: "Education", weight: 20 },
+    { criterion: "Years of Experience", weight: 30 },
+    { criterion: "Technical Skills", weight: 50 },
+  ];
+  return {
+    candidate_name,
+    recommendation,
+    scores: emptyScores(scores.reduce((acc, s) => acc + s, 0)),
+    summary_justification: {
+      key_strengths: `${candidate_name} strengths`,
+      key_weaknesses: `${candidate_name} weaknesses`,
+    },
+    detailed_evaluation: criteria.map((c, i) => ({ ...c, score: scores[i], justification: justifications[i] })),
+  };
+};
+
+export const fixtureData: JsonData = {
+  tor_text: "Water supply engineer for a donor-funded project.",
+  criteria: [
+    { criterion: "Education", weight: 20, category: "Qualifications" },
+    { criterion: "Years of Experience", weight: 30, category: "Qualifications" },
+    { criterion: "Technical Skills", weight: 50, category: "Skills" },
+  ],
+  candidates: [
+    candidate("Jane Doe", "Highly Suitable", [18, 27, 40], [
+      "MSc in Civil Engineering.",
+      "12 years in water supply.",
+      "Hydraulic modelling with EPANET.",
+    ]),
+    candidate("John Smith", "Suitable", [15, 20, 30], [
+      "BSc in Civil Engineering.",
+      "7 years of experience.",
+      "No evidence in CV.",
+    ]),
+    candidate("Ali Khan", "Not Suitable", [10, 10, 0], ["Diploma in surveying.", "3 years of experience.", ""]),
+  ],
+  comparison_matrix: [
+    { candidate_name: "John Smith", total_score: 65, rank: 2 },
+    { candidate_name: "Jane Doe", total_score: 85, rank: 1 },
+    { candidate_name: "Ali Khan", total_score: 20, rank: 3 },
+  ],
+  final_recommendation: {
+    best_candidate: "Jane Doe",
+    final_decision: "Highly Suitable",
+    justification: {
+      detailed_explanation: "Jane Doe leads on every criterion.",
+      why_he: "Longest relevant experience.",
+      why_not_others: [
+        { candidate_name: "John Smith", reason: "No modelling experience." },
+        { candidate_name: "Ali Khan", reason: "Too junior." },
+      ],
+    },
+  },
+};
+
+/** The same result as older backends sent it, with a single justification string. */
+export const legacyFixtureData: JsonData = {
+  ...fixtureData,
+  final_recommendation: {
+    best_candidate: "Jane Doe",
+    final_decision: "Highly Suitable",
+    justification: "Jane Doe is the strongest candidate.",
+  },
+};